@@ -9,9 +9,18 @@ import SitesPage from './pages/sites/SitesPage';
 import SiteDetailPage from './pages/sites/SiteDetailPage';
 import PostsPage from './pages/posts/PostsPage';
 import PostDetailPage from './pages/posts/PostDetailPage';
+import DuplicatesPage from './pages/posts/DuplicatesPage';
 import SchedulesPage from './pages/schedules/SchedulesPage';
+import ReviewsPage from './pages/reviews/ReviewsPage';
 import ClaudeRequestsPage from './pages/claude/ClaudeRequestsPage';
+import ClaudeRequestDetailPage from './pages/claude/ClaudeRequestDetailPage';
+import BatchGeneratePage from './pages/claude/BatchGeneratePage';
+import ClaudeVariantsPage from './pages/claude/ClaudeVariantsPage';
 import AnalyticsPage from './pages/analytics/AnalyticsPage';
+import TemplatesPage from './pages/templates/TemplatesPage';
+import SeasonalTopicsPage from './pages/seasonal/SeasonalTopicsPage';
+import CalendarPage from './pages/calendar/CalendarPage';
+import ScheduleLoadPage from './pages/schedules/ScheduleLoadPage';
 import ProfilePage from './pages/profile/ProfilePage';
 
 function App() {
@@ -36,9 +45,18 @@ function App() {
           <Route path="sites/:id" element={<SiteDetailPage />} />
           <Route path="sites/:siteId/posts" element={<PostsPage />} />
           <Route path="sites/:siteId/posts/:id" element={<PostDetailPage />} />
+          <Route path="sites/:siteId/duplicates" element={<DuplicatesPage />} />
+          <Route path="sites/:siteId/reviews" element={<ReviewsPage />} />
           <Route path="sites/:siteId/schedules" element={<SchedulesPage />} />
           <Route path="sites/:siteId/claude" element={<ClaudeRequestsPage />} />
+          <Route path="sites/:siteId/claude/:id" element={<ClaudeRequestDetailPage />} />
+          <Route path="sites/:siteId/claude/variants/:groupId" element={<ClaudeVariantsPage />} />
           <Route path="sites/:siteId/analytics" element={<AnalyticsPage />} />
+          <Route path="calendar" element={<CalendarPage />} />
+          <Route path="schedule-load" element={<ScheduleLoadPage />} />
+          <Route path="batch-generate" element={<BatchGeneratePage />} />
+          <Route path="templates" element={<TemplatesPage />} />
+          <Route path="seasonal-topics" element={<SeasonalTopicsPage />} />
           <Route path="profile" element={<ProfilePage />} />
         </Route>
 
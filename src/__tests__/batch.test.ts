@@ -0,0 +1,36 @@
+import { parseCsv, parseTopicList } from '../utils/batch';
+
+describe('parseCsv', () => {
+  it('records the line each row starts on', () => {
+    expect(parseCsv('a,"b\nc"\nd,e')).toEqual([
+      { line: 1, cells: ['a', 'b\nc'] },
+      { line: 3, cells: ['d', 'e'] },
+    ]);
+  });
+});
+
+describe('parseTopicList', () => {
+  it('reads CSV with a header row', () => {
+    const result = parseTopicList('キーワード,トピック\n花粉症;市販薬,花粉症薬の選び方\n,夏バテ対策');
+    expect(result.rows).toEqual([
+      { topic: '花粉症薬の選び方', keywords: ['花粉症', '市販薬'] },
+      { topic: '夏バテ対策', keywords: [] },
+    ]);
+  });
+
+  it('reads headerless CSV when every row has the same columns', () => {
+    const result = parseTopicList('花粉症薬の選び方\t花粉症\n夏バテ対策\t夏バテ、漢方');
+    expect(result.rows.map((row) => row.keywords)).toEqual([['花粉症'], ['夏バテ', '漢方']]);
+  });
+
+  it('keeps commas in a plain topic list', () => {
+    const result = parseTopicList('頭痛薬の選び方、飲み方\n花粉症, 鼻炎の違い\n夏バテ対策');
+    expect(result.rows.map((row) => row.topic)).toEqual(['頭痛薬の選び方、飲み方', '花粉症, 鼻炎の違い', '夏バテ対策']);
+  });
+
+  it('reports errors on the source line', () => {
+    const result = parseTopicList('topic,tone\n"花粉症\n対策",friendly\n夏バテ,casual');
+    expect(result.rows).toHaveLength(1);
+    expect(result.errors).toEqual([{ line: 4, message: 'トーン「casual」は使用できません' }]);
+  });
+});
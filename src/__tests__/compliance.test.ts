@@ -0,0 +1,110 @@
+import {
+  DEFAULT_COMPLIANCE_RULES,
+  applyComplianceSuggestion,
+  checkCompliance,
+  checkHtmlCompliance,
+  formatCustomComplianceRules,
+  getBlockingHits,
+  getSiteComplianceRules,
+  parseCustomComplianceRules,
+} from '../utils/compliance';
+
+const ruleIds = (text: string) => checkCompliance(text, DEFAULT_COMPLIANCE_RULES).map((hit) => hit.rule.id);
+
+describe('default rules', () => {
+  it.each([
+    ['この薬で必ず治ります', 'efficacy-cure-guarantee'],
+    ['花粉症が完治します', 'efficacy-complete-cure'],
+    ['飲むだけで楽になります', 'efficacy-instant'],
+    ['副作用の心配はありません', 'safety-no-side-effects'],
+    ['100%安全な成分です', 'safety-absolute'],
+    ['業界一の品質です', 'comparative-best'],
+    ['他社よりも効きます', 'comparative-other-products'],
+    ['がんに効くお茶', 'unapproved-serious-disease'],
+    ['サプリで体質が改善', 'unapproved-supplement-efficacy'],
+    ['飲むと痩せる', 'unapproved-anti-aging'],
+    ['医師も推薦する目薬', 'endorsement-doctor'],
+  ])('flags 「%s」', (text, id) => {
+    expect(ruleIds(text)).toContain(id);
+  });
+
+  it('leaves compliant wording alone', () => {
+    expect(ruleIds('症状の緩和が期待できます。気になる症状は薬剤師にご相談ください。')).toEqual([]);
+  });
+
+  it('reports positions in the stripped text of HTML content', () => {
+    const [hit] = checkHtmlCompliance('<p>この薬は<strong>完治</strong>を目指せます</p>', DEFAULT_COMPLIANCE_RULES);
+    expect(hit.match).toBe('完治');
+    expect(hit.start).toBe(4);
+  });
+});
+
+describe('getBlockingHits', () => {
+  const hits = checkCompliance('必ず治る薬。即効です。', DEFAULT_COMPLIANCE_RULES);
+
+  it('blocks on high-severity hits only', () => {
+    expect(getBlockingHits(hits).map((hit) => hit.rule.id)).toEqual(['efficacy-cure-guarantee']);
+  });
+
+  it('lets a pharmacist override a hit with a reason', () => {
+    const override = { rule_id: 'efficacy-cure-guarantee', match: '必ず治る', reason: '引用文のため' };
+    expect(getBlockingHits(hits, [override])).toEqual([]);
+  });
+
+  it('ignores overrides without a reason or for another match', () => {
+    expect(getBlockingHits(hits, [{ rule_id: 'efficacy-cure-guarantee', match: '必ず治る', reason: ' ' }]))
+      .toHaveLength(1);
+    expect(getBlockingHits(hits, [{ rule_id: 'efficacy-cure-guarantee', match: '絶対治る', reason: '引用' }]))
+      .toHaveLength(1);
+  });
+});
+
+describe('applyComplianceSuggestion', () => {
+  it('replaces the occurrence the hit points at', () => {
+    const html = '<p>完治</p><p>この薬で<em>完治</em>します</p>';
+    const hits = checkHtmlCompliance(html, DEFAULT_COMPLIANCE_RULES);
+    expect(hits).toHaveLength(2);
+    expect(applyComplianceSuggestion(html, hits[1])).toBe(
+      '<p>完治</p><p>この薬で<em>症状の緩和が期待できます</em>します</p>'
+    );
+  });
+
+  it('returns the HTML unchanged when the match spans tags', () => {
+    const html = '<p>完<strong>治</strong></p>';
+    const [hit] = checkHtmlCompliance(html, DEFAULT_COMPLIANCE_RULES);
+    expect(applyComplianceSuggestion(html, hit)).toBe(html);
+  });
+});
+
+describe('parseCustomComplianceRules', () => {
+  it('parses expressions with optional suggestions and skips comments', () => {
+    const rules = parseCustomComplianceRules('# 店舗ルール\n激安 => お求めやすい価格\n\n最安値\n');
+    expect(rules.map(({ id, pattern, suggestion, severity }) => ({ id, pattern, suggestion, severity }))).toEqual([
+      { id: 'custom:激安', pattern: '激安', suggestion: 'お求めやすい価格', severity: 'high' },
+      { id: 'custom:最安値', pattern: '最安値', suggestion: '', severity: 'high' },
+    ]);
+  });
+
+  it('keeps ids stable when lines are reordered', () => {
+    const ids = (text: string) =>
+      Object.fromEntries(parseCustomComplianceRules(text).map((rule) => [rule.pattern, rule.id]));
+    expect(ids('激安\n最安値')).toEqual(ids('最安値\n激安'));
+  });
+
+  it('keeps the first line of a repeated expression', () => {
+    const rules = parseCustomComplianceRules('激安 => 特価\n激安 => お得');
+    expect(rules).toHaveLength(1);
+    expect(rules[0].suggestion).toBe('特価');
+  });
+
+  it('round-trips through the textarea format', () => {
+    const text = '激安 => お求めやすい価格\n最安値';
+    expect(formatCustomComplianceRules(parseCustomComplianceRules(text))).toBe(text);
+  });
+
+  it('adds custom rules after the defaults', () => {
+    const rules = getSiteComplianceRules({ compliance_rules: parseCustomComplianceRules('激安') });
+    expect(rules).toHaveLength(DEFAULT_COMPLIANCE_RULES.length + 1);
+    expect(checkCompliance('激安セール', rules).map((hit) => hit.rule.id)).toEqual(['custom:激安']);
+  });
+});
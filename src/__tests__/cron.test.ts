@@ -0,0 +1,197 @@
+import { describeCron, formatCronRun, getCronRuns, matchesCron, parseCron } from '../utils/cron';
+import { ParsedCron } from '../types';
+
+const parse = (expression: string): ParsedCron => {
+  const { cron, error } = parseCron(expression);
+  if (!cron) throw new Error(error);
+  return cron;
+};
+
+describe('parseCron', () => {
+  it('expands wildcards, ranges, steps and lists', () => {
+    const cron = parse('*/15 9-11 1,15 */3 1-5');
+    expect(cron.minutes).toEqual([0, 15, 30, 45]);
+    expect(cron.hours).toEqual([9, 10, 11]);
+    expect(cron.daysOfMonth).toEqual([1, 15]);
+    expect(cron.months).toEqual([1, 4, 7, 10]);
+    expect(cron.daysOfWeek).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('supports stepped ranges and a start value with a step', () => {
+    expect(parse('10-30/10 * * * *').minutes).toEqual([10, 20, 30]);
+    expect(parse('5/20 * * * *').minutes).toEqual([5, 25, 45]);
+  });
+
+  it('merges overlapping list entries', () => {
+    expect(parse('0 9 * * 1-3,2,3-4').daysOfWeek).toEqual([1, 2, 3, 4]);
+  });
+
+  it('accepts month and weekday names', () => {
+    const cron = parse('0 9 * JAN,dec Mon-Fri');
+    expect(cron.months).toEqual([1, 12]);
+    expect(cron.daysOfWeek).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect(parse('0 9 * * 5-7').daysOfWeek).toEqual([0, 5, 6]);
+    expect(parse('0 9 * * 0,7').daysOfWeek).toEqual([0]);
+  });
+
+  it('tolerates surrounding and repeated whitespace', () => {
+    expect(parse('  0   9 * *  2,5 ').daysOfWeek).toEqual([2, 5]);
+  });
+
+  it('records which day fields are restricted', () => {
+    const both = parse('0 9 1 * 1');
+    expect(both.dayOfMonthRestricted).toBe(true);
+    expect(both.dayOfWeekRestricted).toBe(true);
+
+    const neither = parse('0 9 * * *');
+    expect(neither.dayOfMonthRestricted).toBe(false);
+    expect(neither.dayOfWeekRestricted).toBe(false);
+  });
+
+  it.each([
+    ['', 'Cron式は「分 時 日 月 曜日」の5項目で指定してください'],
+    ['0 9 * *', 'Cron式は「分 時 日 月 曜日」の5項目で指定してください'],
+    ['0 9 * * * *', 'Cron式は「分 時 日 月 曜日」の5項目で指定してください'],
+    ['60 * * * *', '分は0〜59の範囲で指定してください'],
+    ['0 24 * * *', '時は0〜23の範囲で指定してください'],
+    ['0 9 0 * *', '日は1〜31の範囲で指定してください'],
+    ['0 9 * 13 *', '月は1〜12の範囲で指定してください'],
+    ['0 9 * * 8', '曜日は0〜7の範囲で指定してください'],
+    ['0 9 * * foo', '曜日の値「foo」が不正です'],
+    ['0 9 * * 1,,5', '曜日の指定が空です'],
+    ['*/0 * * * *', '分の間隔「0」が不正です'],
+    ['*/x * * * *', '分の間隔「x」が不正です'],
+    ['0 17-9 * * *', '時の範囲「17-9」が逆順です'],
+  ])('rejects "%s"', (expression, error) => {
+    expect(parseCron(expression)).toEqual({ cron: null, error });
+  });
+});
+
+describe('matchesCron', () => {
+  it('ORs day-of-month and day-of-week when both are restricted', () => {
+    const cron = parse('0 9 1 * 1');
+    // 2024-04-01 is a Monday, 2024-04-08 a Monday, 2024-05-01 a Wednesday
+    expect(matchesCron(cron, new Date(2024, 3, 1, 9, 0))).toBe(true);
+    expect(matchesCron(cron, new Date(2024, 3, 8, 9, 0))).toBe(true);
+    expect(matchesCron(cron, new Date(2024, 4, 1, 9, 0))).toBe(true);
+    expect(matchesCron(cron, new Date(2024, 3, 2, 9, 0))).toBe(false);
+  });
+
+  it('uses only the restricted day field otherwise', () => {
+    expect(matchesCron(parse('0 9 1 * *'), new Date(2024, 3, 8, 9, 0))).toBe(false);
+    expect(matchesCron(parse('0 9 * * 1'), new Date(2024, 4, 1, 9, 0))).toBe(false);
+    // Fields starting with "*" keep both day fields ANDed, as in Vixie cron
+    expect(matchesCron(parse('0 9 */1 * 1'), new Date(2024, 3, 2, 9, 0))).toBe(false);
+    expect(matchesCron(parse('0 9 */1 * 1'), new Date(2024, 3, 8, 9, 0))).toBe(true);
+    expect(matchesCron(parse('0 9 */2 * 1'), new Date(2024, 3, 8, 9, 0))).toBe(false);
+    expect(matchesCron(parse('0 9 1 * */2'), new Date(2024, 5, 1, 9, 0))).toBe(true);
+    expect(matchesCron(parse('0 9 1 * */2'), new Date(2024, 3, 1, 9, 0))).toBe(false);
+  });
+
+  it('checks the time and month', () => {
+    const cron = parse('30 9 * 4 *');
+    expect(matchesCron(cron, new Date(2024, 3, 2, 9, 30))).toBe(true);
+    expect(matchesCron(cron, new Date(2024, 3, 2, 9, 31))).toBe(false);
+    expect(matchesCron(cron, new Date(2024, 4, 2, 9, 30))).toBe(false);
+  });
+});
+
+describe('getCronRuns', () => {
+  const utc = (iso: string) => new Date(`${iso}Z`);
+  const runsIn = (expression: string, from: string, timeZone: string, limit?: number) =>
+    getCronRuns(parse(expression), utc(from), { timeZone, limit }).map((run) => run.toISOString());
+
+  it('returns the next 10 runs by default, excluding the start minute', () => {
+    const runs = runsIn('0 * * * *', '2024-04-01T09:00:00', 'UTC');
+    expect(runs).toHaveLength(10);
+    expect(runs[0]).toBe('2024-04-01T10:00:00.000Z');
+    expect(runs[9]).toBe('2024-04-01T19:00:00.000Z');
+  });
+
+  it('evaluates the fields in the given time zone', () => {
+    // 09:00 in Tokyo is 00:00 UTC
+    expect(runsIn('0 9 * * 2,5', '2024-04-01T00:00:00', 'Asia/Tokyo', 3)).toEqual([
+      '2024-04-02T00:00:00.000Z',
+      '2024-04-05T00:00:00.000Z',
+      '2024-04-09T00:00:00.000Z',
+    ]);
+  });
+
+  it('keeps the wall-clock time across daylight saving changes', () => {
+    // New York moves from EST (UTC-5) to EDT (UTC-4) on 2024-03-10
+    expect(runsIn('0 9 * * *', '2024-03-09T00:00:00', 'America/New_York', 2)).toEqual([
+      '2024-03-09T14:00:00.000Z',
+      '2024-03-10T13:00:00.000Z',
+    ]);
+  });
+
+  it('combines day-of-month and day-of-week runs', () => {
+    // 15th of the month or any Friday; 2024-04-15 is a Monday
+    expect(runsIn('0 0 15 * 5', '2024-04-10T00:00:00', 'UTC', 3)).toEqual([
+      '2024-04-12T00:00:00.000Z',
+      '2024-04-15T00:00:00.000Z',
+      '2024-04-19T00:00:00.000Z',
+    ]);
+  });
+
+  it('skips months without the requested day', () => {
+    expect(runsIn('0 0 31 * *', '2024-01-31T12:00:00', 'UTC', 2)).toEqual([
+      '2024-03-31T00:00:00.000Z',
+      '2024-05-31T00:00:00.000Z',
+    ]);
+    expect(runsIn('0 0 29 2 *', '2024-03-01T00:00:00', 'UTC', 1)).toEqual(['2028-02-29T00:00:00.000Z']);
+  });
+
+  it('returns nothing for dates that never exist', () => {
+    expect(runsIn('0 9 30 2 *', '2024-01-01T00:00:00', 'UTC')).toEqual([]);
+  });
+
+  it('stops at until', () => {
+    const runs = getCronRuns(parse('0 9 * * *'), utc('2024-04-01T00:00:00'), {
+      timeZone: 'UTC',
+      until: utc('2024-04-03T09:00:00'),
+    });
+    expect(runs.map((run) => run.toISOString())).toEqual([
+      '2024-04-01T09:00:00.000Z',
+      '2024-04-02T09:00:00.000Z',
+      '2024-04-03T09:00:00.000Z',
+    ]);
+  });
+});
+
+describe('formatCronRun', () => {
+  it('formats the run in the given time zone', () => {
+    expect(formatCronRun(new Date('2024-04-02T00:00:00Z'), 'Asia/Tokyo')).toBe('2024/04/02(火) 09:00');
+    expect(formatCronRun(new Date('2024-04-02T00:00:00Z'), 'America/Los_Angeles')).toBe('2024/04/01(月) 17:00');
+  });
+});
+
+describe('describeCron', () => {
+  it.each([
+    ['0 9 * * 2,5', '毎週火曜と金曜の9:00'],
+    ['0 9 * * 1,3,5', '毎週月曜・水曜・金曜の9:00'],
+    ['0 9 * * 0,1', '毎週月曜と日曜の9:00'],
+    ['30 18 * * *', '毎日の18:30'],
+    ['0 9,14 * * 1-5', '平日の9:00と14:00'],
+    ['0 10 * * sat,sun', '土日の10:00'],
+    ['0 9 1,15 * *', '毎月1日と15日の9:00'],
+    ['0 9 1-7 * *', '毎月1〜7日の9:00'],
+    ['0 9 */10 * *', '毎月10日ごとの9:00'],
+    ['0 9 1 * 1', '毎月1日、または毎週月曜の9:00'],
+    ['0 9 */2 * 1-5', '毎月2日ごと（平日のみ）の9:00'],
+    ['0 9 * 4-9 1', '4〜9月の毎週月曜の9:00'],
+    ['0 9 1 */3 *', '3か月ごとの毎月1日の9:00'],
+    ['*/15 * * * *', '毎日の15分ごと'],
+    ['*/15 9-17 * * 1-5', '平日の9〜17時の15分ごと'],
+    ['5/20 * * * *', '毎日の5分から20分ごと'],
+    ['30 * * * *', '毎日の毎時30分'],
+    ['0 */2 * * *', '毎日の2時間ごとの0分'],
+    ['* 9 * * *', '毎日の9時の毎分'],
+    ['* * * * *', '毎分'],
+  ])('describes "%s"', (expression, description) => {
+    expect(describeCron(parse(expression))).toBe(description);
+  });
+});
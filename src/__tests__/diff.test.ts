@@ -0,0 +1,104 @@
+import { DiffOp, diffText, getDiffStats, splitCharacters } from '../utils/diff';
+
+// Both sides of the text can be rebuilt from the ops
+const before = (ops: DiffOp[]) => ops.filter((op) => op.type !== 'insert').map((op) => op.text).join('');
+const after = (ops: DiffOp[]) => ops.filter((op) => op.type !== 'delete').map((op) => op.text).join('');
+
+const expectRoundTrip = (a: string, b: string) => {
+  const ops = diffText(a, b);
+  expect(before(ops)).toBe(a);
+  expect(after(ops)).toBe(b);
+  return ops;
+};
+
+describe('splitCharacters', () => {
+  it('keeps surrogate pairs and combining marks with their base character', () => {
+    expect(splitCharacters('𠮷野家')).toEqual(['𠮷', '野', '家']);
+    expect(splitCharacters('がき')).toEqual(['が', 'き']);
+    expect(splitCharacters('👍🏻👨‍👩‍👧')).toEqual(['👍🏻', '👨‍👩‍👧']);
+  });
+});
+
+describe('diffText', () => {
+  it('returns no ops for two empty texts', () => {
+    expect(diffText('', '')).toEqual([]);
+  });
+
+  it('treats text added to or removed from an empty side as one op', () => {
+    expect(diffText('', '1日3回')).toEqual([{ type: 'insert', text: '1日3回' }]);
+    expect(diffText('1日3回', '')).toEqual([{ type: 'delete', text: '1日3回' }]);
+  });
+
+  it('reports identical texts as a single equal op', () => {
+    const text = '食後に服用してください。\n水またはぬるま湯で飲みます。\n';
+    expect(diffText(text, text)).toEqual([{ type: 'equal', text }]);
+  });
+
+  it('pinpoints inserted characters', () => {
+    const ops = expectRoundTrip('1日3回服用', '1日3回食後に服用');
+    expect(ops).toEqual([
+      { type: 'equal', text: '1日3回' },
+      { type: 'insert', text: '食後に' },
+      { type: 'equal', text: '服用' },
+    ]);
+  });
+
+  it('pinpoints deleted characters', () => {
+    const ops = expectRoundTrip('1日3回食後に服用', '1日3回服用');
+    expect(ops).toEqual([
+      { type: 'equal', text: '1日3回' },
+      { type: 'delete', text: '食後に' },
+      { type: 'equal', text: '服用' },
+    ]);
+  });
+
+  it('inserts and deletes whole lines', () => {
+    const ops = expectRoundTrip('導入\nまとめ\n', '導入\n用法・用量\nまとめ\n');
+    expect(ops).toEqual([
+      { type: 'equal', text: '導入\n' },
+      { type: 'insert', text: '用法・用量\n' },
+      { type: 'equal', text: 'まとめ\n' },
+    ]);
+    expect(diffText('導入\n用法・用量\nまとめ\n', '導入\nまとめ\n')).toEqual([
+      { type: 'equal', text: '導入\n' },
+      { type: 'delete', text: '用法・用量\n' },
+      { type: 'equal', text: 'まとめ\n' },
+    ]);
+  });
+
+  it('diffs changed lines character by character', () => {
+    const ops = expectRoundTrip('見出し\n1回2錠を服用\n', '見出し\n1回1錠を服用\n');
+    expect(ops).toEqual([
+      { type: 'equal', text: '見出し\n1回' },
+      { type: 'delete', text: '2' },
+      { type: 'insert', text: '1' },
+      { type: 'equal', text: '錠を服用\n' },
+    ]);
+  });
+
+  it('never splits multi-byte characters', () => {
+    const ops = expectRoundTrip('𠮷野家のがぜ薬', '𠮷田家のがぜ薬');
+    expect(ops).toEqual([
+      { type: 'equal', text: '𠮷' },
+      { type: 'delete', text: '野' },
+      { type: 'insert', text: '田' },
+      { type: 'equal', text: '家のがぜ薬' },
+    ]);
+    expect(getDiffStats(diffText('が', 'ぎ'))).toEqual({ inserted: 1, deleted: 1 });
+  });
+
+  it('falls back to a plain replacement beyond the edit distance limit', () => {
+    const a = 'あ'.repeat(1500);
+    const b = 'い'.repeat(1500);
+    expect(diffText(a, b)).toEqual([
+      { type: 'delete', text: a },
+      { type: 'insert', text: b },
+    ]);
+  });
+});
+
+describe('getDiffStats', () => {
+  it('counts inserted and deleted characters', () => {
+    expect(getDiffStats(diffText('1日3回服用', '1日2回食後に服用'))).toEqual({ inserted: 4, deleted: 1 });
+  });
+});
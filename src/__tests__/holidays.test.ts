@@ -0,0 +1,152 @@
+import {
+  applyHolidayRule,
+  createHolidayLookup,
+  findInvalidClosureLines,
+  getJapaneseHolidays,
+  parseClosureDates,
+} from '../utils/holidays';
+import { SiteClosures } from '../types';
+
+const datesOf = (year: number) => getJapaneseHolidays(year).map((holiday) => holiday.date);
+
+describe('getJapaneseHolidays', () => {
+  it('computes every holiday of 2024 including substitutes', () => {
+    expect(getJapaneseHolidays(2024).map((holiday) => `${holiday.date} ${holiday.name}`)).toEqual([
+      '2024-01-01 元日',
+      '2024-01-08 成人の日',
+      '2024-02-11 建国記念の日',
+      '2024-02-12 振替休日',
+      '2024-02-23 天皇誕生日',
+      '2024-03-20 春分の日',
+      '2024-04-29 昭和の日',
+      '2024-05-03 憲法記念日',
+      '2024-05-04 みどりの日',
+      '2024-05-05 こどもの日',
+      '2024-05-06 振替休日',
+      '2024-07-15 海の日',
+      '2024-08-11 山の日',
+      '2024-08-12 振替休日',
+      '2024-09-16 敬老の日',
+      '2024-09-22 秋分の日',
+      '2024-09-23 振替休日',
+      '2024-10-14 スポーツの日',
+      '2024-11-03 文化の日',
+      '2024-11-04 振替休日',
+      '2024-11-23 勤労感謝の日',
+    ]);
+  });
+
+  it('computes the equinoxes', () => {
+    expect(datesOf(2025)).toEqual(expect.arrayContaining(['2025-03-20', '2025-09-23']));
+    expect(datesOf(2027)).toEqual(expect.arrayContaining(['2027-03-21', '2027-09-23']));
+  });
+
+  it('adds 国民の休日 between two holidays', () => {
+    const silverWeek = getJapaneseHolidays(2026).find((holiday) => holiday.date === '2026-09-22');
+    expect(silverWeek).toEqual({ date: '2026-09-22', name: '国民の休日', kind: 'citizens' });
+    expect(datesOf(2015)).toContain('2015-09-22');
+  });
+
+  it('moves a substitute holiday past consecutive holidays', () => {
+    // 2025-05-04 is a Sunday; 5/5 is already a holiday so the substitute falls on 5/6
+    expect(getJapaneseHolidays(2025).find((holiday) => holiday.date === '2025-05-06')?.kind).toBe('substitute');
+  });
+
+  it('handles the enthronement and Olympic years', () => {
+    expect(datesOf(2019)).toEqual(
+      expect.arrayContaining(['2019-04-30', '2019-05-01', '2019-05-02', '2019-10-22'])
+    );
+    expect(datesOf(2019)).not.toContain('2019-12-23');
+    expect(datesOf(2020)).toEqual(expect.arrayContaining(['2020-07-23', '2020-07-24', '2020-08-10']));
+    expect(datesOf(2021)).toEqual(expect.arrayContaining(['2021-07-22', '2021-07-23', '2021-08-08']));
+  });
+});
+
+describe('createHolidayLookup', () => {
+  const closures: SiteClosures = {
+    year_end: true,
+    obon: true,
+    custom_dates: [{ date: '2024-06-10', name: '棚卸し' }],
+  };
+
+  it('includes site closures alongside national holidays', () => {
+    const lookup = createHolidayLookup(closures);
+    expect(lookup('2024-12-30')?.kind).toBe('year_end');
+    expect(lookup('2025-01-02')?.kind).toBe('year_end');
+    expect(lookup('2024-08-14')?.kind).toBe('obon');
+    expect(lookup('2024-06-10')).toEqual({ date: '2024-06-10', name: '棚卸し', kind: 'custom' });
+    expect(lookup('2024-06-11')).toBeUndefined();
+  });
+
+  it('prefers the national holiday on shared days', () => {
+    expect(createHolidayLookup(closures)('2025-01-01')?.name).toBe('元日');
+  });
+
+  it('ignores closures the site has not enabled', () => {
+    expect(createHolidayLookup()('2024-12-30')).toBeUndefined();
+  });
+});
+
+describe('applyHolidayRule', () => {
+  // 09:00 JST on 2024-02-09 (Fri) and 2024-02-12 (Mon, 振替休日)
+  const runs = [new Date('2024-02-09T00:00:00Z'), new Date('2024-02-12T00:00:00Z')];
+  const lookup = createHolidayLookup();
+
+  it('skips runs on holidays', () => {
+    const result = applyHolidayRule(runs, lookup, { mode: 'skip', timeZone: 'Asia/Tokyo' });
+    expect(result[0]).toEqual({ scheduled_at: runs[0], run_at: runs[0] });
+    expect(result[1].run_at).toBeNull();
+    expect(result[1].holiday?.name).toBe('振替休日');
+  });
+
+  it('shifts runs to the next non-holiday at the same time', () => {
+    const result = applyHolidayRule(runs, lookup, { mode: 'shift', timeZone: 'Asia/Tokyo' });
+    expect(result[1].run_at?.toISOString()).toBe('2024-02-13T00:00:00.000Z');
+  });
+
+  it('drops shifted runs that land on a date with its own run', () => {
+    // 2024-05-03 (Fri) to 05-06 (Mon) are holidays or weekend days with daily runs
+    const daily = ['03', '04', '05', '06', '07'].map((day) => new Date(`2024-05-${day}T00:00:00Z`));
+    const result = applyHolidayRule(daily, lookup, { mode: 'shift', timeZone: 'Asia/Tokyo' });
+    expect(result.map((run) => run.run_at?.toISOString() ?? null)).toEqual([
+      null,
+      null,
+      null,
+      null,
+      '2024-05-07T00:00:00.000Z',
+    ]);
+    expect(result[0].holiday?.name).toBe('憲法記念日');
+  });
+
+  it('keeps one run when several holidays shift to the same free date', () => {
+    // 2024-05-03 and 05-06 both shift to 05-07, which has no run of its own
+    const result = applyHolidayRule(
+      [new Date('2024-05-03T00:00:00Z'), new Date('2024-05-06T00:00:00Z')],
+      lookup,
+      { mode: 'shift', timeZone: 'Asia/Tokyo' }
+    );
+    expect(result[0].run_at?.toISOString()).toBe('2024-05-07T00:00:00.000Z');
+    expect(result[1].run_at).toBeNull();
+  });
+
+  it('judges the date in the schedule time zone', () => {
+    // 2024-02-12 01:00 UTC is 2/12 in Tokyo (振替休日) but still 2/11 in New York
+    const run = new Date('2024-02-12T01:00:00Z');
+    expect(applyHolidayRule([run], lookup, { mode: 'skip', timeZone: 'America/New_York' })[0].holiday?.name).toBe(
+      '建国記念の日'
+    );
+  });
+});
+
+describe('parseClosureDates', () => {
+  it('parses dates with optional reasons', () => {
+    expect(parseClosureDates('2024/6/10 棚卸し\n\n2024-05-01')).toEqual([
+      { date: '2024-05-01', name: '臨時休業' },
+      { date: '2024-06-10', name: '棚卸し' },
+    ]);
+  });
+
+  it('reports lines that are not valid dates', () => {
+    expect(findInvalidClosureLines('2024-02-30\n2024-06-10\n来週の月曜')).toEqual(['2024-02-30', '来週の月曜']);
+  });
+});
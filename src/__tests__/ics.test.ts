@@ -0,0 +1,82 @@
+import { buildIcsCalendar, escapeIcsText, foldIcsLine, formatIcsLocalTime } from '../utils/ics';
+import { CalendarEvent } from '../types';
+
+const octets = (text: string) => Buffer.byteLength(text, 'utf8');
+
+const event = (overrides: Partial<CalendarEvent>): CalendarEvent => ({
+  id: 'slot-1-0',
+  kind: 'slot',
+  site_id: 'site-1',
+  site_name: 'さくら薬局',
+  date: new Date('2024-10-22T00:00:00Z'),
+  title: '投稿枠',
+  ...overrides,
+});
+
+describe('escapeIcsText', () => {
+  it('escapes separators and newlines', () => {
+    expect(escapeIcsText('花粉症; 対策, 予防\\まとめ\n続き')).toBe('花粉症\\; 対策\\, 予防\\\\まとめ\\n続き');
+  });
+});
+
+describe('foldIcsLine', () => {
+  it('leaves short lines alone', () => {
+    expect(foldIcsLine('SUMMARY:花粉症')).toBe('SUMMARY:花粉症');
+  });
+
+  it('folds at 75 octets without splitting multi-byte characters', () => {
+    const line = `SUMMARY:${'花粉症の季節に気をつけたいこと'.repeat(5)}`;
+    const pieces = foldIcsLine(line).split('\r\n');
+    expect(pieces.length).toBeGreaterThan(1);
+    pieces.forEach((piece, index) => {
+      expect(octets(piece)).toBeLessThanOrEqual(75);
+      if (index > 0) expect(piece.startsWith(' ')).toBe(true);
+    });
+    expect(pieces.map((piece, index) => (index > 0 ? piece.slice(1) : piece)).join('')).toBe(line);
+  });
+});
+
+describe('formatIcsLocalTime', () => {
+  it('formats the time in Asia/Tokyo', () => {
+    expect(formatIcsLocalTime(new Date('2024-12-31T15:30:00Z'))).toBe('20250101T003000');
+  });
+});
+
+describe('buildIcsCalendar', () => {
+  const ics = buildIcsCalendar({
+    name: 'さくら薬局 投稿予定',
+    events: [
+      event({}),
+      event({
+        id: 'post-p1',
+        kind: 'scheduled',
+        title: '花粉症対策',
+        post: { id: 'p1', title: '花粉症対策' },
+      }),
+      event({ id: 'post-p2', kind: 'published', post: { id: 'p2' } }),
+      event({ id: 'slot-1-1', kind: 'skipped' }),
+    ],
+    getPostUrl: (post) => `https://example.com/sites/site-1/posts/${post.id}`,
+    now: new Date('2024-10-01T00:00:00Z'),
+  });
+  const lines = ics.split('\r\n');
+
+  it('wraps the events in a calendar with the Tokyo time zone', () => {
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('TZID:Asia/Tokyo');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('exports only scheduled posts and slots', () => {
+    expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(2);
+    expect(lines).toContain('UID:post-p1-site-1@pharma-blog-auto-poster');
+    expect(lines).toContain('UID:slot-1-0-site-1@pharma-blog-auto-poster');
+  });
+
+  it('links posts to their detail page', () => {
+    expect(lines).toContain('DTSTART;TZID=Asia/Tokyo:20241022T090000');
+    expect(lines).toContain('SUMMARY:花粉症対策');
+    expect(lines).toContain('URL:https://example.com/sites/site-1/posts/p1');
+    expect(lines).toContain('DTSTAMP:20241001T000000Z');
+  });
+});
@@ -0,0 +1,52 @@
+import {
+  buildKeywordCorrection,
+  expandKeywordVariants,
+  normalizeKeywordText,
+  validateArticleKeywords,
+} from '../utils/keywords';
+
+describe('normalizeKeywordText', () => {
+  it('folds half-width katakana, full-width latin and katakana into one form', () => {
+    expect(normalizeKeywordText('ﾛｷｿﾆﾝ')).toBe(normalizeKeywordText('ろきそにん'));
+    expect(normalizeKeywordText('ＰＭ２．５')).toBe('pm2.5');
+  });
+});
+
+describe('expandKeywordVariants', () => {
+  it('substitutes kanji and kana spellings of known words', () => {
+    const forms = expandKeywordVariants('子供の風邪');
+    expect(forms).toContain(normalizeKeywordText('こどものかぜ'));
+    expect(forms).toContain(normalizeKeywordText('子どもの風邪'));
+  });
+});
+
+describe('validateArticleKeywords', () => {
+  const html = '<h2>こどものカゼ</h2><p>ﾛｷｿﾆﾝは用法を守って服用しましょう。</p>';
+
+  it('accepts required keywords written in another spelling', () => {
+    const result = validateArticleKeywords(html, ['子供の風邪', '薬剤師'], []);
+    expect(result.missing).toEqual(['薬剤師']);
+  });
+
+  it('counts excluded keywords across width and kana variants', () => {
+    const result = validateArticleKeywords(html, [], ['ロキソニン']);
+    expect(result.excluded).toEqual([{ keyword: 'ロキソニン', count: 1 }]);
+    expect(result.passed).toBe(false);
+  });
+
+  it('passes when every keyword is honored', () => {
+    expect(validateArticleKeywords(html, ['服用'], ['副作用']).passed).toBe(true);
+  });
+});
+
+describe('buildKeywordCorrection', () => {
+  it('lists missing and excluded keywords', () => {
+    const correction = buildKeywordCorrection({
+      missing: ['薬剤師'],
+      excluded: [{ keyword: 'ロキソニン', count: 2 }],
+      passed: false,
+    });
+    expect(correction).toContain('「薬剤師」');
+    expect(correction).toContain('「ロキソニン」');
+  });
+});
@@ -0,0 +1,62 @@
+import { markdownToHtml, htmlToMarkdown } from '../utils/markdown';
+
+// Whitespace between block elements carries no meaning for WordPress
+const normalize = (html: string) => {
+  const template = document.createElement('template');
+  template.innerHTML = html.replace(/>\s+</g, '><').trim();
+  return template.innerHTML;
+};
+
+describe('markdownToHtml', () => {
+  it('renders headings, lists and emphasis', () => {
+    const html = markdownToHtml('## 用法・用量\n\n- 1日**3回**\n- 食後に服用\n\n1. 水で飲む\n2. *噛まない*');
+
+    expect(html).toBe(
+      '<h2>用法・用量</h2>\n' +
+      '<ul><li>1日<strong>3回</strong></li><li>食後に服用</li></ul>\n' +
+      '<ol><li>水で飲む</li><li><em>噛まない</em></li></ol>'
+    );
+  });
+
+  it('keeps h1 out of the article body', () => {
+    expect(markdownToHtml('# 見出し')).toBe('<h2>見出し</h2>');
+  });
+
+  it('renders tables and callout boxes', () => {
+    const html = markdownToHtml('| 成分 | 量 |\n| --- | --- |\n| アセトアミノフェン | 300mg |\n\n:::caution\n妊娠中の方は医師に相談してください\n:::');
+
+    expect(normalize(html)).toBe(
+      '<table><thead><tr><th>成分</th><th>量</th></tr></thead>' +
+      '<tbody><tr><td>アセトアミノフェン</td><td>300mg</td></tr></tbody></table>' +
+      '<div class="pharma-callout pharma-callout--caution"><p class="pharma-callout__title">注意事項</p>' +
+      '<p>妊娠中の方は医師に相談してください</p></div>'
+    );
+  });
+
+  it('passes raw HTML blocks through untouched', () => {
+    const raw = '<div class="wp-block-embed">\n<iframe src="https://example.com"></iframe>\n</div>';
+    expect(markdownToHtml(`${raw}\n\n段落`)).toBe(`${raw}\n<p>段落</p>`);
+  });
+});
+
+describe('htmlToMarkdown', () => {
+  const samples = [
+    '<h2>効果</h2><p>頭痛や<strong>発熱</strong>に用いられます。<br>詳しくは<a href="https://example.com/faq">FAQ</a>へ。</p>',
+    '<ul><li>眠くなることがあります</li><li>運転は避けてください</li></ul><ol><li>1錠</li><li>2錠</li></ol>',
+    '<table><thead><tr><th>時間</th><th>回数</th></tr></thead><tbody><tr><td>朝 | 夜</td><td>2回</td></tr></tbody></table>',
+    '<div class="pharma-callout pharma-callout--point"><p class="pharma-callout__title">ポイント</p><p>水で服用します</p></div>',
+    '<blockquote><p>引用文</p><p>二段落目</p></blockquote><hr>',
+    '<p>1. で始まる段落 &amp; *記号* と &lt;タグ&gt;</p><p># 見出しではない</p>',
+    '<p class="lead">属性付きの段落</p><ul><li>入れ子<ul><li>子</li></ul></li></ul>',
+    '<h3><span style="color: red">装飾付き</span>見出し</h3><p><img src="/a.png" alt="図1"></p>',
+  ];
+
+  it.each(samples)('round-trips %s', (html) => {
+    expect(normalize(markdownToHtml(htmlToMarkdown(html)))).toBe(normalize(html));
+  });
+
+  it('is stable when converting Markdown back and forth', () => {
+    const markdown = '## 副作用\n\n眠気が出ることがあります。\n服用後の運転は避けてください。\n\n- 発疹\n- かゆみ\n\n:::caution\n**異常を感じたら**すぐに医師へ\n:::';
+    expect(htmlToMarkdown(markdownToHtml(markdown))).toBe(markdown);
+  });
+});
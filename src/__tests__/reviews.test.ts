@@ -0,0 +1,54 @@
+import { canDecideReview, canPublishPost, canSchedulePost, invalidatesApproval } from '../utils/reviews';
+
+const approved = { status: 'approved', title: '花粉症対策', content: '<p>本文</p>' };
+
+describe('invalidatesApproval', () => {
+  it('keeps approval when the text is unchanged', () => {
+    expect(invalidatesApproval(approved, { title: '花粉症対策', content: '<p>本文</p>' })).toBe(false);
+  });
+
+  it('ignores surrounding whitespace', () => {
+    expect(invalidatesApproval(approved, { title: ' 花粉症対策 ', content: '<p>本文</p>\n' })).toBe(false);
+  });
+
+  it('withdraws approval when the title or content changes', () => {
+    expect(invalidatesApproval(approved, { title: '花粉症対策まとめ', content: '<p>本文</p>' })).toBe(true);
+    expect(invalidatesApproval(approved, { title: '花粉症対策', content: '<p>本文を追記</p>' })).toBe(true);
+  });
+
+  it('withdraws approval of scheduled posts too', () => {
+    expect(invalidatesApproval({ ...approved, status: 'scheduled' }, { title: '花粉症対策', content: '<p>変更</p>' }))
+      .toBe(true);
+  });
+
+  it('does not apply to posts that were never approved', () => {
+    ['draft', 'in_review', 'changes_requested'].forEach((status) => {
+      expect(invalidatesApproval({ ...approved, status }, { title: '別の記事', content: '<p>変更</p>' })).toBe(false);
+    });
+  });
+});
+
+describe('canSchedulePost / canPublishPost', () => {
+  it('requires pharmacist approval', () => {
+    expect(canSchedulePost({ status: 'draft' })).toBe(false);
+    expect(canSchedulePost({ status: 'approved' })).toBe(true);
+    expect(canPublishPost({ status: 'in_review', content: '<p>本文</p>' })).toBe(false);
+    expect(canPublishPost({ status: 'approved', content: '<p>本文</p>' })).toBe(true);
+  });
+});
+
+describe('canDecideReview', () => {
+  const post = { status: 'in_review', reviewer_id: 'pharmacist-1' };
+
+  it('allows the assigned reviewer and users with the reviewer role', () => {
+    expect(canDecideReview(post, { id: 'pharmacist-1', role: 'editor' })).toBe(true);
+    expect(canDecideReview(post, { id: 'pharmacist-2', role: 'reviewer' })).toBe(true);
+  });
+
+  it('refuses other users and posts not under review', () => {
+    expect(canDecideReview(post, { id: 'writer-1', role: 'editor' })).toBe(false);
+    expect(canDecideReview(post, { id: 'admin-1', role: 'admin' })).toBe(false);
+    expect(canDecideReview(post, null)).toBe(false);
+    expect(canDecideReview({ ...post, status: 'approved' }, { id: 'pharmacist-1' })).toBe(false);
+  });
+});
@@ -0,0 +1,140 @@
+import { sanitizeChangesHtml, sanitizeHtml, isSafeUrl } from '../utils/sanitize';
+
+describe('sanitizeHtml', () => {
+  describe('script injection', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it('removes script elements with their contents', () => {
+      expect(sanitizeHtml('<p>本文</p><script>alert(1)</script>')).toBe('<p>本文</p>');
+    });
+
+    it('removes style, svg and object payloads', () => {
+      const html = '<style>body{display:none}</style><svg><script>alert(1)</script></svg><object data="x.swf"></object><p>ok</p>';
+      expect(sanitizeHtml(html)).toBe('<p>ok</p>');
+    });
+
+    it('keeps the text of unknown elements but drops the element', () => {
+      expect(sanitizeHtml('<custom-box><p>本文</p></custom-box>')).toBe('<p>本文</p>');
+    });
+
+    it.each(['constructor', 'toString', '__proto__'])('unwraps a <%s> element', (tag) => {
+      // jsdom's parser cannot build these elements itself, so hand it a prepared document
+      const document = window.document.implementation.createHTMLDocument('');
+      const element = document.createElementNS('urn:test', tag);
+      element.setAttribute('onclick', 'x');
+      element.textContent = '本文';
+      document.body.append(element);
+      const parse = jest.spyOn(DOMParser.prototype, 'parseFromString').mockReturnValue(document);
+
+      expect(sanitizeHtml(`<${tag}>本文</${tag}>`)).toBe('本文');
+      expect(parse).toHaveBeenCalled();
+    });
+
+    it('removes html comments', () => {
+      expect(sanitizeHtml('<p>a<!-- <script>alert(1)</script> -->b</p>')).toBe('<p>ab</p>');
+    });
+  });
+
+  describe('event handler attributes', () => {
+    it('strips on* attributes', () => {
+      expect(sanitizeHtml('<img src="/a.png" onerror="alert(1)" alt="図">')).toBe('<img src="/a.png" alt="図">');
+      expect(sanitizeHtml('<p onclick="alert(1)" ONMOUSEOVER="alert(2)">本文</p>')).toBe('<p>本文</p>');
+    });
+
+    it('strips style and unknown attributes but keeps class', () => {
+      expect(sanitizeHtml('<div class="pharma-callout" style="background:url(x)" data-x="1">注意</div>'))
+        .toBe('<div class="pharma-callout">注意</div>');
+    });
+  });
+
+  describe('javascript: URLs', () => {
+    it.each([
+      'javascript:alert(1)',
+      'JavaScript:alert(1)',
+      ' javascript:alert(1)',
+      'java\tscript:alert(1)',
+      'java&#x09;script:alert(1)',
+      'vbscript:msgbox(1)',
+      'data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==',
+    ])('removes %s from links', (href) => {
+      const result = sanitizeHtml(`<a href="${href}">リンク</a>`);
+      expect(result).toBe('<a>リンク</a>');
+    });
+
+    it('removes unsafe image sources', () => {
+      expect(sanitizeHtml('<img src="javascript:alert(1)" alt="x">')).toBe('<img alt="x">');
+    });
+
+    it('keeps http, https, mailto, tel and relative URLs', () => {
+      expect(isSafeUrl('https://example.com')).toBe(true);
+      expect(isSafeUrl('mailto:info@example.com')).toBe(true);
+      expect(isSafeUrl('tel:0312345678')).toBe(true);
+      expect(isSafeUrl('/posts/1')).toBe(true);
+      expect(isSafeUrl('#section')).toBe(true);
+      expect(isSafeUrl('javascript:void(0)')).toBe(false);
+    });
+  });
+
+  describe('malformed nesting', () => {
+    it('closes unclosed tags', () => {
+      expect(sanitizeHtml('<p><strong>太字<em>斜体</p>')).toBe('<p><strong>太字<em>斜体</em></strong></p>');
+    });
+
+    it('repairs misnested inline tags', () => {
+      expect(sanitizeHtml('<b>1<i>2</b>3</i>')).toBe('<b>1<i>2</i></b><i>3</i>');
+    });
+
+    it('does not let broken attributes smuggle handlers', () => {
+      expect(sanitizeHtml('<img src=x onerror=alert(1)//>')).toBe('<img src="x">');
+      expect(sanitizeHtml('<a href="/ok"><img src=/a.png alt="a"onmouseover="alert(1)"></a>'))
+        .toBe('<a href="/ok"><img src="/a.png" alt="a"></a>');
+    });
+
+    it('drops stray closing tags', () => {
+      expect(sanitizeHtml('</div><p>本文</p></span>')).toBe('<p>本文</p>');
+    });
+  });
+
+  describe('WordPress markup', () => {
+    it('keeps headings, lists, tables and figures', () => {
+      const html =
+        '<h2>効果</h2><ul><li>頭痛</li></ul><ol start="2"><li>発熱</li></ol>' +
+        '<table><thead><tr><th scope="col">成分</th></tr></thead><tbody><tr><td colspan="2">300mg</td></tr></tbody></table>' +
+        '<figure class="wp-block-image"><img src="https://example.com/a.png" alt="図" width="300"><figcaption>図1</figcaption></figure>';
+      expect(sanitizeHtml(html)).toBe(html);
+    });
+
+    it('adds noopener to links opening a new window', () => {
+      expect(sanitizeHtml('<a href="https://example.com" target="_blank" rel="nofollow">外部</a>'))
+        .toBe('<a href="https://example.com" target="_blank" rel="nofollow noopener noreferrer">外部</a>');
+    });
+
+    it('drops unknown rel tokens and invalid targets on internal links', () => {
+      expect(sanitizeHtml('<a href="/posts/1" target="_top" rel="opener">内部</a>')).toBe('<a href="/posts/1">内部</a>');
+    });
+
+    it('allows iframes only from approved hosts', () => {
+      const youtube = '<iframe src="https://www.youtube.com/embed/abc" width="560" height="315" allowfullscreen=""></iframe>';
+      expect(sanitizeHtml(youtube)).toBe(youtube);
+      expect(sanitizeHtml('<iframe src="https://evil.example.com/embed"></iframe>')).toBe('');
+      expect(sanitizeHtml('<iframe src="http://www.youtube.com/embed/abc"></iframe>')).toBe('');
+      expect(sanitizeHtml('<iframe srcdoc="<script>alert(1)</script>"></iframe>')).toBe('');
+    });
+
+    it('accepts a custom iframe host list', () => {
+      const html = '<iframe src="https://player.example.jp/v/1"></iframe>';
+      expect(sanitizeHtml(html, { allowedIframeHosts: ['player.example.jp'] })).toBe(html);
+    });
+  });
+});
+
+describe('sanitizeChangesHtml', () => {
+  it('ignores markup the parser only repairs', () => {
+    expect(sanitizeChangesHtml('<p>本文<br/><strong>強調</p>')).toBe(false);
+  });
+
+  it('detects inline styles and unknown elements', () => {
+    expect(sanitizeChangesHtml('<p style="color: red">本文</p>')).toBe(true);
+    expect(sanitizeChangesHtml('<custom-box>本文</custom-box>')).toBe(true);
+  });
+});
@@ -0,0 +1,79 @@
+import { analyzeSeo, getFullWidthLength, tokenizeJapanese } from '../utils/seo';
+
+const getCheck = (content: string, id: string, options: { keyword?: string; siteUrl?: string } = {}) =>
+  analyzeSeo({ title: '', content, ...options }).checks.find((check) => check.id === id)!;
+
+describe('getFullWidthLength', () => {
+  it('counts half-width characters as half', () => {
+    expect(getFullWidthLength('花粉症ABC')).toBe(4.5);
+    expect(getFullWidthLength('ｶﾌﾝ')).toBe(1.5);
+  });
+});
+
+describe('tokenizeJapanese', () => {
+  it('splits Japanese text into words', () => {
+    expect(tokenizeJapanese('花粉症の薬を選ぶ').length).toBeGreaterThan(2);
+  });
+});
+
+describe('heading hierarchy', () => {
+  it('passes h2 and h3 in order', () => {
+    expect(getCheck('<h2>a</h2><h3>b</h3><h2>c</h2>', 'heading_hierarchy').status).toBe('pass');
+  });
+
+  it('fails without headings or with an h1 in the body', () => {
+    expect(getCheck('<p>本文</p>', 'heading_hierarchy').status).toBe('fail');
+    expect(getCheck('<h1>a</h1><h2>b</h2>', 'heading_hierarchy').status).toBe('fail');
+  });
+
+  it('warns when a level is skipped', () => {
+    const check = getCheck('<h2>a</h2><h4>b</h4>', 'heading_hierarchy');
+    expect(check.status).toBe('warn');
+    expect(check.message).toContain('h2 の直後に h4');
+  });
+});
+
+describe('keyword density', () => {
+  const filler = '<p>季節の変わり目は体調を崩しやすいので、睡眠と食事に気をつけて過ごしましょう。</p>';
+
+  it('counts occurrences of the focus keyword', () => {
+    const check = getCheck(`<p>花粉症の薬について説明します。</p>${filler.repeat(3)}`, 'keyword_density', {
+      keyword: '花粉症',
+    });
+    expect(check.message).toMatch(/^1回/);
+    expect(check.status).toBe('pass');
+  });
+
+  it('fails when the keyword is missing or overused', () => {
+    expect(getCheck(filler, 'keyword_density', { keyword: '花粉症' }).status).toBe('fail');
+    expect(getCheck('<p>花粉症、花粉症、花粉症の話。</p>', 'keyword_density', { keyword: '花粉症' }).status).toBe('fail');
+  });
+
+  it('fails without a focus keyword', () => {
+    expect(getCheck(filler, 'keyword_density').message).toBe('フォーカスキーワードが未設定です');
+  });
+});
+
+describe('link classification', () => {
+  const content = [
+    '<a href="/blog/kafunsho">関連記事</a>',
+    '<a href="https://pharmacy.example.jp/access">アクセス</a>',
+    '<a href="https://www.mhlw.go.jp/">厚生労働省</a>',
+    '<a href="//www.pmda.go.jp/">PMDA</a>',
+    '<a href="#faq">よくある質問</a>',
+    '<a href="mailto:info@pharmacy.example.jp">メール</a>',
+    '<a href="tel:0312345678">電話</a>',
+  ].join('');
+
+  it('counts only web links as internal or external', () => {
+    const options = { siteUrl: 'https://pharmacy.example.jp' };
+    expect(getCheck(content, 'internal_links', options).message).toBe('2件');
+    expect(getCheck(content, 'external_links', options).message).toBe('2件');
+  });
+
+  it('ignores anchors, mailto and tel links entirely', () => {
+    const links = '<a href="#faq">a</a><a href="mailto:a@example.jp">b</a><a href="tel:0312345678">c</a>';
+    expect(getCheck(links, 'internal_links').status).toBe('warn');
+    expect(getCheck(links, 'external_links').status).toBe('warn');
+  });
+});
@@ -0,0 +1,36 @@
+import { createShingles, findDuplicateClusters, findSimilarPosts, jaccardSimilarity } from '../utils/similarity';
+
+const posts = [
+  { id: '1', title: '花粉症対策の基本', content: '<p>花粉症の症状を抑えるには、早めに薬を飲み始めることが大切です。</p>' },
+  { id: '2', title: '今年の花粉症対策', content: '<p>花粉症の症状を抑えるには、早めに薬を飲み始めることが大切です！</p>' },
+  { id: '3', title: '熱中症を防ぐ水分補給', content: '<p>こまめな水分補給と塩分の補給を心がけましょう。</p>' },
+];
+
+describe('createShingles', () => {
+  it('ignores punctuation, width and kana differences', () => {
+    const a = createShingles('カゼ薬、の選び方', 2);
+    const b = createShingles('かぜ薬の選び方！', 2);
+    expect(jaccardSimilarity(a, b)).toBe(1);
+  });
+});
+
+describe('findSimilarPosts', () => {
+  it('matches a short topic against longer titles', () => {
+    const results = findSimilarPosts({ title: '花粉症対策' }, posts);
+    expect(results.map((result) => result.post.id)).toEqual(['1', '2']);
+    expect(results[0].content_score).toBeNull();
+  });
+
+  it('returns nothing for an empty topic', () => {
+    expect(findSimilarPosts({ title: ' ' }, posts)).toEqual([]);
+  });
+});
+
+describe('findDuplicateClusters', () => {
+  it('groups posts with overlapping bodies', () => {
+    const clusters = findDuplicateClusters(posts);
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].posts.map((post) => post.id)).toEqual(['1', '2']);
+    expect(clusters[0].max_score).toBeGreaterThan(0.8);
+  });
+});
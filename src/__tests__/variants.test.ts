@@ -0,0 +1,63 @@
+import { DEFAULT_COMPLIANCE_RULES } from '../utils/compliance';
+import { DEFAULT_READABILITY_TARGET } from '../utils/readability';
+import { analyzeSeo } from '../utils/seo';
+import { getBestVariantIndexes, measureArticleVariant } from '../utils/variants';
+
+const metrics = (seo_score: number, readability_score: number, compliance_hits: number, character_count = 2000) => ({
+  seo_score,
+  readability_score,
+  compliance_hits,
+  character_count,
+});
+
+describe('getBestVariantIndexes', () => {
+  it('picks the highest scores and the fewest compliance hits', () => {
+    expect(getBestVariantIndexes([metrics(60, 90, 3), metrics(80, 70, 0), metrics(70, 80, 1)])).toEqual({
+      seo_score: 1,
+      readability_score: 0,
+      compliance_hits: 1,
+    });
+  });
+
+  it('keeps the earliest variant on ties', () => {
+    expect(getBestVariantIndexes([metrics(70, 80, 1), metrics(90, 80, 1), metrics(90, 60, 1)])).toEqual({
+      seo_score: 1,
+      readability_score: 0,
+      compliance_hits: 0,
+    });
+  });
+
+  it('does not rank character counts', () => {
+    expect(getBestVariantIndexes([metrics(1, 1, 1, 1000), metrics(1, 1, 1, 3000)])).not.toHaveProperty(
+      'character_count'
+    );
+  });
+
+  it('ranks nothing with fewer than two variants', () => {
+    expect(getBestVariantIndexes([])).toEqual({});
+    expect(getBestVariantIndexes([metrics(80, 80, 0)])).toEqual({});
+  });
+});
+
+describe('measureArticleVariant', () => {
+  const context = { complianceRules: DEFAULT_COMPLIANCE_RULES, readabilityTarget: DEFAULT_READABILITY_TARGET };
+  const article = {
+    title: '花粉症の市販薬の選び方と飲み合わせの注意点を薬剤師が解説',
+    content: '<h2>花粉症の薬</h2><p>花粉症の薬は必ず治ります。症状に合わせて薬剤師に相談しましょう。</p>',
+    keyword: '花粉症',
+  };
+
+  it('collects SEO, readability, length and compliance metrics', () => {
+    const result = measureArticleVariant(article, context);
+    expect(result.seo_score).toBe(analyzeSeo(article).score);
+    expect(result.readability_score).toBeGreaterThanOrEqual(0);
+    expect(result.readability_score).toBeLessThanOrEqual(100);
+    expect(result.character_count).toBeGreaterThan(0);
+    expect(result.compliance_hits).toBe(1);
+  });
+
+  it('counts only the text for the character count', () => {
+    const plain = measureArticleVariant({ ...article, content: '<p>花粉症の薬</p>' }, context);
+    expect(plain.character_count).toBe(5);
+  });
+});
@@ -7,13 +7,25 @@ import {
   Brain, 
   User,
   Settings,
-  BarChart3
+  BarChart3,
+  ClipboardCheck,
+  LayoutTemplate,
+  Layers,
+  Leaf,
+  Copy,
+  CalendarDays,
+  Activity
 } from 'lucide-react';
 import { clsx } from 'clsx';
 
 const navigation = [
   { name: 'ダッシュボード', href: '/', icon: Home },
   { name: 'サイト管理', href: '/sites', icon: Globe },
+  { name: '投稿カレンダー', href: '/calendar', icon: CalendarDays },
+  { name: '投稿負荷', href: '/schedule-load', icon: Activity },
+  { name: '一括記事生成', href: '/batch-generate', icon: Layers },
+  { name: 'テンプレート', href: '/templates', icon: LayoutTemplate },
+  { name: '季節トピック', href: '/seasonal-topics', icon: Leaf },
   { name: '設定', href: '/profile', icon: Settings },
 ];
 
@@ -24,6 +36,8 @@ const Sidebar = () => {
   // If we're in a site-specific context, show site navigation
   const siteNavigation = currentSiteId ? [
     { name: '記事管理', href: `/sites/${currentSiteId}/posts`, icon: FileText },
+    { name: '重複チェック', href: `/sites/${currentSiteId}/duplicates`, icon: Copy },
+    { name: '薬剤師レビュー', href: `/sites/${currentSiteId}/reviews`, icon: ClipboardCheck },
     { name: 'スケジュール', href: `/sites/${currentSiteId}/schedules`, icon: Calendar },
     { name: 'Claude記事生成', href: `/sites/${currentSiteId}/claude`, icon: Brain },
     { name: '分析・レポート', href: `/sites/${currentSiteId}/analytics`, icon: BarChart3 },
@@ -0,0 +1,59 @@
+import { SiteBudget } from '../../hooks/useClaudeBudgets';
+import { formatCost } from '../../utils/cost';
+import { AlertTriangle, XCircle } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface BudgetAlertProps {
+  budget?: SiteBudget;
+  siteName?: string;
+  isAdmin: boolean;
+  override: boolean;
+  onOverrideChange: (override: boolean) => void;
+}
+
+const BudgetAlert: React.FC<BudgetAlertProps> = ({ budget, siteName, isAdmin, override, onOverrideChange }) => {
+  if (!budget || !budget.budget || budget.status === 'ok') {
+    return null;
+  }
+
+  const exceeded = budget.status === 'exceeded';
+  const Icon = exceeded ? XCircle : AlertTriangle;
+  const usage = `${formatCost(budget.spent)} / ${formatCost(budget.budget)}`;
+
+  return (
+    <div
+      className={clsx(
+        'rounded-md p-4 border',
+        exceeded ? 'bg-red-50 border-red-200' : 'bg-yellow-50 border-yellow-200'
+      )}
+    >
+      <div className="flex">
+        <Icon className={clsx('h-5 w-5 flex-shrink-0', exceeded ? 'text-red-500' : 'text-yellow-500')} />
+        <div className="ml-3 text-sm">
+          <p className={clsx('font-medium', exceeded ? 'text-red-800' : 'text-yellow-800')}>
+            {siteName && `${siteName}: `}
+            {exceeded ? '今月のClaude利用予算に達しています' : '今月のClaude利用額が予算の80%を超えています'}
+            （{usage}）
+          </p>
+          {exceeded && (
+            isAdmin ? (
+              <label className="mt-2 flex items-center text-red-700">
+                <input
+                  type="checkbox"
+                  checked={override}
+                  onChange={(e) => onOverrideChange(e.target.checked)}
+                  className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+                />
+                <span className="ml-2">管理者として予算を超えて生成する</span>
+              </label>
+            ) : (
+              <p className="mt-1 text-red-700">予算を超えて生成するには管理者に依頼してください。</p>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BudgetAlert;
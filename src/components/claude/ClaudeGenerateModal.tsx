@@ -1,10 +1,19 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
 import { Dialog, Transition } from '@headlessui/react';
 import { Fragment } from 'react';
 import { apiService } from '../../services/api';
 import Button from '../ui/Button';
-import { X, Plus, Minus } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useClaudeBudgets, useSeasonalTopics } from '../../hooks';
+import BudgetAlert from './BudgetAlert';
+import SimilarPostsWarning from '../posts/SimilarPostsWarning';
+import { ArticleTone, PromptTemplate, SeasonalTopic } from '../../types';
+import { ARTICLE_TONE_LABELS, DEFAULT_TEMPLATE_FIELDS, buildArticleRequest } from '../../utils/templates';
+import { findCoveringPost, getSeasonalTopicsForMonth } from '../../utils/seasonal';
+import { findSimilarPosts } from '../../utils/similarity';
+import { X, Plus, Minus, Leaf, CheckCircle2 } from 'lucide-react';
 import { clsx } from 'clsx';
 import toast from 'react-hot-toast';
 
@@ -12,22 +21,56 @@ interface ClaudeGenerateModalProps {
   isOpen: boolean;
   onClose: () => void;
   siteId: string;
+  // request_data of an earlier request to prefill the form with
+  initialRequestData?: any;
 }
 
-const ClaudeGenerateModal: React.FC<ClaudeGenerateModalProps> = ({ isOpen, onClose, siteId }) => {
-  const [formData, setFormData] = useState({
-    topic: '',
-    tone: 'friendly',
-    target_length: 2000,
-    keywords: [''],
-    exclude_keywords: [''],
-    structure: '導入→基本知識→詳細説明→地域情報→まとめ',
-    seo_focus: true,
-    create_post: true,
-  });
+const initialFormData = {
+  topic: '',
+  tone: DEFAULT_TEMPLATE_FIELDS.tone as string,
+  target_length: DEFAULT_TEMPLATE_FIELDS.target_length,
+  keywords: [''],
+  exclude_keywords: [''],
+  structure: DEFAULT_TEMPLATE_FIELDS.structure,
+  seo_focus: DEFAULT_TEMPLATE_FIELDS.seo_focus,
+  extra_instructions: '',
+  create_post: true,
+  keyword_auto_retry: false,
+  variants: 1,
+};
+
+const VARIANT_COUNTS = [2, 3, 4];
+
+const formDataFromRequest = (requestData: any) => {
+  const config = requestData.article_config || {};
+  const template = requestData.template || {};
+  const keywords: string[] = config.keywords || [];
+  const excludeKeywords: string[] = config.exclude_keywords || [];
+
+  return {
+    ...initialFormData,
+    topic: config.topic || '',
+    tone: config.tone || initialFormData.tone,
+    target_length: config.target_length || initialFormData.target_length,
+    keywords: keywords.length > 0 ? [...keywords] : [''],
+    exclude_keywords: excludeKeywords.length > 0 ? [...excludeKeywords] : [''],
+    structure: template.structure || initialFormData.structure,
+    seo_focus: template.seo_focus ?? initialFormData.seo_focus,
+    extra_instructions: template.extra_instructions || '',
+    keyword_auto_retry: !!requestData.keyword_enforcement?.auto_retry,
+  };
+};
+
+const ClaudeGenerateModal: React.FC<ClaudeGenerateModalProps> = ({ isOpen, onClose, siteId, initialRequestData }) => {
+  const [formData, setFormData] = useState(initialFormData);
+  const [templateId, setTemplateId] = useState('');
+  const [budgetOverride, setBudgetOverride] = useState(false);
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
 
   const queryClient = useQueryClient();
+  const navigate = useNavigate();
 
   const { data: site } = useQuery({
     queryKey: ['site', siteId],
@@ -35,14 +78,57 @@ const ClaudeGenerateModal: React.FC<ClaudeGenerateModalProps> = ({ isOpen, onClo
     enabled: !!siteId,
   });
 
+  const { data: templates } = useQuery({
+    queryKey: ['templates', siteId],
+    queryFn: () => apiService.getTemplates({ site_id: siteId }),
+    enabled: isOpen && !!siteId,
+  });
+
+  const { topics: seasonalTopics } = useSeasonalTopics();
+
+  const { data: posts } = useQuery({
+    queryKey: ['posts', siteId, 'existing'],
+    queryFn: () => apiService.getPosts(siteId, { limit: 100 }),
+    enabled: isOpen && !!siteId,
+  });
+
+  const templatesList: PromptTemplate[] = templates?.data || [];
+  const selectedTemplate = templatesList.find((template) => template.id === templateId) || null;
+
+  // Suggest this month's and next month's seasonal topics for the site region
+  const currentMonth = new Date().getMonth() + 1;
+  const seasonalSuggestions = [currentMonth, (currentMonth % 12) + 1].flatMap((month) =>
+    getSeasonalTopicsForMonth(seasonalTopics, month, site?.data?.region)
+  );
+  const postsList: any[] = posts?.data?.posts || [];
+  const similarPosts = useMemo(
+    () => findSimilarPosts({ title: formData.topic }, postsList),
+    [formData.topic, postsList]
+  );
+
+  const { budgets } = useClaudeBudgets(site?.data ? [site.data] : []);
+  const siteBudget = budgets[siteId];
+  const budgetBlocked = siteBudget?.status === 'exceeded' && !(isAdmin && budgetOverride);
+
   const generateMutation = useMutation({
-    mutationFn: (data: any) => apiService.generateArticle(siteId, data.request_data, data.create_post),
-    onSuccess: () => {
+    mutationFn: (data: any) =>
+      apiService.generateArticle(siteId, data.request_data, data.create_post, {
+        budgetOverride: data.budget_override,
+        variants: data.variants,
+      }),
+    onSuccess: (response) => {
       queryClient.invalidateQueries({ queryKey: ['claude-requests', siteId] });
       queryClient.invalidateQueries({ queryKey: ['posts', siteId] });
-      toast.success('記事生成を開始しました');
       onClose();
       resetForm();
+
+      const variantGroupId = response?.data?.variant_group_id;
+      if (variantGroupId) {
+        toast.success('バリアントの生成を開始しました');
+        navigate(`/sites/${siteId}/claude/variants/${variantGroupId}`);
+      } else {
+        toast.success('記事生成を開始しました');
+      }
     },
     onError: (error: any) => {
       toast.error(error.response?.data?.error || '記事生成の開始に失敗しました');
@@ -56,16 +142,9 @@ const ClaudeGenerateModal: React.FC<ClaudeGenerateModalProps> = ({ isOpen, onClo
   }, [isOpen]);
 
   const resetForm = () => {
-    setFormData({
-      topic: '',
-      tone: 'friendly',
-      target_length: 2000,
-      keywords: [''],
-      exclude_keywords: [''],
-      structure: '導入→基本知識→詳細説明→地域情報→まとめ',
-      seo_focus: true,
-      create_post: true,
-    });
+    setFormData(initialRequestData ? formDataFromRequest(initialRequestData) : initialFormData);
+    setTemplateId(initialRequestData?.template?.template_id || '');
+    setBudgetOverride(false);
     setErrors({});
   };
 
@@ -100,28 +179,37 @@ const ClaudeGenerateModal: React.FC<ClaudeGenerateModalProps> = ({ isOpen, onClo
       return;
     }
 
-    const requestData = {
-      site_info: {
-        region: siteData.region,
-        pharmacy_name: siteData.pharmacy_name,
-        pharmacy_features: siteData.pharmacy_features || '',
-      },
-      article_config: {
+    if (budgetBlocked) {
+      toast.error('今月の予算上限に達しているため生成できません');
+      return;
+    }
+
+    const requestData = buildArticleRequest(
+      siteData,
+      {
         topic: formData.topic,
-        tone: formData.tone,
+        tone: formData.tone as ArticleTone,
         target_length: formData.target_length,
-        keywords: formData.keywords.filter(k => k.trim()),
-        exclude_keywords: formData.exclude_keywords.filter(k => k.trim()),
-      },
-      template: {
+        keywords: formData.keywords,
+        exclude_keywords: formData.exclude_keywords,
         structure: formData.structure,
         seo_focus: formData.seo_focus,
+        extra_instructions: formData.extra_instructions,
       },
-    };
+      selectedTemplate
+    );
+
+    // Variants are compared first; the post is created when one is promoted
+    const isVariantRun = formData.variants > 1;
 
     generateMutation.mutate({
-      request_data: requestData,
-      create_post: formData.create_post,
+      request_data: {
+        ...requestData,
+        keyword_enforcement: { auto_retry: formData.keyword_auto_retry },
+      },
+      create_post: isVariantRun ? false : formData.create_post,
+      variants: isVariantRun ? formData.variants : undefined,
+      budget_override: siteBudget?.status === 'exceeded' && budgetOverride,
     });
   };
 
@@ -139,6 +227,38 @@ const ClaudeGenerateModal: React.FC<ClaudeGenerateModalProps> = ({ isOpen, onClo
     }
   };
 
+  const handleTemplateChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const id = e.target.value;
+    setTemplateId(id);
+
+    const template = templatesList.find((item) => item.id === id);
+    if (!template) return;
+
+    // Applying a template overwrites the generation settings but keeps the topic
+    setFormData((prev) => ({
+      ...prev,
+      tone: template.tone,
+      target_length: template.target_length,
+      keywords: template.keywords.length > 0 ? [...template.keywords] : [''],
+      exclude_keywords: template.exclude_keywords.length > 0 ? [...template.exclude_keywords] : [''],
+      structure: template.structure,
+      seo_focus: template.seo_focus,
+      extra_instructions: template.extra_instructions || '',
+    }));
+    setErrors({});
+  };
+
+  const applySeasonalTopic = (topic: SeasonalTopic) => {
+    setFormData((prev) => ({
+      ...prev,
+      topic: topic.topic,
+      keywords: prev.keywords.some((keyword) => keyword.trim()) || topic.keywords.length === 0
+        ? prev.keywords
+        : [...topic.keywords],
+    }));
+    setErrors((prev) => ({ ...prev, topic: '', keywords: '' }));
+  };
+
   const handleKeywordChange = (index: number, value: string, type: 'keywords' | 'exclude_keywords') => {
     setFormData((prev) => ({
       ...prev,
@@ -211,7 +331,7 @@ const ClaudeGenerateModal: React.FC<ClaudeGenerateModalProps> = ({ isOpen, onClo
                     as="h3"
                     className="text-lg font-medium leading-6 text-gray-900"
                   >
-                    Claude記事生成
+                    {initialRequestData ? '設定を複製して記事生成' : 'Claude記事生成'}
                   </Dialog.Title>
                   <button
                     type="button"
@@ -223,6 +343,37 @@ const ClaudeGenerateModal: React.FC<ClaudeGenerateModalProps> = ({ isOpen, onClo
                 </div>
 
                 <form onSubmit={handleSubmit} className="space-y-6">
+                  <BudgetAlert
+                    budget={siteBudget}
+                    isAdmin={isAdmin}
+                    override={budgetOverride}
+                    onOverrideChange={setBudgetOverride}
+                  />
+
+                  {/* Prompt Template */}
+                  <div>
+                    <label htmlFor="template_id" className="form-label">
+                      プロンプトテンプレート
+                    </label>
+                    <select
+                      name="template_id"
+                      id="template_id"
+                      value={templateId}
+                      onChange={handleTemplateChange}
+                      className="form-input"
+                    >
+                      <option value="">テンプレートを使用しない</option>
+                      {templatesList.map((template) => (
+                        <option key={template.id} value={template.id}>
+                          {template.name}（v{template.version}{template.site_id ? '' : '・共有'}）
+                        </option>
+                      ))}
+                    </select>
+                    {selectedTemplate?.description && (
+                      <p className="mt-1 text-xs text-gray-500">{selectedTemplate.description}</p>
+                    )}
+                  </div>
+
                   {/* Topic Selection */}
                   <div>
                     <label htmlFor="topic" className="form-label">
@@ -241,6 +392,34 @@ const ClaudeGenerateModal: React.FC<ClaudeGenerateModalProps> = ({ isOpen, onClo
                         )}
                         placeholder="例: 風邪薬の選び方と使い分け"
                       />
+                      {seasonalSuggestions.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="inline-flex items-center text-xs text-gray-500">
+                            <Leaf className="w-3 h-3 mr-1" />
+                            季節のおすすめ
+                          </span>
+                          {seasonalSuggestions.map((topic) => {
+                            const coveringPost = findCoveringPost(topic, postsList);
+                            return (
+                              <button
+                                key={topic.id}
+                                type="button"
+                                onClick={() => applySeasonalTopic(topic)}
+                                title={coveringPost ? `作成済み: ${coveringPost.title}` : undefined}
+                                className={clsx(
+                                  'inline-flex items-center text-xs px-2 py-1 rounded-full transition-colors',
+                                  coveringPost
+                                    ? 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                                    : 'bg-green-100 text-green-800 hover:bg-green-200'
+                                )}
+                              >
+                                {coveringPost && <CheckCircle2 className="w-3 h-3 mr-1" />}
+                                {topic.topic}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      )}
                       <div className="flex flex-wrap gap-2">
                         {predefinedTopics.map((topic) => (
                           <button
@@ -255,6 +434,11 @@ const ClaudeGenerateModal: React.FC<ClaudeGenerateModalProps> = ({ isOpen, onClo
                       </div>
                     </div>
                     {errors.topic && <p className="form-error">{errors.topic}</p>}
+                    {similarPosts.length > 0 && (
+                      <div className="mt-2">
+                        <SimilarPostsWarning siteId={siteId} similarPosts={similarPosts} />
+                      </div>
+                    )}
                   </div>
 
                   <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
@@ -269,9 +453,11 @@ const ClaudeGenerateModal: React.FC<ClaudeGenerateModalProps> = ({ isOpen, onClo
                         onChange={handleChange}
                         className="form-input"
                       >
-                        <option value="professional">専門的で信頼性のある</option>
-                        <option value="friendly">親しみやすく読みやすい</option>
-                        <option value="neutral">中立的で情報提供的な</option>
+                        {Object.entries(ARTICLE_TONE_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        ))}
                       </select>
                     </div>
 
@@ -392,6 +578,47 @@ const ClaudeGenerateModal: React.FC<ClaudeGenerateModalProps> = ({ isOpen, onClo
                     />
                   </div>
 
+                  {/* Extra Instructions */}
+                  <div>
+                    <label htmlFor="extra_instructions" className="form-label">
+                      追加の指示
+                    </label>
+                    <textarea
+                      name="extra_instructions"
+                      id="extra_instructions"
+                      rows={3}
+                      value={formData.extra_instructions}
+                      onChange={handleChange}
+                      className="form-input"
+                      placeholder="Claudeへの追加の指示があれば入力してください"
+                    />
+                  </div>
+
+                  {/* Variants */}
+                  <div>
+                    <label htmlFor="variants" className="form-label">
+                      バリアント数
+                    </label>
+                    <select
+                      id="variants"
+                      value={formData.variants}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, variants: parseInt(e.target.value, 10) }))}
+                      className="form-input"
+                    >
+                      <option value={1}>1（通常の生成）</option>
+                      {VARIANT_COUNTS.map((count) => (
+                        <option key={count} value={count}>
+                          {count}案を生成して比較
+                        </option>
+                      ))}
+                    </select>
+                    {formData.variants > 1 && (
+                      <p className="mt-1 text-sm text-gray-500">
+                        生成後の比較画面で採用した1案だけが記事になります
+                      </p>
+                    )}
+                  </div>
+
                   {/* Options */}
                   <div className="space-y-4">
                     <div className="flex items-center">
@@ -408,13 +635,28 @@ const ClaudeGenerateModal: React.FC<ClaudeGenerateModalProps> = ({ isOpen, onClo
                       </label>
                     </div>
 
+                    <div className="flex items-center">
+                      <input
+                        type="checkbox"
+                        name="keyword_auto_retry"
+                        id="keyword_auto_retry"
+                        checked={formData.keyword_auto_retry}
+                        onChange={handleChange}
+                        className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                      />
+                      <label htmlFor="keyword_auto_retry" className="ml-2 block text-sm text-gray-900">
+                        キーワード指定が守られていない場合は自動で1回再生成する
+                      </label>
+                    </div>
+
                     <div className="flex items-center">
                       <input
                         type="checkbox"
                         name="create_post"
                         id="create_post"
-                        checked={formData.create_post}
+                        checked={formData.create_post && formData.variants === 1}
                         onChange={handleChange}
+                        disabled={formData.variants > 1}
                         className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
                       />
                       <label htmlFor="create_post" className="ml-2 block text-sm text-gray-900">
@@ -427,7 +669,7 @@ const ClaudeGenerateModal: React.FC<ClaudeGenerateModalProps> = ({ isOpen, onClo
                     <Button type="button" variant="outline" onClick={onClose}>
                       キャンセル
                     </Button>
-                    <Button type="submit" loading={isLoading}>
+                    <Button type="submit" loading={isLoading} disabled={budgetBlocked}>
                       記事を生成
                     </Button>
                   </div>
@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ClaudeRequestProgress, ClaudeStreamMode } from '../../types';
+import Badge from '../ui/Badge';
+import LoadingSpinner from '../ui/LoadingSpinner';
+import { ChevronDown, ChevronUp, X } from 'lucide-react';
+
+interface GenerationProgressDrawerProps {
+  siteId: string;
+  progress: Record<string, ClaudeRequestProgress>;
+  mode: ClaudeStreamMode;
+  onDismiss: (id: string) => void;
+}
+
+const PREVIEW_LENGTH = 160;
+
+const statusLabels = {
+  pending: { variant: 'secondary' as const, label: '待機中' },
+  processing: { variant: 'warning' as const, label: '生成中' },
+  completed: { variant: 'success' as const, label: '完了' },
+  failed: { variant: 'error' as const, label: '失敗' },
+};
+
+const GenerationProgressDrawer: React.FC<GenerationProgressDrawerProps> = ({ siteId, progress, mode, onDismiss }) => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+
+  const items = Object.values(progress).sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+  if (items.length === 0) return null;
+
+  const activeCount = items.filter((item) => item.status === 'pending' || item.status === 'processing').length;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-96 rounded-lg bg-white shadow-lg border border-gray-200">
+      <button
+        type="button"
+        onClick={() => setIsCollapsed((prev) => !prev)}
+        className="w-full flex items-center justify-between px-4 py-3 border-b border-gray-200"
+      >
+        <span className="flex items-center text-sm font-medium text-gray-900">
+          {activeCount > 0 && <LoadingSpinner size="sm" className="mr-2" />}
+          生成の進行状況
+          {activeCount > 0 && <span className="ml-1 text-gray-500">（{activeCount}件処理中）</span>}
+        </span>
+        <span className="flex items-center text-xs text-gray-400">
+          {mode === 'polling' ? '定期更新' : mode === 'sse' ? 'ライブ' : '接続中'}
+          {isCollapsed ? <ChevronUp className="w-4 h-4 ml-2" /> : <ChevronDown className="w-4 h-4 ml-2" />}
+        </span>
+      </button>
+
+      {!isCollapsed && (
+        <ul className="max-h-80 overflow-y-auto divide-y divide-gray-200">
+          {items.map((item) => {
+            const finished = item.status === 'completed' || item.status === 'failed';
+            const preview = item.partial_text && item.partial_text.length > PREVIEW_LENGTH
+              ? `…${item.partial_text.slice(-PREVIEW_LENGTH)}`
+              : item.partial_text;
+
+            return (
+              <li key={item.id} className="px-4 py-3">
+                <div className="flex items-center justify-between">
+                  <Link
+                    to={`/sites/${siteId}/claude/${item.id}`}
+                    className="text-sm font-medium text-gray-900 hover:text-primary-600 truncate mr-2"
+                  >
+                    {item.topic || '記事生成'}
+                  </Link>
+                  <div className="flex items-center space-x-2 flex-shrink-0">
+                    <Badge variant={statusLabels[item.status].variant}>{statusLabels[item.status].label}</Badge>
+                    {finished && (
+                      <button
+                        type="button"
+                        onClick={() => onDismiss(item.id)}
+                        className="text-gray-400 hover:text-gray-600"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {item.error_message && <p className="mt-1 text-xs text-red-600">{item.error_message}</p>}
+                {preview && !finished && (
+                  <p className="mt-1 text-xs text-gray-500 whitespace-pre-wrap break-words">{preview}</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default GenerationProgressDrawer;
@@ -0,0 +1,30 @@
+import { KeywordValidation } from '../../types';
+import Badge from '../ui/Badge';
+
+interface KeywordCheckBadgeProps {
+  validation: KeywordValidation | null;
+}
+
+const KeywordCheckBadge: React.FC<KeywordCheckBadgeProps> = ({ validation }) => {
+  if (!validation) return null;
+
+  if (validation.passed) {
+    return <Badge variant="success">キーワードOK</Badge>;
+  }
+
+  const details = [
+    validation.missing.length > 0 && `不足: ${validation.missing.join('、')}`,
+    validation.excluded.length > 0 &&
+      `除外語: ${validation.excluded.map((violation) => `${violation.keyword}（${violation.count}回）`).join('、')}`,
+  ].filter(Boolean);
+
+  return (
+    <span title={details.join('\n')}>
+      <Badge variant="warning">
+        キーワード違反 {validation.missing.length + validation.excluded.length}件
+      </Badge>
+    </span>
+  );
+};
+
+export default KeywordCheckBadge;
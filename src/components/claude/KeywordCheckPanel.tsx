@@ -0,0 +1,51 @@
+import { KeywordValidation } from '../../types';
+import { CheckCircle2, AlertTriangle } from 'lucide-react';
+
+interface KeywordCheckPanelProps {
+  validation: KeywordValidation;
+  keywords: string[];
+}
+
+const KeywordCheckPanel: React.FC<KeywordCheckPanelProps> = ({ validation, keywords }) => {
+  const included = keywords.filter((keyword) => keyword.trim() && !validation.missing.includes(keyword));
+
+  return (
+    <div className="rounded-md border border-gray-200">
+      <div className="flex items-center px-4 py-3 border-b border-gray-200 bg-gray-50 text-sm font-medium text-gray-900">
+        {validation.passed ? (
+          <CheckCircle2 className="w-4 h-4 mr-2 text-green-600" />
+        ) : (
+          <AlertTriangle className="w-4 h-4 mr-2 text-yellow-600" />
+        )}
+        キーワードチェック
+        <span className="ml-2 text-gray-500 font-normal">
+          {validation.passed ? '指定どおりです' : '指定が守られていない箇所があります'}
+        </span>
+      </div>
+      <dl className="p-4 space-y-3 text-sm">
+        {included.length > 0 && (
+          <div>
+            <dt className="text-gray-500">含まれている必須キーワード</dt>
+            <dd className="mt-1 text-green-700">{included.join('、')}</dd>
+          </div>
+        )}
+        {validation.missing.length > 0 && (
+          <div>
+            <dt className="text-gray-500">不足している必須キーワード</dt>
+            <dd className="mt-1 text-red-700">{validation.missing.join('、')}</dd>
+          </div>
+        )}
+        {validation.excluded.length > 0 && (
+          <div>
+            <dt className="text-gray-500">使われている除外キーワード（表記ゆれを含む）</dt>
+            <dd className="mt-1 text-red-700">
+              {validation.excluded.map((violation) => `${violation.keyword}（${violation.count}回）`).join('、')}
+            </dd>
+          </div>
+        )}
+      </dl>
+    </div>
+  );
+};
+
+export default KeywordCheckPanel;
@@ -0,0 +1,120 @@
+import { useState, useEffect } from 'react';
+import { useClaudePricing } from '../../hooks';
+import { ClaudeModelPrice } from '../../types';
+import { DEFAULT_CLAUDE_PRICES } from '../../utils/cost';
+import Button from '../ui/Button';
+import { Plus, Trash2, RotateCcw } from 'lucide-react';
+
+const PriceTableEditor = () => {
+  const { prices, savePrices, isSaving } = useClaudePricing();
+  const [rows, setRows] = useState<ClaudeModelPrice[]>(prices);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setRows(prices);
+  }, [prices]);
+
+  const updateRow = (index: number, changes: Partial<ClaudeModelPrice>) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    setError('');
+  };
+
+  const handleSave = () => {
+    const models = rows.map((row) => row.model.trim());
+    if (models.some((model) => !model)) {
+      setError('モデル名を入力してください');
+      return;
+    }
+    if (new Set(models).size !== models.length) {
+      setError('同じモデルが複数登録されています');
+      return;
+    }
+    savePrices(rows.map((row) => ({ ...row, model: row.model.trim() })));
+  };
+
+  return (
+    <div className="space-y-4">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead>
+          <tr>
+            <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500">モデル</th>
+            <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500">入力（円 / 100万トークン）</th>
+            <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500">出力（円 / 100万トークン）</th>
+            <th className="py-2" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {rows.map((row, index) => (
+            <tr key={index}>
+              <td className="py-2 pr-4">
+                <input
+                  type="text"
+                  value={row.model}
+                  onChange={(e) => updateRow(index, { model: e.target.value })}
+                  className="form-input font-mono text-sm"
+                  placeholder="claude-3-sonnet"
+                />
+              </td>
+              <td className="py-2 pr-4">
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={row.input_per_million}
+                  onChange={(e) => updateRow(index, { input_per_million: Number(e.target.value) })}
+                  className="form-input"
+                />
+              </td>
+              <td className="py-2 pr-4">
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={row.output_per_million}
+                  onChange={(e) => updateRow(index, { output_per_million: Number(e.target.value) })}
+                  className="form-input"
+                />
+              </td>
+              <td className="py-2 text-right">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setRows((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {error && <p className="form-error">{error}</p>}
+      <p className="text-sm text-gray-500">
+        モデル名は前方一致で照合されます（例: claude-3-sonnet は claude-3-sonnet-20240229 に適用）
+      </p>
+
+      <div className="flex items-center justify-between">
+        <div className="flex space-x-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setRows((prev) => [...prev, { model: '', input_per_million: 0, output_per_million: 0 }])}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            モデルを追加
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setRows(DEFAULT_CLAUDE_PRICES)}>
+            <RotateCcw className="w-4 h-4 mr-1" />
+            標準の料金に戻す
+          </Button>
+        </div>
+        <Button size="sm" onClick={handleSave} loading={isSaving}>
+          保存
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PriceTableEditor;
@@ -0,0 +1,132 @@
+import { Fragment, useEffect, useState } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { ComplianceHit, ComplianceOverride } from '../../types';
+import { COMPLIANCE_CATEGORY_LABELS } from '../../utils/compliance';
+import Button from '../ui/Button';
+import { ShieldAlert } from 'lucide-react';
+
+interface ComplianceOverrideDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (overrides: ComplianceOverride[]) => void;
+  hits: ComplianceHit[];
+  loading?: boolean;
+}
+
+const ComplianceOverrideDialog: React.FC<ComplianceOverrideDialogProps> = ({
+  isOpen,
+  onClose,
+  onConfirm,
+  hits,
+  loading = false,
+}) => {
+  const [reasons, setReasons] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setReasons(hits.map(() => ''));
+    }
+  }, [isOpen, hits]);
+
+  const allReasonsProvided = reasons.length === hits.length && reasons.every((reason) => reason.trim());
+
+  const handleConfirm = () => {
+    if (!allReasonsProvided) return;
+    onConfirm(
+      hits.map((hit, index) => ({
+        rule_id: hit.rule.id,
+        match: hit.match,
+        reason: reasons[index].trim(),
+      }))
+    );
+  };
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-2xl transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <div className="flex">
+                  <div className="flex-shrink-0">
+                    <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-red-100">
+                      <ShieldAlert className="h-6 w-6 text-red-600" />
+                    </div>
+                  </div>
+                  <div className="ml-4 flex-1">
+                    <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                      薬機法チェックで公開がブロックされました
+                    </Dialog.Title>
+                    <p className="mt-2 text-sm text-gray-500">
+                      以下の表現を修正するか、例外として公開する理由を入力してください。理由は記事に記録されます。
+                    </p>
+                  </div>
+                </div>
+
+                <ul className="mt-6 space-y-4 max-h-96 overflow-y-auto">
+                  {hits.map((hit, index) => (
+                    <li key={`${hit.rule.id}-${hit.start}`} className="rounded-md border border-red-200 p-3">
+                      <div className="text-sm font-medium text-gray-900">
+                        「{hit.match}」
+                        <span className="ml-2 text-xs text-gray-500">
+                          {COMPLIANCE_CATEGORY_LABELS[hit.rule.category]}
+                        </span>
+                      </div>
+                      <p className="mt-1 text-xs text-gray-600">{hit.rule.description}</p>
+                      <input
+                        type="text"
+                        value={reasons[index] || ''}
+                        onChange={(e) =>
+                          setReasons((prev) => prev.map((reason, i) => (i === index ? e.target.value : reason)))
+                        }
+                        className="form-input mt-2"
+                        placeholder="例外とする理由（例: 添付文書の記載をそのまま引用しているため）"
+                      />
+                    </li>
+                  ))}
+                </ul>
+
+                <div className="mt-6 flex justify-end space-x-3">
+                  <Button variant="outline" onClick={onClose}>
+                    キャンセル
+                  </Button>
+                  <Button
+                    variant="danger"
+                    onClick={handleConfirm}
+                    disabled={!allReasonsProvided}
+                    loading={loading}
+                  >
+                    例外として公開
+                  </Button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+};
+
+export default ComplianceOverrideDialog;
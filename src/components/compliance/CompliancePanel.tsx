@@ -0,0 +1,134 @@
+import { useMemo } from 'react';
+import { ComplianceHit, ComplianceOverride, ComplianceRule } from '../../types';
+import {
+  COMPLIANCE_CATEGORY_LABELS,
+  checkCompliance,
+  isHitOverridden,
+  segmentByHits,
+} from '../../utils/compliance';
+import { stripHtml } from '../../utils/formatters';
+import Badge from '../ui/Badge';
+import Button from '../ui/Button';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface CompliancePanelProps {
+  content: string;
+  rules: ComplianceRule[];
+  overrides?: ComplianceOverride[];
+  onApplySuggestion?: (hit: ComplianceHit) => void;
+  showHighlightedText?: boolean;
+}
+
+const severityConfig = {
+  high: { variant: 'error' as const, label: '高', markClass: 'bg-red-200 text-red-900' },
+  medium: { variant: 'warning' as const, label: '中', markClass: 'bg-yellow-200 text-yellow-900' },
+  low: { variant: 'info' as const, label: '低', markClass: 'bg-blue-100 text-blue-900' },
+};
+
+const CompliancePanel: React.FC<CompliancePanelProps> = ({
+  content,
+  rules,
+  overrides = [],
+  onApplySuggestion,
+  showHighlightedText = true,
+}) => {
+  const text = useMemo(() => stripHtml(content), [content]);
+  const hits = useMemo(() => checkCompliance(text, rules), [text, rules]);
+  const segments = useMemo(() => segmentByHits(text, hits), [text, hits]);
+
+  const highCount = hits.filter((hit) => hit.rule.severity === 'high').length;
+
+  if (!text.trim()) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-md border border-gray-200">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 bg-gray-50">
+        <div className="flex items-center text-sm font-medium text-gray-900">
+          {hits.length === 0 ? (
+            <ShieldCheck className="w-4 h-4 mr-2 text-green-600" />
+          ) : (
+            <ShieldAlert className="w-4 h-4 mr-2 text-red-600" />
+          )}
+          薬機法チェック
+        </div>
+        {hits.length === 0 ? (
+          <Badge variant="success">問題なし</Badge>
+        ) : (
+          <div className="flex items-center space-x-2">
+            {highCount > 0 && <Badge variant="error">要修正 {highCount}件</Badge>}
+            <Badge variant="secondary">全 {hits.length}件</Badge>
+          </div>
+        )}
+      </div>
+
+      {hits.length > 0 && (
+        <div className="p-4 space-y-4">
+          {showHighlightedText && (
+            <div className="max-h-60 overflow-y-auto whitespace-pre-wrap text-sm text-gray-700 leading-relaxed">
+              {segments.map((segment, index) =>
+                segment.hit ? (
+                  <mark
+                    key={index}
+                    title={`${segment.hit.rule.description}（推奨: ${segment.hit.rule.suggestion}）`}
+                    className={clsx(
+                      'rounded px-0.5',
+                      severityConfig[segment.hit.rule.severity].markClass,
+                      isHitOverridden(segment.hit, overrides) && 'line-through opacity-60'
+                    )}
+                  >
+                    {segment.text}
+                  </mark>
+                ) : (
+                  <span key={index}>{segment.text}</span>
+                )
+              )}
+            </div>
+          )}
+
+          <ul className="divide-y divide-gray-200">
+            {hits.map((hit, index) => {
+              const overridden = isHitOverridden(hit, overrides);
+              return (
+                <li key={`${hit.rule.id}-${hit.start}-${index}`} className="py-3 flex items-start justify-between">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <Badge variant={severityConfig[hit.rule.severity].variant}>
+                        {severityConfig[hit.rule.severity].label}
+                      </Badge>
+                      <span className="text-sm font-medium text-gray-900">「{hit.match}」</span>
+                      <span className="text-xs text-gray-500">
+                        {COMPLIANCE_CATEGORY_LABELS[hit.rule.category]}
+                      </span>
+                      {overridden && <Badge variant="secondary">承認済み例外</Badge>}
+                    </div>
+                    <p className="mt-1 text-xs text-gray-600">{hit.rule.description}</p>
+                    {hit.rule.suggestion && (
+                      <p className="mt-1 text-xs text-green-700">
+                        言い換え例: {hit.rule.suggestion}
+                      </p>
+                    )}
+                  </div>
+                  {onApplySuggestion && hit.rule.suggestion && !overridden && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="ml-4 flex-shrink-0"
+                      onClick={() => onApplySuggestion(hit)}
+                    >
+                      置換
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompliancePanel;
@@ -0,0 +1,420 @@
+import { useState, useEffect, useRef } from 'react';
+import { CALLOUT_TYPES, CalloutType, htmlToMarkdown, markdownToHtml } from '../../utils/markdown';
+import { sanitizeChangesHtml, sanitizeHtml } from '../../utils/sanitize';
+import ConfirmDialog from '../ui/ConfirmDialog';
+import {
+  Heading2,
+  Heading3,
+  Type,
+  Bold,
+  List,
+  ListOrdered,
+  Link,
+  Table,
+  AlertTriangle,
+  Lightbulb,
+  Eye,
+} from 'lucide-react';
+import { clsx } from 'clsx';
+
+type EditorMode = 'markdown' | 'wysiwyg';
+
+interface ArticleEditorProps {
+  id?: string;
+  value: string;
+  onChange: (html: string) => void;
+  hasError?: boolean;
+  placeholder?: string;
+}
+
+const TABLE_TEMPLATE = '| 項目 | 内容 |\n| --- | --- |\n| | |';
+
+const ToolbarButton: React.FC<{
+  title: string;
+  onClick: () => void;
+  children: React.ReactNode;
+  active?: boolean;
+}> = ({ title, onClick, children, active }) => (
+  <button
+    type="button"
+    title={title}
+    // Keep the selection inside the editor while clicking the toolbar
+    onMouseDown={(e) => e.preventDefault()}
+    onClick={onClick}
+    className={clsx(
+      'p-1.5 rounded text-gray-600 hover:bg-gray-200 hover:text-gray-900',
+      active && 'bg-gray-200 text-gray-900'
+    )}
+  >
+    {children}
+  </button>
+);
+
+/**
+ * Article body editor with Markdown and WYSIWYG modes. The value is always
+ * the HTML that is sent to WordPress; Markdown is only an editing view.
+ */
+const ArticleEditor: React.FC<ArticleEditorProps> = ({ id, value, onChange, hasError, placeholder }) => {
+  const [mode, setMode] = useState<EditorMode>('markdown');
+  const [markdown, setMarkdown] = useState(() => htmlToMarkdown(value));
+  const [showPreview, setShowPreview] = useState(true);
+  const [linkUrl, setLinkUrl] = useState<string | null>(null);
+  const [confirmWysiwyg, setConfirmWysiwyg] = useState(false);
+
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const editableRef = useRef<HTMLDivElement>(null);
+  const lastHtml = useRef(value);
+  const savedRange = useRef<Range | null>(null);
+
+  // Re-derive the Markdown only when the HTML was changed from outside the editor
+  useEffect(() => {
+    if (value !== lastHtml.current) {
+      lastHtml.current = value;
+      setMarkdown(htmlToMarkdown(value));
+    }
+  }, [value]);
+
+  useEffect(() => {
+    if (mode === 'wysiwyg' && editableRef.current && editableRef.current.innerHTML !== value) {
+      editableRef.current.innerHTML = sanitizeHtml(value);
+    }
+  }, [mode, value]);
+
+  const emit = (html: string) => {
+    lastHtml.current = html;
+    onChange(html);
+  };
+
+  const switchMode = (next: EditorMode, confirmed = false) => {
+    if (next === mode) return;
+    // The visual editor shows sanitized markup, and its first edit writes that back
+    if (next === 'wysiwyg' && !confirmed && sanitizeChangesHtml(value)) {
+      setConfirmWysiwyg(true);
+      return;
+    }
+    if (next === 'markdown') {
+      setMarkdown(htmlToMarkdown(value));
+    }
+    setLinkUrl(null);
+    setMode(next);
+  };
+
+  // --- Markdown mode ---
+
+  const updateMarkdown = (next: string, selectionStart?: number, selectionEnd?: number) => {
+    setMarkdown(next);
+    emit(markdownToHtml(next));
+    if (selectionStart !== undefined) {
+      requestAnimationFrame(() => {
+        textareaRef.current?.focus();
+        textareaRef.current?.setSelectionRange(selectionStart, selectionEnd ?? selectionStart);
+      });
+    }
+  };
+
+  const getSelection = () => {
+    const textarea = textareaRef.current;
+    return {
+      start: textarea?.selectionStart ?? markdown.length,
+      end: textarea?.selectionEnd ?? markdown.length,
+    };
+  };
+
+  const prefixLines = (prefix: (index: number) => string, strip: RegExp) => {
+    const { start, end } = getSelection();
+    const lineStart = markdown.lastIndexOf('\n', start - 1) + 1;
+    const lineEndIndex = markdown.indexOf('\n', end);
+    const lineEnd = lineEndIndex === -1 ? markdown.length : lineEndIndex;
+
+    const lines = markdown
+      .slice(lineStart, lineEnd)
+      .split('\n')
+      .map((line, index) => prefix(index) + line.replace(strip, ''));
+    const replaced = lines.join('\n');
+    updateMarkdown(markdown.slice(0, lineStart) + replaced + markdown.slice(lineEnd), lineStart + replaced.length);
+  };
+
+  const wrapSelection = (before: string, after: string, fallback: string) => {
+    const { start, end } = getSelection();
+    const selected = markdown.slice(start, end) || fallback;
+    updateMarkdown(
+      markdown.slice(0, start) + before + selected + after + markdown.slice(end),
+      start + before.length,
+      start + before.length + selected.length
+    );
+  };
+
+  const insertBlock = (block: string) => {
+    const { start, end } = getSelection();
+    const head = markdown.slice(0, start).replace(/\n*$/, '');
+    const tail = markdown.slice(end).replace(/^\n*/, '');
+    const prefix = head ? `${head}\n\n` : '';
+    updateMarkdown(`${prefix}${block}\n\n${tail}`, prefix.length + block.length);
+  };
+
+  // --- WYSIWYG mode ---
+
+  const exec = (command: string, argument?: string) => {
+    editableRef.current?.focus();
+    document.execCommand(command, false, argument);
+    if (editableRef.current) {
+      emit(editableRef.current.innerHTML);
+    }
+  };
+
+  // Pasted markup from other sites goes through the same sanitizer as rendering
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    const html = e.clipboardData.getData('text/html');
+    if (!html) return;
+    e.preventDefault();
+    exec('insertHTML', sanitizeHtml(html));
+  };
+
+  const selectedText = () => window.getSelection()?.toString() || '';
+
+  // --- Toolbar actions ---
+
+  const heading = (level: 2 | 3) => {
+    if (mode === 'markdown') {
+      prefixLines(() => `${'#'.repeat(level)} `, /^#{1,6}\s+/);
+    } else {
+      exec('formatBlock', `<h${level}>`);
+    }
+  };
+
+  const paragraph = () => {
+    if (mode === 'markdown') {
+      prefixLines(() => '', /^(#{1,6}|[-*]|\d+\.)\s+/);
+    } else {
+      exec('formatBlock', '<p>');
+    }
+  };
+
+  const bold = () => {
+    if (mode === 'markdown') {
+      wrapSelection('**', '**', '強調');
+    } else {
+      exec('bold');
+    }
+  };
+
+  const list = (ordered: boolean) => {
+    if (mode === 'markdown') {
+      prefixLines((index) => (ordered ? `${index + 1}. ` : '- '), /^([-*]|\d+\.)\s+/);
+    } else {
+      exec(ordered ? 'insertOrderedList' : 'insertUnorderedList');
+    }
+  };
+
+  const table = () => {
+    if (mode === 'markdown') {
+      insertBlock(TABLE_TEMPLATE);
+    } else {
+      exec('insertHTML', `${markdownToHtml(TABLE_TEMPLATE)}<p><br></p>`);
+    }
+  };
+
+  const callout = (type: CalloutType) => {
+    if (mode === 'markdown') {
+      const { start, end } = getSelection();
+      const selected = markdown.slice(start, end).trim();
+      insertBlock(`:::${type}\n${selected || `${CALLOUT_TYPES[type]}を入力`}\n:::`);
+    } else {
+      const text = selectedText().trim() || `${CALLOUT_TYPES[type]}を入力`;
+      exec('insertHTML', `${markdownToHtml(`:::${type}\n${text}\n:::`)}<p><br></p>`);
+    }
+  };
+
+  const openLinkInput = () => {
+    const selection = window.getSelection();
+    savedRange.current =
+      mode === 'wysiwyg' && selection && selection.rangeCount > 0 ? selection.getRangeAt(0).cloneRange() : null;
+    setLinkUrl('https://');
+  };
+
+  const insertLink = () => {
+    const url = linkUrl?.trim();
+    setLinkUrl(null);
+    if (!url || url === 'https://') return;
+
+    if (mode === 'markdown') {
+      wrapSelection('[', `](${url})`, 'リンクテキスト');
+      return;
+    }
+
+    editableRef.current?.focus();
+    const selection = window.getSelection();
+    if (savedRange.current && selection) {
+      selection.removeAllRanges();
+      selection.addRange(savedRange.current);
+    }
+    if (selection?.isCollapsed) {
+      exec('insertHTML', `<a href="${url.replace(/"/g, '&quot;')}">${url.replace(/</g, '&lt;')}</a>`);
+    } else {
+      exec('createLink', url);
+    }
+  };
+
+  return (
+    <div
+      className={clsx(
+        'rounded-md border shadow-sm',
+        hasError ? 'border-red-300' : 'border-gray-300'
+      )}
+    >
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b border-gray-200 bg-gray-50 px-2 py-1.5 rounded-t-md">
+        <div className="flex flex-wrap items-center gap-0.5">
+          <ToolbarButton title="見出し2" onClick={() => heading(2)}>
+            <Heading2 className="w-4 h-4" />
+          </ToolbarButton>
+          <ToolbarButton title="見出し3" onClick={() => heading(3)}>
+            <Heading3 className="w-4 h-4" />
+          </ToolbarButton>
+          <ToolbarButton title="本文" onClick={paragraph}>
+            <Type className="w-4 h-4" />
+          </ToolbarButton>
+          <span className="mx-1 h-5 w-px bg-gray-300" />
+          <ToolbarButton title="太字" onClick={bold}>
+            <Bold className="w-4 h-4" />
+          </ToolbarButton>
+          <ToolbarButton title="箇条書き" onClick={() => list(false)}>
+            <List className="w-4 h-4" />
+          </ToolbarButton>
+          <ToolbarButton title="番号付きリスト" onClick={() => list(true)}>
+            <ListOrdered className="w-4 h-4" />
+          </ToolbarButton>
+          <ToolbarButton title="リンク" onClick={openLinkInput} active={linkUrl !== null}>
+            <Link className="w-4 h-4" />
+          </ToolbarButton>
+          <ToolbarButton title="表" onClick={table}>
+            <Table className="w-4 h-4" />
+          </ToolbarButton>
+          <span className="mx-1 h-5 w-px bg-gray-300" />
+          <ToolbarButton title={CALLOUT_TYPES.caution} onClick={() => callout('caution')}>
+            <AlertTriangle className="w-4 h-4" />
+          </ToolbarButton>
+          <ToolbarButton title={CALLOUT_TYPES.point} onClick={() => callout('point')}>
+            <Lightbulb className="w-4 h-4" />
+          </ToolbarButton>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {mode === 'markdown' && (
+            <ToolbarButton title="プレビュー" onClick={() => setShowPreview(!showPreview)} active={showPreview}>
+              <Eye className="w-4 h-4" />
+            </ToolbarButton>
+          )}
+          <div className="inline-flex rounded-md border border-gray-300 bg-white text-xs">
+            <button
+              type="button"
+              onClick={() => switchMode('markdown')}
+              className={clsx(
+                'px-2.5 py-1 rounded-l-md',
+                mode === 'markdown' ? 'bg-primary-600 text-white' : 'text-gray-700 hover:bg-gray-50'
+              )}
+            >
+              Markdown
+            </button>
+            <button
+              type="button"
+              onClick={() => switchMode('wysiwyg')}
+              className={clsx(
+                'px-2.5 py-1 rounded-r-md',
+                mode === 'wysiwyg' ? 'bg-primary-600 text-white' : 'text-gray-700 hover:bg-gray-50'
+              )}
+            >
+              ビジュアル
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Link Input */}
+      {linkUrl !== null && (
+        <div className="flex items-center gap-2 border-b border-gray-200 px-3 py-2">
+          <input
+            type="url"
+            value={linkUrl}
+            onChange={(e) => setLinkUrl(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                insertLink();
+              }
+              if (e.key === 'Escape') setLinkUrl(null);
+            }}
+            className="form-input text-sm"
+            autoFocus
+          />
+          <button
+            type="button"
+            onClick={insertLink}
+            className="shrink-0 text-sm font-medium text-primary-600 hover:text-primary-700"
+          >
+            挿入
+          </button>
+          <button
+            type="button"
+            onClick={() => setLinkUrl(null)}
+            className="shrink-0 text-sm text-gray-500 hover:text-gray-700"
+          >
+            キャンセル
+          </button>
+        </div>
+      )}
+
+      {/* Editing Area */}
+      {mode === 'markdown' ? (
+        <div className={clsx('grid grid-cols-1', showPreview && 'lg:grid-cols-2')}>
+          <textarea
+            ref={textareaRef}
+            id={id}
+            rows={18}
+            value={markdown}
+            onChange={(e) => updateMarkdown(e.target.value)}
+            placeholder={placeholder}
+            className="block w-full resize-y border-0 px-3 py-2 font-mono text-sm focus:outline-none focus:ring-0 rounded-b-md"
+          />
+          {showPreview && (
+            <div className="border-t border-gray-200 lg:border-t-0 lg:border-l px-4 py-2 max-h-[28rem] overflow-y-auto">
+              {value ? (
+                <div
+                  className="article-content prose prose-sm max-w-none text-sm text-gray-800"
+                  dangerouslySetInnerHTML={{ __html: sanitizeHtml(value) }}
+                />
+              ) : (
+                <p className="py-2 text-sm text-gray-400">プレビューがここに表示されます</p>
+              )}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div
+          ref={editableRef}
+          id={id}
+          contentEditable
+          suppressContentEditableWarning
+          onInput={(e) => emit(e.currentTarget.innerHTML)}
+          onPaste={handlePaste}
+          className="article-content prose prose-sm max-w-none min-h-[24rem] max-h-[32rem] overflow-y-auto px-4 py-2 text-sm text-gray-800 focus:outline-none"
+        />
+      )}
+
+      <ConfirmDialog
+        isOpen={confirmWysiwyg}
+        onClose={() => setConfirmWysiwyg(false)}
+        onConfirm={() => {
+          setConfirmWysiwyg(false);
+          switchMode('wysiwyg', true);
+        }}
+        title="ビジュアル編集に切り替え"
+        message="本文にビジュアル編集で扱えないHTML（インラインスタイルなど）が含まれています。切り替えて編集すると、それらは本文から削除されます。"
+        confirmText="切り替える"
+        type="warning"
+      />
+    </div>
+  );
+};
+
+export default ArticleEditor;
@@ -0,0 +1,56 @@
+import { DiffOp, getDiffStats } from '../../utils/diff';
+
+interface DiffViewProps {
+  ops: DiffOp[];
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+const DiffView: React.FC<DiffViewProps> = ({ ops, beforeLabel, afterLabel }) => {
+  const stats = getDiffStats(ops);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-end space-x-3 text-xs">
+        <span className="text-red-700">-{stats.deleted}文字</span>
+        <span className="text-green-700">+{stats.inserted}文字</span>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="rounded-md border border-gray-200">
+          <div className="px-3 py-2 border-b border-gray-200 bg-gray-50 text-xs font-medium text-gray-700">
+            {beforeLabel}
+          </div>
+          <div className="p-3 max-h-[32rem] overflow-y-auto whitespace-pre-wrap break-words text-sm text-gray-700 leading-relaxed">
+            {ops.map((op, index) =>
+              op.type === 'insert' ? null : op.type === 'delete' ? (
+                <del key={index} className="bg-red-100 text-red-800 no-underline">
+                  {op.text}
+                </del>
+              ) : (
+                <span key={index}>{op.text}</span>
+              )
+            )}
+          </div>
+        </div>
+        <div className="rounded-md border border-gray-200">
+          <div className="px-3 py-2 border-b border-gray-200 bg-gray-50 text-xs font-medium text-gray-700">
+            {afterLabel}
+          </div>
+          <div className="p-3 max-h-[32rem] overflow-y-auto whitespace-pre-wrap break-words text-sm text-gray-700 leading-relaxed">
+            {ops.map((op, index) =>
+              op.type === 'delete' ? null : op.type === 'insert' ? (
+                <ins key={index} className="bg-green-100 text-green-800 no-underline">
+                  {op.text}
+                </ins>
+              ) : (
+                <span key={index}>{op.text}</span>
+              )
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiffView;
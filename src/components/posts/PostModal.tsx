@@ -1,9 +1,21 @@
-import { useState, useEffect } from 'react';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useState, useEffect, useMemo, useDeferredValue } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { Dialog, Transition } from '@headlessui/react';
 import { Fragment } from 'react';
 import { apiService } from '../../services/api';
 import Button from '../ui/Button';
+import CompliancePanel from '../compliance/CompliancePanel';
+import ArticleEditor from '../editor/ArticleEditor';
+import SeoPanel from '../seo/SeoPanel';
+import ReadabilityPanel from '../readability/ReadabilityPanel';
+import SectionRewritePanel from './SectionRewritePanel';
+import SimilarPostsWarning from './SimilarPostsWarning';
+import { ComplianceHit } from '../../types';
+import { applyComplianceSuggestion, getSiteComplianceRules } from '../../utils/compliance';
+import { canSchedulePost, invalidatesApproval } from '../../utils/reviews';
+import { analyzeSeo } from '../../utils/seo';
+import { getSiteReadabilityTarget } from '../../utils/readability';
+import { findSimilarPosts } from '../../utils/similarity';
 import { X } from 'lucide-react';
 import { clsx } from 'clsx';
 import toast from 'react-hot-toast';
@@ -22,11 +34,54 @@ const PostModal: React.FC<PostModalProps> = ({ isOpen, onClose, post, siteId })
     scheduled_at: '',
     meta_description: '',
     tags: '',
+    focus_keyword: '',
   });
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
 
   const queryClient = useQueryClient();
 
+  const { data: site } = useQuery({
+    queryKey: ['site', siteId],
+    queryFn: () => apiService.getSite(siteId),
+    enabled: !!siteId,
+  });
+
+  const complianceRules = useMemo(() => getSiteComplianceRules(site?.data), [site]);
+  const readabilityTarget = useMemo(() => getSiteReadabilityTarget(site?.data), [site]);
+
+  const seoAnalysis = useMemo(
+    () => analyzeSeo({
+      title: formData.title,
+      content: formData.content,
+      metaDescription: formData.meta_description,
+      keyword: formData.focus_keyword,
+      siteUrl: site?.data?.url,
+    }),
+    [formData.title, formData.content, formData.meta_description, formData.focus_keyword, site]
+  );
+
+  const { data: posts } = useQuery({
+    queryKey: ['posts', siteId, 'existing'],
+    queryFn: () => apiService.getPosts(siteId, { limit: 100 }),
+    enabled: isOpen && !!siteId,
+  });
+
+  // Deferred so that shingling the whole body does not slow down typing
+  const deferredTitle = useDeferredValue(formData.title);
+  const deferredContent = useDeferredValue(formData.content);
+  const similarPosts = useMemo(
+    () => findSimilarPosts(
+      { title: deferredTitle, content: deferredContent },
+      (posts?.data?.posts || []).filter((item: any) => item.id !== post?.id)
+    ),
+    [deferredTitle, deferredContent, posts, post]
+  );
+
+  // Editing the text of an approved post sends it back to draft, so scheduling is
+  // only offered while the approved text is unchanged
+  const approvalWithdrawn = !!post && invalidatesApproval(post, formData);
+  const isSchedulable = !!post && canSchedulePost(post) && !approvalWithdrawn;
+
   const createMutation = useMutation({
     mutationFn: (data: any) => apiService.createPost(siteId, data),
     onSuccess: () => {
@@ -63,6 +118,7 @@ const PostModal: React.FC<PostModalProps> = ({ isOpen, onClose, post, siteId })
           new Date(post.scheduled_at).toISOString().slice(0, 16) : '',
         meta_description: post.meta_description || '',
         tags: post.tags ? post.tags.join(', ') : '',
+        focus_keyword: post.focus_keyword || '',
       });
     } else {
       resetForm();
@@ -76,6 +132,7 @@ const PostModal: React.FC<PostModalProps> = ({ isOpen, onClose, post, siteId })
       scheduled_at: '',
       meta_description: '',
       tags: '',
+      focus_keyword: '',
     });
     setErrors({});
   };
@@ -91,7 +148,7 @@ const PostModal: React.FC<PostModalProps> = ({ isOpen, onClose, post, siteId })
       newErrors.content = '記事内容を入力してください';
     }
 
-    if (formData.scheduled_at) {
+    if (isSchedulable && formData.scheduled_at) {
       const scheduledDate = new Date(formData.scheduled_at);
       if (scheduledDate <= new Date()) {
         newErrors.scheduled_at = '予定日時は未来の日時を指定してください';
@@ -110,15 +167,18 @@ const PostModal: React.FC<PostModalProps> = ({ isOpen, onClose, post, siteId })
     const submitData = {
       title: formData.title.trim(),
       content: formData.content.trim(),
-      scheduled_at: formData.scheduled_at || undefined,
+      scheduled_at: isSchedulable ? formData.scheduled_at || undefined : undefined,
       meta_description: formData.meta_description.trim() || undefined,
       tags: formData.tags ? 
         formData.tags.split(',').map(tag => tag.trim()).filter(tag => tag) : 
         undefined,
+      focus_keyword: formData.focus_keyword.trim() || undefined,
+      seo_score: seoAnalysis.score,
     };
 
     if (post) {
-      updateMutation.mutate({ id: post.id, data: submitData });
+      const data = approvalWithdrawn ? { ...submitData, status: 'draft', scheduled_at: null } : submitData;
+      updateMutation.mutate({ id: post.id, data: { ...data, create_revision: true } });
     } else {
       createMutation.mutate(submitData);
     }
@@ -132,6 +192,17 @@ const PostModal: React.FC<PostModalProps> = ({ isOpen, onClose, post, siteId })
     }
   };
 
+  const handleContentChange = (content: string) => {
+    setFormData((prev) => ({ ...prev, content }));
+    if (errors.content) {
+      setErrors((prev) => ({ ...prev, content: '' }));
+    }
+  };
+
+  const handleApplySuggestion = (hit: ComplianceHit) => {
+    setFormData((prev) => ({ ...prev, content: applyComplianceSuggestion(prev.content, hit) }));
+  };
+
   const isLoading = createMutation.isPending || updateMutation.isPending;
 
   return (
@@ -201,21 +272,36 @@ const PostModal: React.FC<PostModalProps> = ({ isOpen, onClose, post, siteId })
                     <label htmlFor="content" className="form-label">
                       記事内容 *
                     </label>
-                    <textarea
-                      name="content"
+                    <ArticleEditor
                       id="content"
-                      rows={12}
                       value={formData.content}
-                      onChange={handleChange}
-                      className={clsx(
-                        'form-input',
-                        errors.content && 'border-red-300 focus:border-red-500 focus:ring-red-500'
-                      )}
+                      onChange={handleContentChange}
+                      hasError={!!errors.content}
                       placeholder="記事の内容を入力してください..."
                     />
                     {errors.content && <p className="form-error">{errors.content}</p>}
                   </div>
 
+                  <SimilarPostsWarning siteId={siteId} similarPosts={similarPosts} />
+
+                  <SectionRewritePanel
+                    siteId={siteId}
+                    site={site?.data}
+                    postId={post?.id}
+                    title={formData.title}
+                    content={formData.content}
+                    onApply={handleContentChange}
+                  />
+
+                  <CompliancePanel
+                    content={formData.content}
+                    rules={complianceRules}
+                    overrides={post?.compliance_overrides}
+                    onApplySuggestion={handleApplySuggestion}
+                  />
+
+                  <ReadabilityPanel content={formData.content} target={readabilityTarget} />
+
                   <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
                     <div>
                       <label htmlFor="scheduled_at" className="form-label">
@@ -227,6 +313,7 @@ const PostModal: React.FC<PostModalProps> = ({ isOpen, onClose, post, siteId })
                         id="scheduled_at"
                         value={formData.scheduled_at}
                         onChange={handleChange}
+                        disabled={!isSchedulable}
                         className={clsx(
                           'form-input',
                           errors.scheduled_at && 'border-red-300 focus:border-red-500 focus:ring-red-500'
@@ -234,7 +321,11 @@ const PostModal: React.FC<PostModalProps> = ({ isOpen, onClose, post, siteId })
                       />
                       {errors.scheduled_at && <p className="form-error">{errors.scheduled_at}</p>}
                       <p className="mt-1 text-sm text-gray-500">
-                        空欄の場合は下書きとして保存されます
+                        {approvalWithdrawn
+                          ? 'タイトルか本文を変更したため、保存すると承認が取り消されて下書きに戻り、予定投稿も解除されます'
+                          : isSchedulable
+                          ? '空欄の場合は承認済みのまま保存されます'
+                          : '薬剤師レビューで承認された記事のみ予定投稿を設定できます'}
                       </p>
                     </div>
 
@@ -268,7 +359,7 @@ const PostModal: React.FC<PostModalProps> = ({ isOpen, onClose, post, siteId })
                       value={formData.meta_description}
                       onChange={handleChange}
                       className="form-input"
-                      placeholder="SEO用の説明文（120-160文字程度）"
+                      placeholder="SEO用の説明文（80-120文字程度）"
                       maxLength={160}
                     />
                     <p className="mt-1 text-sm text-gray-500">
@@ -276,6 +367,23 @@ const PostModal: React.FC<PostModalProps> = ({ isOpen, onClose, post, siteId })
                     </p>
                   </div>
 
+                  <div>
+                    <label htmlFor="focus_keyword" className="form-label">
+                      フォーカスキーワード
+                    </label>
+                    <input
+                      type="text"
+                      name="focus_keyword"
+                      id="focus_keyword"
+                      value={formData.focus_keyword}
+                      onChange={handleChange}
+                      className="form-input"
+                      placeholder="例: 花粉症"
+                    />
+                  </div>
+
+                  <SeoPanel analysis={seoAnalysis} />
+
                   <div className="flex items-center justify-end pt-6 border-t border-gray-200 space-x-3">
                     <Button type="button" variant="outline" onClick={onClose}>
                       キャンセル
@@ -0,0 +1,223 @@
+import { useMemo, useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiService } from '../../services/api';
+import { PostRevision } from '../../types';
+import { diffText } from '../../utils/diff';
+import { stripHtml } from '../../utils/formatters';
+import LoadingSpinner from '../ui/LoadingSpinner';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import ConfirmDialog from '../ui/ConfirmDialog';
+import DiffView from './DiffView';
+import { History, RotateCcw, Brain } from 'lucide-react';
+import { format } from 'date-fns';
+import { ja } from 'date-fns/locale';
+import toast from 'react-hot-toast';
+
+interface RevisionHistoryProps {
+  siteId: string;
+  post: any;
+}
+
+// Selector value for the post as it is stored right now
+const CURRENT = 'current';
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ siteId, post }) => {
+  const [baseId, setBaseId] = useState<string>('');
+  const [targetId, setTargetId] = useState<string>(CURRENT);
+  const [textOnly, setTextOnly] = useState(true);
+  const [restoringRevision, setRestoringRevision] = useState<PostRevision | null>(null);
+
+  const queryClient = useQueryClient();
+
+  const { data: revisions, isLoading } = useQuery({
+    queryKey: ['post', siteId, post.id, 'revisions'],
+    queryFn: () => apiService.getPostRevisions(siteId, post.id),
+    enabled: !!siteId && !!post.id,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (revisionId: string) => apiService.restorePostRevision(siteId, post.id, revisionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['post', siteId, post.id] });
+      queryClient.invalidateQueries({ queryKey: ['posts', siteId] });
+      toast.success('リビジョンを復元しました');
+      setRestoringRevision(null);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'リビジョンの復元に失敗しました');
+    },
+  });
+
+  const revisionsList: PostRevision[] = useMemo(
+    () => [...(revisions?.data || [])].sort((a, b) => b.revision_number - a.revision_number),
+    [revisions]
+  );
+
+  const claudeOriginal = useMemo(
+    () => [...revisionsList].reverse().find((revision) => revision.source === 'claude'),
+    [revisionsList]
+  );
+
+  useEffect(() => {
+    if (!baseId && revisionsList.length > 0) {
+      setBaseId(revisionsList[Math.min(1, revisionsList.length - 1)].id);
+    }
+  }, [baseId, revisionsList]);
+
+  const revisionLabel = (id: string): string => {
+    if (id === CURRENT) return '現在の本文';
+    const revision = revisionsList.find((item) => item.id === id);
+    if (!revision) return '-';
+    return `第${revision.revision_number}版（${format(new Date(revision.created_at), 'MM/dd HH:mm', { locale: ja })}）`;
+  };
+
+  const ops = useMemo(() => {
+    if (!baseId) return [];
+    const resolveContent = (id: string): string => {
+      const content = id === CURRENT
+        ? post.content || ''
+        : revisionsList.find((revision) => revision.id === id)?.content || '';
+      return textOnly ? stripHtml(content) : content;
+    };
+    return diffText(resolveContent(baseId), resolveContent(targetId));
+  }, [baseId, targetId, textOnly, revisionsList, post.content]);
+
+  const getSourceBadge = (source: string) => {
+    const sourceMap = {
+      claude: { variant: 'info' as const, label: 'Claude生成' },
+      manual: { variant: 'secondary' as const, label: '手動編集' },
+      restore: { variant: 'warning' as const, label: '復元' },
+    };
+
+    const config = sourceMap[source as keyof typeof sourceMap] ||
+      { variant: 'secondary' as const, label: source };
+
+    return <Badge variant={config.variant}>{config.label}</Badge>;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (revisionsList.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <History className="mx-auto h-12 w-12 text-gray-400" />
+        <h3 className="mt-2 text-sm font-medium text-gray-900">履歴がありません</h3>
+        <p className="mt-1 text-sm text-gray-500">記事を保存すると変更履歴が記録されます</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Revision List */}
+      <div className="overflow-hidden rounded-md border border-gray-200">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">版</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">種別</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">編集者</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">日時</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">アクション</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {revisionsList.map((revision) => (
+              <tr key={revision.id} className="hover:bg-gray-50">
+                <td className="px-4 py-2 text-sm font-medium text-gray-900">第{revision.revision_number}版</td>
+                <td className="px-4 py-2">{getSourceBadge(revision.source)}</td>
+                <td className="px-4 py-2 text-sm text-gray-500">{revision.author_name || '-'}</td>
+                <td className="px-4 py-2 text-sm text-gray-500">
+                  {format(new Date(revision.created_at), 'yyyy/MM/dd HH:mm', { locale: ja })}
+                </td>
+                <td className="px-4 py-2 text-right">
+                  <div className="flex items-center justify-end space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        setBaseId(revision.id);
+                        setTargetId(CURRENT);
+                      }}
+                    >
+                      現在と比較
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setRestoringRevision(revision)}>
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      復元
+                    </Button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Compare */}
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <select value={baseId} onChange={(e) => setBaseId(e.target.value)} className="form-input w-auto">
+            {revisionsList.map((revision) => (
+              <option key={revision.id} value={revision.id}>
+                {revisionLabel(revision.id)}
+              </option>
+            ))}
+          </select>
+          <span className="text-sm text-gray-500">→</span>
+          <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className="form-input w-auto">
+            <option value={CURRENT}>{revisionLabel(CURRENT)}</option>
+            {revisionsList.map((revision) => (
+              <option key={revision.id} value={revision.id}>
+                {revisionLabel(revision.id)}
+              </option>
+            ))}
+          </select>
+          {claudeOriginal && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => {
+                setBaseId(claudeOriginal.id);
+                setTargetId(CURRENT);
+              }}
+            >
+              <Brain className="w-4 h-4 mr-1" />
+              Claude原文と比較
+            </Button>
+          )}
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={textOnly}
+              onChange={(e) => setTextOnly(e.target.checked)}
+              className="h-4 w-4 mr-2 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+            />
+            本文テキストのみ比較
+          </label>
+        </div>
+
+        <DiffView ops={ops} beforeLabel={revisionLabel(baseId)} afterLabel={revisionLabel(targetId)} />
+      </div>
+
+      <ConfirmDialog
+        isOpen={!!restoringRevision}
+        onClose={() => setRestoringRevision(null)}
+        onConfirm={() => restoringRevision && restoreMutation.mutate(restoringRevision.id)}
+        title="リビジョンを復元"
+        message={`第${restoringRevision?.revision_number}版の内容で記事を上書きします。現在の内容も履歴に残ります。`}
+        confirmText="復元"
+        type="warning"
+      />
+    </div>
+  );
+};
+
+export default RevisionHistory;
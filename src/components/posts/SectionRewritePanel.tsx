@@ -0,0 +1,230 @@
+import { useState, useMemo } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiService } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { useClaudeBudgets } from '../../hooks';
+import Button from '../ui/Button';
+import BudgetAlert from '../claude/BudgetAlert';
+import DiffView from './DiffView';
+import { ArticleSection, ArticleTone, SectionRewriteAction, SectionRewriteResult } from '../../types';
+import { diffText } from '../../utils/diff';
+import { htmlToMarkdown } from '../../utils/markdown';
+import {
+  SECTION_REWRITE_ACTION_LABELS,
+  replaceArticleSection,
+  splitArticleSections,
+} from '../../utils/sections';
+import { ARTICLE_TONE_LABELS, buildSiteInfo } from '../../utils/templates';
+import { Bot, Check, X } from 'lucide-react';
+import { clsx } from 'clsx';
+import toast from 'react-hot-toast';
+
+interface SectionRewritePanelProps {
+  siteId: string;
+  site?: any;
+  postId?: string;
+  title: string;
+  content: string;
+  onApply: (content: string) => void;
+}
+
+interface Proposal {
+  section: ArticleSection;
+  result: SectionRewriteResult;
+}
+
+const sectionLabel = (section: ArticleSection) => section.heading || '導入文';
+
+const SectionRewritePanel: React.FC<SectionRewritePanelProps> = ({ siteId, site, postId, title, content, onApply }) => {
+  const [selectedStart, setSelectedStart] = useState<number | null>(null);
+  const [action, setAction] = useState<SectionRewriteAction>('regenerate');
+  const [tone, setTone] = useState<ArticleTone>('friendly');
+  const [instructions, setInstructions] = useState('');
+  const [proposal, setProposal] = useState<Proposal | null>(null);
+  const [budgetOverride, setBudgetOverride] = useState(false);
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+
+  const queryClient = useQueryClient();
+
+  const { budgets } = useClaudeBudgets(site ? [site] : []);
+  const siteBudget = budgets[siteId];
+  const budgetBlocked = siteBudget?.status === 'exceeded' && !(isAdmin && budgetOverride);
+
+  const sections = useMemo(() => splitArticleSections(content), [content]);
+  const selectedSection = sections.find((section) => section.start === selectedStart);
+
+  const rewriteMutation = useMutation({
+    mutationFn: (section: ArticleSection) =>
+      apiService.rewriteArticleSection(
+        siteId,
+        {
+          site_info: buildSiteInfo(site),
+          section_rewrite: {
+            post_id: postId,
+            article_title: title,
+            heading: section.heading,
+            action,
+            tone: action === 'tone' ? tone : undefined,
+            instructions: instructions.trim() || undefined,
+          },
+          section_html: section.html,
+        },
+        { budgetOverride: siteBudget?.status === 'exceeded' && budgetOverride }
+      ),
+    onSuccess: (response, section) => {
+      setProposal({ section, result: response.data });
+      queryClient.invalidateQueries({ queryKey: ['claude-requests', siteId] });
+      queryClient.invalidateQueries({ queryKey: ['claude-stats', siteId] });
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'セクションの書き換えに失敗しました');
+    },
+  });
+
+  const diffOps = useMemo(
+    () => proposal
+      ? diffText(htmlToMarkdown(proposal.section.html), htmlToMarkdown(proposal.result.html))
+      : [],
+    [proposal]
+  );
+
+  const handleGenerate = (section: ArticleSection) => {
+    if (!site) {
+      toast.error('サイト情報の取得に失敗しました');
+      return;
+    }
+    if (budgetBlocked) {
+      toast.error('今月の予算上限に達しているため生成できません');
+      return;
+    }
+    rewriteMutation.mutate(section);
+  };
+
+  const handleAccept = () => {
+    if (!proposal) return;
+    const updated = replaceArticleSection(content, proposal.section, proposal.result.html);
+    if (updated === null) {
+      toast.error('提案後に記事が編集されたため適用できません。もう一度生成してください');
+      return;
+    }
+    onApply(updated);
+    setProposal(null);
+    setSelectedStart(null);
+    toast.success(`「${sectionLabel(proposal.section)}」を書き換えました`);
+  };
+
+  if (sections.length === 0) return null;
+
+  return (
+    <div className="rounded-md border border-gray-200">
+      <div className="flex items-center px-4 py-3 border-b border-gray-200 bg-gray-50 text-sm font-medium text-gray-900">
+        <Bot className="w-4 h-4 mr-2 text-primary-600" />
+        セクション単位でClaudeに書き換え
+      </div>
+
+      <div className="p-4 space-y-4">
+        <BudgetAlert
+          budget={siteBudget}
+          isAdmin={isAdmin}
+          override={budgetOverride}
+          onOverrideChange={setBudgetOverride}
+        />
+
+        <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 rounded-md border border-gray-200">
+          {sections.map((section) => (
+            <li key={section.start}>
+              <button
+                type="button"
+                onClick={() => {
+                  setSelectedStart(section.start);
+                  setProposal(null);
+                }}
+                className={clsx(
+                  'w-full px-3 py-2 text-left text-sm hover:bg-gray-50',
+                  section.level === 3 && 'pl-8',
+                  section.start === selectedStart ? 'bg-primary-50 text-primary-700 font-medium' : 'text-gray-700'
+                )}
+              >
+                {sectionLabel(section)}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {selectedSection && !proposal && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(SECTION_REWRITE_ACTION_LABELS) as SectionRewriteAction[]).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setAction(value)}
+                  className={clsx(
+                    'px-3 py-1 rounded-full border text-sm',
+                    action === value
+                      ? 'border-primary-600 bg-primary-600 text-white'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  )}
+                >
+                  {SECTION_REWRITE_ACTION_LABELS[value]}
+                </button>
+              ))}
+            </div>
+
+            {action === 'tone' && (
+              <select
+                value={tone}
+                onChange={(e) => setTone(e.target.value as ArticleTone)}
+                className="form-input"
+              >
+                {Object.entries(ARTICLE_TONE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            <textarea
+              rows={2}
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+              className="form-input"
+              placeholder="追加の指示（任意） 例: 市内の医療機関の探し方を加える"
+            />
+
+            <div className="flex justify-end">
+              <Button
+                size="sm"
+                onClick={() => handleGenerate(selectedSection)}
+                loading={rewriteMutation.isPending}
+                disabled={budgetBlocked}
+              >
+                「{sectionLabel(selectedSection)}」の提案を生成
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {proposal && (
+          <div className="space-y-3">
+            <DiffView ops={diffOps} beforeLabel="現在のセクション" afterLabel="Claudeの提案" />
+            <div className="flex justify-end space-x-2">
+              <Button size="sm" variant="outline" onClick={() => setProposal(null)}>
+                <X className="w-4 h-4 mr-1" />
+                破棄
+              </Button>
+              <Button size="sm" onClick={handleAccept}>
+                <Check className="w-4 h-4 mr-1" />
+                適用
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SectionRewritePanel;
@@ -0,0 +1,42 @@
+import { Link } from 'react-router-dom';
+import { SimilarPost } from '../../types';
+import { formatSimilarity } from '../../utils/similarity';
+import { Copy } from 'lucide-react';
+
+interface SimilarPostsWarningProps {
+  siteId: string;
+  similarPosts: SimilarPost[];
+}
+
+const SimilarPostsWarning: React.FC<SimilarPostsWarningProps> = ({ siteId, similarPosts }) => {
+  if (similarPosts.length === 0) return null;
+
+  return (
+    <div className="rounded-md bg-yellow-50 border border-yellow-200 p-4">
+      <div className="flex">
+        <Copy className="h-5 w-5 flex-shrink-0 text-yellow-500" />
+        <div className="ml-3 flex-1 text-sm">
+          <p className="font-medium text-yellow-800">似た内容の記事がすでにあります</p>
+          <ul className="mt-2 space-y-1">
+            {similarPosts.map(({ post, score }) => (
+              <li key={post.id} className="flex items-center justify-between">
+                <Link
+                  to={`/sites/${siteId}/posts/${post.id}`}
+                  target="_blank"
+                  className="truncate mr-2 text-yellow-800 underline hover:text-yellow-900"
+                >
+                  {post.title}
+                </Link>
+                <span className="flex-shrink-0 font-medium text-yellow-800">
+                  類似度 {formatSimilarity(score)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SimilarPostsWarning;
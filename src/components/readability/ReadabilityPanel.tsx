@@ -0,0 +1,117 @@
+import { useMemo } from 'react';
+import { ReadabilityTarget } from '../../types';
+import { READABILITY_ISSUE_LABELS, analyzeReadability, evaluateReadability } from '../../utils/readability';
+import { stripHtml } from '../../utils/formatters';
+import Badge from '../ui/Badge';
+import { BookOpen } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface ReadabilityPanelProps {
+  content: string;
+  target: ReadabilityTarget;
+}
+
+const ReadabilityPanel: React.FC<ReadabilityPanelProps> = ({ content, target }) => {
+  const text = useMemo(() => stripHtml(content), [content]);
+  const analysis = useMemo(() => analyzeReadability(text, target), [text, target]);
+  const results = useMemo(() => evaluateReadability(analysis.metrics, target), [analysis, target]);
+
+  const flaggedSentences = useMemo(
+    () => analysis.sentences.filter((sentence) => sentence.issues.length > 0),
+    [analysis]
+  );
+  const outOfTarget = results.filter((result) => !result.withinTarget).length;
+
+  // Plain text split into flagged and unflagged stretches for highlighting
+  const segments = useMemo(() => {
+    const parts: { text: string; title?: string }[] = [];
+    let cursor = 0;
+    flaggedSentences.forEach((sentence) => {
+      if (sentence.start > cursor) parts.push({ text: text.slice(cursor, sentence.start) });
+      parts.push({
+        text: text.slice(sentence.start, sentence.end),
+        title: sentence.issues.map((issue) => `${READABILITY_ISSUE_LABELS[issue.type]}: ${issue.detail}`).join('\n'),
+      });
+      cursor = sentence.end;
+    });
+    if (cursor < text.length) parts.push({ text: text.slice(cursor) });
+    return parts;
+  }, [text, flaggedSentences]);
+
+  if (!text.trim()) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-md border border-gray-200">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 bg-gray-50">
+        <div className="flex items-center text-sm font-medium text-gray-900">
+          <BookOpen className="w-4 h-4 mr-2 text-gray-500" />
+          読みやすさ
+        </div>
+        {outOfTarget === 0 && flaggedSentences.length === 0 ? (
+          <Badge variant="success">目標範囲内</Badge>
+        ) : (
+          <div className="flex items-center space-x-2">
+            {outOfTarget > 0 && <Badge variant="warning">目標外 {outOfTarget}項目</Badge>}
+            {flaggedSentences.length > 0 && <Badge variant="secondary">要確認の文 {flaggedSentences.length}件</Badge>}
+          </div>
+        )}
+      </div>
+
+      <div className="p-4 space-y-4">
+        <dl className="grid grid-cols-2 gap-3 sm:grid-cols-5">
+          {results.map((result) => (
+            <div
+              key={result.key}
+              className={clsx(
+                'rounded-md border px-3 py-2',
+                result.withinTarget ? 'border-gray-200' : 'border-yellow-300 bg-yellow-50'
+              )}
+            >
+              <dt className="text-xs text-gray-500">{result.label}</dt>
+              <dd className="mt-1 text-sm font-semibold text-gray-900">{result.value}</dd>
+              <dd className="text-xs text-gray-400">目標 {result.target}</dd>
+            </div>
+          ))}
+        </dl>
+
+        {flaggedSentences.length > 0 && (
+          <>
+            <div className="max-h-60 overflow-y-auto whitespace-pre-wrap text-sm text-gray-700 leading-relaxed">
+              {segments.map((segment, index) =>
+                segment.title ? (
+                  <mark key={index} title={segment.title} className="rounded px-0.5 bg-yellow-200 text-yellow-900">
+                    {segment.text}
+                  </mark>
+                ) : (
+                  <span key={index}>{segment.text}</span>
+                )
+              )}
+            </div>
+
+            <ul className="divide-y divide-gray-200 max-h-60 overflow-y-auto">
+              {flaggedSentences.map((sentence) => (
+                <li key={sentence.start} className="py-2">
+                  <p className="text-sm text-gray-900">{sentence.text}</p>
+                  <div className="mt-1 flex flex-wrap gap-2">
+                    {sentence.issues.map((issue) => (
+                      <span key={issue.type} className="text-xs text-gray-600">
+                        <Badge variant="warning" className="mr-1">
+                          {READABILITY_ISSUE_LABELS[issue.type]}
+                        </Badge>
+                        {issue.detail}
+                      </span>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReadabilityPanel;
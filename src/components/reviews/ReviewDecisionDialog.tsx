@@ -0,0 +1,156 @@
+import { Fragment, useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Dialog, Transition } from '@headlessui/react';
+import { apiService } from '../../services/api';
+import { ReviewDecision } from '../../types';
+import Button from '../ui/Button';
+import { X } from 'lucide-react';
+import { clsx } from 'clsx';
+import toast from 'react-hot-toast';
+
+interface ReviewDecisionDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  post?: any;
+  decision: ReviewDecision;
+  siteId: string;
+}
+
+const ReviewDecisionDialog: React.FC<ReviewDecisionDialogProps> = ({
+  isOpen,
+  onClose,
+  post,
+  decision,
+  siteId,
+}) => {
+  const [comment, setComment] = useState('');
+  const [error, setError] = useState('');
+
+  const queryClient = useQueryClient();
+
+  const reviewMutation = useMutation({
+    mutationFn: () => apiService.reviewPost(siteId, post.id, decision, comment.trim()),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['posts', siteId] });
+      queryClient.invalidateQueries({ queryKey: ['post', siteId, post.id] });
+      queryClient.invalidateQueries({ queryKey: ['reviews', siteId] });
+      toast.success(decision === 'approve' ? '記事を承認しました' : '記事を差し戻しました');
+      onClose();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'レビュー結果の送信に失敗しました');
+    },
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      setComment('');
+      setError('');
+    }
+  }, [isOpen]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!comment.trim()) {
+      setError('コメントを入力してください');
+      return;
+    }
+
+    reviewMutation.mutate();
+  };
+
+  const isApprove = decision === 'approve';
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-lg transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <div className="flex items-center justify-between mb-6">
+                  <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                    {isApprove ? '記事を承認' : '記事を差し戻し'}
+                  </Dialog.Title>
+                  <button
+                    type="button"
+                    className="rounded-md text-gray-400 hover:text-gray-500 focus:outline-none"
+                    onClick={onClose}
+                  >
+                    <X className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-6">
+                  <p className="text-sm text-gray-500">「{post?.title}」</p>
+
+                  <div>
+                    <label htmlFor="review_comment" className="form-label">
+                      コメント *
+                    </label>
+                    <textarea
+                      name="comment"
+                      id="review_comment"
+                      rows={4}
+                      value={comment}
+                      onChange={(e) => {
+                        setComment(e.target.value);
+                        setError('');
+                      }}
+                      className={clsx(
+                        'form-input',
+                        error && 'border-red-300 focus:border-red-500 focus:ring-red-500'
+                      )}
+                      placeholder={
+                        isApprove
+                          ? '確認した内容を記録してください（例: 用法・用量の記載を添付文書と照合済み）'
+                          : '修正が必要な箇所と理由を入力してください'
+                      }
+                    />
+                    {error && <p className="form-error">{error}</p>}
+                  </div>
+
+                  <div className="flex items-center justify-end pt-6 border-t border-gray-200 space-x-3">
+                    <Button type="button" variant="outline" onClick={onClose}>
+                      キャンセル
+                    </Button>
+                    <Button
+                      type="submit"
+                      variant={isApprove ? 'primary' : 'danger'}
+                      loading={reviewMutation.isPending}
+                    >
+                      {isApprove ? '承認する' : '差し戻す'}
+                    </Button>
+                  </div>
+                </form>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+};
+
+export default ReviewDecisionDialog;
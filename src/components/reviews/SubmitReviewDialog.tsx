@@ -0,0 +1,152 @@
+import { Fragment, useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Dialog, Transition } from '@headlessui/react';
+import { apiService } from '../../services/api';
+import { Reviewer } from '../../types';
+import Button from '../ui/Button';
+import { X } from 'lucide-react';
+import { clsx } from 'clsx';
+import toast from 'react-hot-toast';
+
+interface SubmitReviewDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  post?: any;
+  siteId: string;
+}
+
+const SubmitReviewDialog: React.FC<SubmitReviewDialogProps> = ({ isOpen, onClose, post, siteId }) => {
+  const [reviewerId, setReviewerId] = useState('');
+  const [error, setError] = useState('');
+
+  const queryClient = useQueryClient();
+
+  const { data: reviewers } = useQuery({
+    queryKey: ['reviewers', siteId],
+    queryFn: () => apiService.getReviewers(siteId),
+    enabled: isOpen && !!siteId,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: () => apiService.submitPostForReview(siteId, post.id, reviewerId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['posts', siteId] });
+      queryClient.invalidateQueries({ queryKey: ['post', siteId, post.id] });
+      queryClient.invalidateQueries({ queryKey: ['reviews', siteId] });
+      toast.success('レビューを依頼しました');
+      onClose();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'レビュー依頼に失敗しました');
+    },
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      setReviewerId(post?.reviewer_id || '');
+      setError('');
+    }
+  }, [isOpen, post]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!reviewerId) {
+      setError('レビュー担当者を選択してください');
+      return;
+    }
+
+    submitMutation.mutate();
+  };
+
+  const reviewersList: Reviewer[] = reviewers?.data || [];
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-md transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <div className="flex items-center justify-between mb-6">
+                  <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                    薬剤師レビューを依頼
+                  </Dialog.Title>
+                  <button
+                    type="button"
+                    className="rounded-md text-gray-400 hover:text-gray-500 focus:outline-none"
+                    onClick={onClose}
+                  >
+                    <X className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-6">
+                  <p className="text-sm text-gray-500">「{post?.title}」</p>
+
+                  <div>
+                    <label htmlFor="reviewer_id" className="form-label">
+                      レビュー担当者 *
+                    </label>
+                    <select
+                      name="reviewer_id"
+                      id="reviewer_id"
+                      value={reviewerId}
+                      onChange={(e) => {
+                        setReviewerId(e.target.value);
+                        setError('');
+                      }}
+                      className={clsx(
+                        'form-input',
+                        error && 'border-red-300 focus:border-red-500 focus:ring-red-500'
+                      )}
+                    >
+                      <option value="">選択してください</option>
+                      {reviewersList.map((reviewer) => (
+                        <option key={reviewer.id} value={reviewer.id}>
+                          {reviewer.name}
+                        </option>
+                      ))}
+                    </select>
+                    {error && <p className="form-error">{error}</p>}
+                  </div>
+
+                  <div className="flex items-center justify-end pt-6 border-t border-gray-200 space-x-3">
+                    <Button type="button" variant="outline" onClick={onClose}>
+                      キャンセル
+                    </Button>
+                    <Button type="submit" loading={submitMutation.isPending}>
+                      依頼する
+                    </Button>
+                  </div>
+                </form>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+};
+
+export default SubmitReviewDialog;
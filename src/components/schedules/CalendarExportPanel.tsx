@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiService } from '../../services/api';
+import Button from '../ui/Button';
+import ConfirmDialog from '../ui/ConfirmDialog';
+import { CalendarFeed, Holiday, ScheduleFormData, SiteFormData } from '../../types';
+import { ICS_EXPORT_DAYS, buildIcsCalendar } from '../../utils/ics';
+import { buildCalendarEvents } from '../../utils/scheduling';
+import { addDays } from 'date-fns';
+import { Copy, Download, Link2, RefreshCw } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface CalendarExportPanelProps {
+  siteId: string;
+  site?: SiteFormData;
+  schedules: (ScheduleFormData & { id: string; is_active?: boolean })[];
+  lookup: (date: string) => Holiday | undefined;
+}
+
+const CalendarExportPanel: React.FC<CalendarExportPanelProps> = ({ siteId, site, schedules, lookup }) => {
+  const [regenerateDialogOpen, setRegenerateDialogOpen] = useState(false);
+  const [revokeDialogOpen, setRevokeDialogOpen] = useState(false);
+
+  const queryClient = useQueryClient();
+
+  const { data: scheduledPosts } = useQuery({
+    queryKey: ['posts', siteId, 'scheduled'],
+    queryFn: () => apiService.getPosts(siteId, { status: 'scheduled', limit: 100 }),
+    enabled: !!siteId,
+  });
+
+  const { data: feedData } = useQuery({
+    queryKey: ['calendar-feed', siteId],
+    queryFn: () => apiService.getCalendarFeed(siteId),
+    enabled: !!siteId,
+  });
+
+  const feed: CalendarFeed | null = feedData?.data || null;
+
+  const regenerateMutation = useMutation({
+    mutationFn: () => apiService.regenerateCalendarFeed(siteId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feed', siteId] });
+      toast.success(feed ? '購読URLを再発行しました' : '購読URLを発行しました');
+      setRegenerateDialogOpen(false);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || '購読URLの発行に失敗しました');
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: () => apiService.revokeCalendarFeed(siteId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feed', siteId] });
+      toast.success('購読URLを無効にしました');
+      setRevokeDialogOpen(false);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || '購読URLの無効化に失敗しました');
+    },
+  });
+
+  const handleDownload = () => {
+    const from = new Date();
+    const events = buildCalendarEvents(
+      { id: siteId, name: site?.name || '' },
+      scheduledPosts?.data?.posts || [],
+      schedules,
+      from,
+      addDays(from, ICS_EXPORT_DAYS),
+      lookup
+    );
+    const ics = buildIcsCalendar({
+      name: `${site?.name || ''} 投稿予定`,
+      events,
+      getPostUrl: (post) => `${window.location.origin}/sites/${siteId}/posts/${post.id}`,
+    });
+
+    const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `schedule-${siteId}.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCopy = async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      toast.success('購読URLをコピーしました');
+    } catch {
+      toast.error('コピーできませんでした。URLを選択してコピーしてください');
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h3 className="text-lg font-medium text-gray-900">カレンダー連携</h3>
+        <p className="text-sm text-gray-500">
+          予定投稿と今後{ICS_EXPORT_DAYS}日間の投稿枠を、GoogleカレンダーやOutlookで確認できます
+        </p>
+      </div>
+      <div className="card-body space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-700">iCalendar形式（.ics）のファイルを取り込む</p>
+          <Button size="sm" variant="outline" onClick={handleDownload}>
+            <Download className="w-4 h-4 mr-1" />
+            ダウンロード
+          </Button>
+        </div>
+
+        <div className="pt-4 border-t border-gray-200">
+          <p className="text-sm text-gray-700">
+            購読URLを登録すると、カレンダーアプリが予定を自動で更新します
+          </p>
+          {feed ? (
+            <div className="mt-2 space-y-2">
+              <div className="flex space-x-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={feed.url}
+                  onFocus={(e) => e.target.select()}
+                  className="form-input flex-1 font-mono text-xs"
+                />
+                <Button size="sm" variant="outline" onClick={handleCopy}>
+                  <Copy className="w-4 h-4 mr-1" />
+                  コピー
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500">
+                URLを知っている人は誰でも投稿予定を閲覧できます。共有先を変えるときは再発行してください。
+              </p>
+              <div className="flex space-x-2">
+                <Button size="sm" variant="outline" onClick={() => setRegenerateDialogOpen(true)}>
+                  <RefreshCw className="w-4 h-4 mr-1" />
+                  再発行
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setRevokeDialogOpen(true)}>
+                  無効にする
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button
+              size="sm"
+              variant="outline"
+              className="mt-2"
+              onClick={() => regenerateMutation.mutate()}
+              loading={regenerateMutation.isPending}
+            >
+              <Link2 className="w-4 h-4 mr-1" />
+              購読URLを発行
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={regenerateDialogOpen}
+        onClose={() => setRegenerateDialogOpen(false)}
+        onConfirm={() => regenerateMutation.mutate()}
+        title="購読URLを再発行"
+        message="現在のURLは使えなくなります。登録済みのカレンダーには新しいURLを登録し直してください。"
+        confirmText="再発行"
+        type="warning"
+      />
+
+      <ConfirmDialog
+        isOpen={revokeDialogOpen}
+        onClose={() => setRevokeDialogOpen(false)}
+        onConfirm={() => revokeMutation.mutate()}
+        title="購読URLを無効にする"
+        message="このURLを登録しているカレンダーには、投稿予定が表示されなくなります。"
+        confirmText="無効にする"
+        type="danger"
+      />
+    </div>
+  );
+};
+
+export default CalendarExportPanel;
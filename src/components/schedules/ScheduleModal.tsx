@@ -1,10 +1,21 @@
-import { useState, useEffect } from 'react';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useState, useEffect, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Dialog, Transition } from '@headlessui/react';
 import { Fragment } from 'react';
 import { apiService } from '../../services/api';
 import Button from '../ui/Button';
-import { X } from 'lucide-react';
+import { HolidayMode, PromptTemplate, ScheduleBlackout, ScheduledRun, ScheduleTopicSource } from '../../types';
+import { describeCron, formatCronRun, getCronRuns, parseCron } from '../../utils/cron';
+import {
+  HOLIDAY_MODE_LABELS,
+  createHolidayLookup,
+  getSiteClosures,
+  getZonedDateKey,
+} from '../../utils/holidays';
+import { getScheduleCronExpression, resolveScheduleRuns } from '../../utils/scheduling';
+import { DEFAULT_TOPIC_SOURCE, cleanRotationTopics, getScheduleTopicSource } from '../../utils/topicSources';
+import TopicSourceEditor from './TopicSourceEditor';
+import { CalendarClock, Minus, Plus, X } from 'lucide-react';
 import { clsx } from 'clsx';
 import toast from 'react-hot-toast';
 
@@ -22,14 +33,32 @@ const ScheduleModal: React.FC<ScheduleModalProps> = ({ isOpen, onClose, schedule
     specific_time: '',
     timezone: 'Asia/Tokyo',
     skip_holidays: true,
+    holiday_mode: 'skip' as HolidayMode,
     max_monthly_posts: 100,
     cron_expression: '',
+    blackouts: [] as ScheduleBlackout[],
+    paused_until: '',
   });
+  const [topicSource, setTopicSource] = useState<ScheduleTopicSource>(DEFAULT_TOPIC_SOURCE);
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
-  const [isTestingCron, setIsTestingCron] = useState(false);
 
   const queryClient = useQueryClient();
 
+  const { data: site } = useQuery({
+    queryKey: ['site', siteId],
+    queryFn: () => apiService.getSite(siteId),
+    enabled: isOpen,
+  });
+
+  const { data: templates } = useQuery({
+    queryKey: ['templates', siteId],
+    queryFn: () => apiService.getTemplates({ site_id: siteId }),
+    enabled: isOpen,
+  });
+
+  const closures = getSiteClosures(site?.data);
+  const templatesList: PromptTemplate[] = templates?.data || [];
+
   const createMutation = useMutation({
     mutationFn: (data: any) => apiService.createSchedule(siteId, data),
     onSuccess: () => {
@@ -65,9 +94,13 @@ const ScheduleModal: React.FC<ScheduleModalProps> = ({ isOpen, onClose, schedule
         specific_time: schedule.specific_time || '',
         timezone: schedule.timezone || 'Asia/Tokyo',
         skip_holidays: schedule.skip_holidays !== undefined ? schedule.skip_holidays : true,
+        holiday_mode: schedule.holiday_mode || 'skip',
         max_monthly_posts: schedule.max_monthly_posts || 100,
         cron_expression: schedule.cron_expression || '',
+        blackouts: schedule.blackouts || [],
+        paused_until: schedule.paused_until || '',
       });
+      setTopicSource(getScheduleTopicSource(schedule));
     } else {
       resetForm();
     }
@@ -80,9 +113,13 @@ const ScheduleModal: React.FC<ScheduleModalProps> = ({ isOpen, onClose, schedule
       specific_time: '',
       timezone: 'Asia/Tokyo',
       skip_holidays: true,
+      holiday_mode: 'skip',
       max_monthly_posts: 100,
       cron_expression: '',
+      blackouts: [],
+      paused_until: '',
     });
+    setTopicSource(DEFAULT_TOPIC_SOURCE);
     setErrors({});
   };
 
@@ -93,8 +130,36 @@ const ScheduleModal: React.FC<ScheduleModalProps> = ({ isOpen, onClose, schedule
       newErrors.specific_time = '時刻を指定してください';
     }
 
-    if (formData.frequency === 'custom' && !formData.cron_expression) {
-      newErrors.cron_expression = 'Cron式を入力してください';
+    if (formData.frequency === 'custom') {
+      if (!formData.cron_expression) {
+        newErrors.cron_expression = 'Cron式を入力してください';
+      } else {
+        const { error } = parseCron(formData.cron_expression);
+        if (error) newErrors.cron_expression = error;
+      }
+    }
+
+    if (formData.blackouts.some((blackout) => !blackout.start || !blackout.end)) {
+      newErrors.blackouts = '休止期間の開始日と終了日を指定してください';
+    } else if (formData.blackouts.some((blackout) => blackout.start > blackout.end)) {
+      newErrors.blackouts = '休止期間の終了日は開始日以降にしてください';
+    }
+
+    // An expired pause loaded from the server is left alone; only new dates must be in the future
+    const pauseChanged = formData.paused_until !== (schedule?.paused_until || '');
+    if (pauseChanged && formData.paused_until && formData.paused_until <= getZonedDateKey(new Date(), formData.timezone)) {
+      newErrors.paused_until = '再開日は明日以降の日付を指定してください';
+    }
+
+    if (topicSource.type === 'rotation' && cleanRotationTopics(topicSource.topics).length === 0) {
+      newErrors.topic_source = 'トピックを1つ以上入力してください';
+    } else if (topicSource.type === 'template') {
+      const template = templatesList.find((item) => item.id === topicSource.template_id);
+      if (!template) {
+        newErrors.topic_source = 'テンプレートを選択してください';
+      } else if (template.keywords.length === 0) {
+        newErrors.topic_source = 'キーワードが設定されたテンプレートを選択してください';
+      }
     }
 
     if (formData.max_monthly_posts < 1 || formData.max_monthly_posts > 500) {
@@ -114,6 +179,12 @@ const ScheduleModal: React.FC<ScheduleModalProps> = ({ isOpen, onClose, schedule
       ...formData,
       specific_time: formData.time_slot === 'specific' ? formData.specific_time : undefined,
       cron_expression: formData.frequency === 'custom' ? formData.cron_expression : undefined,
+      blackouts: formData.blackouts.map((blackout) => ({ ...blackout, reason: blackout.reason.trim() })),
+      paused_until: formData.paused_until || null,
+      topic_source: {
+        ...topicSource,
+        topics: cleanRotationTopics(topicSource.topics),
+      },
     };
 
     if (schedule) {
@@ -137,27 +208,30 @@ const ScheduleModal: React.FC<ScheduleModalProps> = ({ isOpen, onClose, schedule
     }
   };
 
-  const testCronExpression = async () => {
-    if (!formData.cron_expression) {
-      toast.error('Cron式を入力してください');
-      return;
-    }
-
-    setIsTestingCron(true);
-    try {
-      const response = await apiService.testSchedule(formData.cron_expression);
-      if (response.data.valid) {
-        toast.success('Cron式は有効です');
-      } else {
-        toast.error('Cron式が無効です');
-      }
-    } catch (error: any) {
-      toast.error(error.response?.data?.error || 'Cron式のテストに失敗しました');
-    } finally {
-      setIsTestingCron(false);
+  const updateBlackout = (index: number, changes: Partial<ScheduleBlackout>) => {
+    setFormData((prev) => ({
+      ...prev,
+      blackouts: prev.blackouts.map((blackout, i) => (i === index ? { ...blackout, ...changes } : blackout)),
+    }));
+    if (errors.blackouts) {
+      setErrors((prev) => ({ ...prev, blackouts: '' }));
     }
   };
 
+  // Parsed locally on every keystroke so the preview follows the input
+  const cronPreview = useMemo((): { error?: string; description?: string; runs: ScheduledRun[] } | null => {
+    const expression = getScheduleCronExpression(formData);
+    if (!expression) return null;
+    const { cron, error } = parseCron(expression);
+    if (!cron) return { error, runs: [] };
+
+    const runs = getCronRuns(cron, new Date(), { timeZone: formData.timezone });
+    return {
+      description: describeCron(cron),
+      runs: resolveScheduleRuns(formData, runs, createHolidayLookup(closures)),
+    };
+  }, [formData, site]);
+
   const isLoading = createMutation.isPending || updateMutation.isPending;
 
   const frequencyOptions = [
@@ -288,30 +362,21 @@ const ScheduleModal: React.FC<ScheduleModalProps> = ({ isOpen, onClose, schedule
                       <label htmlFor="cron_expression" className="form-label">
                         Cron式 *
                       </label>
-                      <div className="flex space-x-2">
-                        <input
-                          type="text"
-                          name="cron_expression"
-                          id="cron_expression"
-                          value={formData.cron_expression}
-                          onChange={handleChange}
-                          className={clsx(
-                            'form-input flex-1',
-                            errors.cron_expression && 'border-red-300 focus:border-red-500 focus:ring-red-500'
-                          )}
-                          placeholder="0 9 * * 1,3,5"
-                        />
-                        <Button
-                          type="button"
-                          variant="outline"
-                          onClick={testCronExpression}
-                          loading={isTestingCron}
-                        >
-                          テスト
-                        </Button>
-                      </div>
-                      {errors.cron_expression && (
-                        <p className="form-error">{errors.cron_expression}</p>
+                      <input
+                        type="text"
+                        name="cron_expression"
+                        id="cron_expression"
+                        value={formData.cron_expression}
+                        onChange={handleChange}
+                        className={clsx(
+                          'form-input',
+                          (errors.cron_expression || cronPreview?.error) &&
+                            'border-red-300 focus:border-red-500 focus:ring-red-500'
+                        )}
+                        placeholder="0 9 * * 1,3,5"
+                      />
+                      {(errors.cron_expression || cronPreview?.error) && (
+                        <p className="form-error">{errors.cron_expression || cronPreview?.error}</p>
                       )}
                       <p className="mt-1 text-sm text-gray-500">
                         例: "0 9 * * 1,3,5" = 月・水・金の9:00
@@ -319,6 +384,21 @@ const ScheduleModal: React.FC<ScheduleModalProps> = ({ isOpen, onClose, schedule
                     </div>
                   )}
 
+                  <div>
+                    <span className="form-label">投稿する内容</span>
+                    <TopicSourceEditor
+                      value={topicSource}
+                      onChange={(value) => {
+                        setTopicSource(value);
+                        if (errors.topic_source) {
+                          setErrors((prev) => ({ ...prev, topic_source: '' }));
+                        }
+                      }}
+                      templates={templatesList}
+                      error={errors.topic_source}
+                    />
+                  </div>
+
                   <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
                     <div>
                       <label htmlFor="max_monthly_posts" className="form-label">
@@ -362,6 +442,46 @@ const ScheduleModal: React.FC<ScheduleModalProps> = ({ isOpen, onClose, schedule
                     </div>
                   </div>
 
+                  {cronPreview?.description && (
+                    <div className="rounded-md bg-gray-50 p-4">
+                      <p className="flex items-center text-sm font-medium text-gray-900">
+                        <CalendarClock className="w-4 h-4 mr-2 text-primary-600" />
+                        {cronPreview.description}
+                      </p>
+                      {cronPreview.runs.length > 0 ? (
+                        <>
+                          <p className="mt-2 text-xs text-gray-500">
+                            次回以降の実行予定（{formData.timezone}）
+                          </p>
+                          <ol className="mt-1 grid grid-cols-1 gap-x-6 text-sm text-gray-700 sm:grid-cols-2">
+                            {cronPreview.runs.map(({ scheduled_at, run_at, holiday, blackout, paused }) => (
+                              <li key={scheduled_at.getTime()}>
+                                <span className={clsx(!run_at && 'text-gray-400 line-through')}>
+                                  {formatCronRun(scheduled_at, formData.timezone)}
+                                </span>
+                                {(paused || blackout) && (
+                                  <span className="ml-1 text-xs text-yellow-700">
+                                    {paused ? '一時停止中' : blackout!.reason || '休止期間'}
+                                  </span>
+                                )}
+                                {holiday && !paused && !blackout && (
+                                  <span className="ml-1 text-xs text-red-600">
+                                    {holiday.name}
+                                    {run_at && ` → ${formatCronRun(run_at, formData.timezone)}`}
+                                  </span>
+                                )}
+                              </li>
+                            ))}
+                          </ol>
+                        </>
+                      ) : (
+                        <p className="mt-2 text-sm text-yellow-700">
+                          この条件に一致する日時がないため、投稿は実行されません
+                        </p>
+                      )}
+                    </div>
+                  )}
+
                   <div className="flex items-center">
                     <input
                       type="checkbox"
@@ -372,8 +492,123 @@ const ScheduleModal: React.FC<ScheduleModalProps> = ({ isOpen, onClose, schedule
                       className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
                     />
                     <label htmlFor="skip_holidays" className="ml-2 block text-sm text-gray-900">
-                      祝日の投稿をスキップする
+                      祝日・休業日の投稿をスキップする
+                    </label>
+                  </div>
+
+                  {formData.skip_holidays && (
+                    <div className="ml-6 space-y-2">
+                      <div className="flex space-x-6">
+                        {(Object.keys(HOLIDAY_MODE_LABELS) as HolidayMode[]).map((mode) => (
+                          <label key={mode} className="inline-flex items-center text-sm text-gray-700">
+                            <input
+                              type="radio"
+                              name="holiday_mode"
+                              value={mode}
+                              checked={formData.holiday_mode === mode}
+                              onChange={handleChange}
+                              className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300"
+                            />
+                            <span className="ml-2">{HOLIDAY_MODE_LABELS[mode]}</span>
+                          </label>
+                        ))}
+                      </div>
+                      <p className="text-sm text-gray-500">
+                        対象: 国民の祝日・振替休日・国民の休日
+                        {closures.year_end && '・年末年始（12/29〜1/3）'}
+                        {closures.obon && '・お盆（8/13〜8/16）'}
+                        {closures.custom_dates.length > 0 && `・臨時休業日（${closures.custom_dates.length}日）`}
+                        。休業日はサイト設定で変更できます
+                      </p>
+                    </div>
+                  )}
+
+                  <div>
+                    <label htmlFor="paused_until" className="form-label">
+                      一時停止（再開日）
                     </label>
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="date"
+                        name="paused_until"
+                        id="paused_until"
+                        value={formData.paused_until}
+                        onChange={handleChange}
+                        className={clsx(
+                          'form-input w-48',
+                          errors.paused_until && 'border-red-300 focus:border-red-500 focus:ring-red-500'
+                        )}
+                      />
+                      {formData.paused_until && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setFormData((prev) => ({ ...prev, paused_until: '' }))}
+                        >
+                          解除
+                        </Button>
+                      )}
+                    </div>
+                    {errors.paused_until && <p className="form-error">{errors.paused_until}</p>}
+                    <p className="mt-1 text-sm text-gray-500">
+                      指定した日の前日まで投稿を止め、当日から自動で再開します
+                    </p>
+                  </div>
+
+                  <div>
+                    <span className="form-label">休止期間</span>
+                    <div className="space-y-2">
+                      {formData.blackouts.map((blackout, index) => (
+                        <div key={index} className="flex items-center space-x-2">
+                          <input
+                            type="date"
+                            value={blackout.start}
+                            onChange={(e) => updateBlackout(index, { start: e.target.value })}
+                            className="form-input w-40"
+                          />
+                          <span className="text-gray-500">〜</span>
+                          <input
+                            type="date"
+                            value={blackout.end}
+                            onChange={(e) => updateBlackout(index, { end: e.target.value })}
+                            className="form-input w-40"
+                          />
+                          <input
+                            type="text"
+                            value={blackout.reason}
+                            onChange={(e) => updateBlackout(index, { reason: e.target.value })}
+                            className="form-input flex-1"
+                            placeholder="理由（例: 店舗改装）"
+                          />
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() =>
+                              setFormData((prev) => ({
+                                ...prev,
+                                blackouts: prev.blackouts.filter((_, i) => i !== index),
+                              }))
+                            }
+                          >
+                            <Minus className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      ))}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() =>
+                          setFormData((prev) => ({
+                            ...prev,
+                            blackouts: [...prev.blackouts, { start: '', end: '', reason: '' }],
+                          }))
+                        }
+                      >
+                        <Plus className="w-4 h-4 mr-1" />
+                        休止期間を追加
+                      </Button>
+                    </div>
+                    {errors.blackouts && <p className="form-error">{errors.blackouts}</p>}
                   </div>
 
                   <div className="flex items-center justify-end pt-6 border-t border-gray-200 space-x-3">
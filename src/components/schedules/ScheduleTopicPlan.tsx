@@ -0,0 +1,135 @@
+import { useMemo } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { apiService } from '../../services/api';
+import { Holiday, ScheduleTopicSource } from '../../types';
+import { formatCronRun } from '../../utils/cron';
+import { getUpcomingRuns } from '../../utils/scheduling';
+import {
+  TOPIC_SOURCE_LABELS,
+  TopicSourceContext,
+  canReorderTopics,
+  getScheduleTopicSource,
+  moveTopicSourceItem,
+  planScheduleTopics,
+  skipTopicSourceItem,
+} from '../../utils/topicSources';
+import { ArrowDown, ArrowUp, Bot, FileText, SkipForward } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const PLANNED_COUNT = 5;
+
+interface ScheduleTopicPlanProps {
+  siteId: string;
+  schedule: any;
+  context: TopicSourceContext;
+  lookup: (date: string) => Holiday | undefined;
+}
+
+const ScheduleTopicPlan: React.FC<ScheduleTopicPlanProps> = ({ siteId, schedule, context, lookup }) => {
+  const queryClient = useQueryClient();
+
+  const source = getScheduleTopicSource(schedule);
+  const planned = useMemo(
+    () => planScheduleTopics(
+      source,
+      getUpcomingRuns(schedule, new Date(), PLANNED_COUNT, lookup),
+      context,
+      schedule.timezone
+    ),
+    [schedule, context, lookup]
+  );
+
+  const saveMutation = useMutation({
+    mutationFn: (topicSource: ScheduleTopicSource) =>
+      apiService.updateScheduleTopicSource(siteId, schedule.id, topicSource),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['schedules', siteId] });
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'トピックの順番を保存できませんでした');
+    },
+  });
+
+  // Rotation topics repeat within the list; only the first pass can be rearranged
+  const editableCount = source.type === 'rotation' ? source.topics.length : planned.length;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <h4 className="text-sm font-medium text-gray-700 mb-2">
+        今後のトピック（{TOPIC_SOURCE_LABELS[source.type]}）
+      </h4>
+      {planned.length === 0 ? (
+        <p className="text-sm text-yellow-700">
+          {source.type === 'draft_queue'
+            ? '公開待ちの承認済み下書きがありません'
+            : '使えるトピックがありません。スケジュールを編集して設定してください'}
+        </p>
+      ) : (
+        <ol className="divide-y divide-gray-100">
+          {planned.map((item, index) => (
+            <li key={item.key} className="flex items-center justify-between py-1.5 text-sm">
+              <div className="flex items-center min-w-0">
+                <span className="w-36 flex-shrink-0 text-gray-500">
+                  {formatCronRun(item.run_at, schedule.timezone)}
+                </span>
+                {item.action === 'publish' ? (
+                  <FileText className="w-4 h-4 mr-1 flex-shrink-0 text-green-600" />
+                ) : (
+                  <Bot className="w-4 h-4 mr-1 flex-shrink-0 text-primary-600" />
+                )}
+                {item.post_id ? (
+                  <Link
+                    to={`/sites/${siteId}/posts/${item.post_id}`}
+                    className="truncate text-gray-900 hover:text-primary-600"
+                  >
+                    {item.topic}
+                  </Link>
+                ) : (
+                  <span className="truncate text-gray-900">{item.topic}</span>
+                )}
+              </div>
+              {index < editableCount && source.type !== 'template' && (
+                <div className="flex items-center space-x-1 ml-2">
+                  {canReorderTopics(source) && (
+                    <>
+                      <button
+                        type="button"
+                        title="前へ"
+                        disabled={index === 0 || saveMutation.isPending}
+                        onClick={() => saveMutation.mutate(moveTopicSourceItem(source, context, index, -1))}
+                        className="p-1 rounded text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        title="後へ"
+                        disabled={index === editableCount - 1 || saveMutation.isPending}
+                        onClick={() => saveMutation.mutate(moveTopicSourceItem(source, context, index, 1))}
+                        className="p-1 rounded text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                  <button
+                    type="button"
+                    title="スキップ"
+                    disabled={saveMutation.isPending}
+                    onClick={() => saveMutation.mutate(skipTopicSourceItem(source, context, item, index))}
+                    className="p-1 rounded text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                  >
+                    <SkipForward className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default ScheduleTopicPlan;
@@ -0,0 +1,94 @@
+import { PromptTemplate, ScheduleTopicSource, ScheduleTopicSourceType } from '../../types';
+import { TOPIC_SOURCE_LABELS, updateRotationTopics } from '../../utils/topicSources';
+import Button from '../ui/Button';
+import { clsx } from 'clsx';
+
+interface TopicSourceEditorProps {
+  value: ScheduleTopicSource;
+  onChange: (value: ScheduleTopicSource) => void;
+  templates: PromptTemplate[];
+  error?: string;
+}
+
+const SOURCE_HINTS: Record<ScheduleTopicSourceType, string> = {
+  rotation: '投稿のたびに上から順にトピックを使い、最後まで使うと先頭に戻ります',
+  template: 'テンプレートのキーワードを1つずつテーマにして、テンプレートの構成で記事を生成します',
+  seasonal: '投稿月の季節トピック（サイトの地域に合うもの）を、まだ使っていないものから順に使います',
+  draft_queue: '承認済みの下書きを古い順に公開します。順番はスケジュール一覧で変更できます',
+};
+
+const TopicSourceEditor: React.FC<TopicSourceEditorProps> = ({ value, onChange, templates, error }) => {
+  const update = (changes: Partial<ScheduleTopicSource>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(TOPIC_SOURCE_LABELS) as ScheduleTopicSourceType[]).map((type) => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => update({ type })}
+            className={clsx(
+              'px-3 py-1 rounded-full border text-sm',
+              value.type === type
+                ? 'border-primary-600 bg-primary-600 text-white'
+                : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            )}
+          >
+            {TOPIC_SOURCE_LABELS[type]}
+          </button>
+        ))}
+      </div>
+      <p className="text-sm text-gray-500">{SOURCE_HINTS[value.type]}</p>
+
+      {value.type === 'rotation' && (
+        <div>
+          <textarea
+            rows={4}
+            value={value.topics.join('\n')}
+            onChange={(e) => onChange(updateRotationTopics(value, e.target.value.split('\n')))}
+            className={clsx('form-input', error && 'border-red-300 focus:border-red-500 focus:ring-red-500')}
+            placeholder={'1行に1トピック\n例: 花粉症の市販薬の選び方\n例: 子どもの発熱時の受診の目安'}
+          />
+        </div>
+      )}
+
+      {value.type === 'seasonal' && value.skipped_ids.length > 0 && (
+        <div className="flex items-center text-sm text-gray-500">
+          {value.skipped_ids.length}件の季節トピックをスキップ中
+          <Button size="sm" variant="outline" className="ml-2" onClick={() => update({ skipped_ids: [] })}>
+            スキップを解除
+          </Button>
+        </div>
+      )}
+
+      {value.type !== 'draft_queue' && (
+        <div>
+          <label htmlFor="topic_source_template" className="block text-xs text-gray-500 mb-1">
+            {value.type === 'template' ? 'テンプレート *' : 'テンプレート（任意）'}
+          </label>
+          <select
+            id="topic_source_template"
+            value={value.template_id || ''}
+            onChange={(e) => update({ template_id: e.target.value || null })}
+            className={clsx(
+              'form-input',
+              error && value.type === 'template' && 'border-red-300 focus:border-red-500 focus:ring-red-500'
+            )}
+          >
+            <option value="">{value.type === 'template' ? '選択してください' : '使用しない'}</option>
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {error && <p className="form-error">{error}</p>}
+    </div>
+  );
+};
+
+export default TopicSourceEditor;
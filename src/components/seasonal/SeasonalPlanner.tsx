@@ -0,0 +1,215 @@
+import { useState, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiService } from '../../services/api';
+import { useSeasonalTopics } from '../../hooks';
+import { SeasonalTopic } from '../../types';
+import { findCoveringPost, getSeasonalTopicsForMonth } from '../../utils/seasonal';
+import { ChevronLeft, ChevronRight, GripVertical, CheckCircle2 } from 'lucide-react';
+import {
+  addDays,
+  addMonths,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { ja } from 'date-fns/locale';
+import { clsx } from 'clsx';
+import toast from 'react-hot-toast';
+
+interface SeasonalPlannerProps {
+  siteId: string;
+  region?: string;
+}
+
+const WEEKDAYS = ['日', '月', '火', '水', '木', '金', '土'];
+
+const SeasonalPlanner: React.FC<SeasonalPlannerProps> = ({ siteId, region }) => {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [dragOverDate, setDragOverDate] = useState<string | null>(null);
+  const { topics } = useSeasonalTopics();
+
+  const queryClient = useQueryClient();
+
+  const { data: posts } = useQuery({
+    queryKey: ['posts', siteId, 'seasonal-coverage'],
+    queryFn: () => apiService.getPosts(siteId, { limit: 100 }),
+    enabled: !!siteId,
+  });
+
+  const createDraftMutation = useMutation({
+    // Dropped topics become unscheduled drafts: they still have to be written and
+    // approved by a pharmacist before they can be scheduled
+    mutationFn: ({ topic, date }: { topic: SeasonalTopic; date: Date }) =>
+      apiService.createPost(siteId, {
+        title: topic.topic,
+        content: `<p>季節トピック「${topic.topic}」の下書きです。</p>`,
+        status: 'draft',
+        planned_date: format(date, 'yyyy-MM-dd'),
+        tags: topic.keywords,
+      }),
+    onSuccess: (_, { topic, date }) => {
+      queryClient.invalidateQueries({ queryKey: ['posts', siteId] });
+      toast.success(`「${topic.topic}」を${format(date, 'M月d日', { locale: ja })}公開予定の下書きとして作成しました`);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || '下書きの作成に失敗しました');
+    },
+  });
+
+  const postsList: any[] = posts?.data?.posts || [];
+  const suggestions = getSeasonalTopicsForMonth(topics, month.getMonth() + 1, region);
+
+  const days = useMemo(() => {
+    const result: Date[] = [];
+    const last = endOfWeek(endOfMonth(month));
+    for (let day = startOfWeek(month); day <= last; day = addDays(day, 1)) {
+      result.push(day);
+    }
+    return result;
+  }, [month]);
+
+  const today = startOfDay(new Date());
+
+  const handleDrop = (e: React.DragEvent, date: Date) => {
+    e.preventDefault();
+    setDragOverDate(null);
+
+    const topic = suggestions.find((item) => item.id === e.dataTransfer.getData('text/plain'));
+    if (!topic) return;
+
+    if (date <= today) {
+      toast.error('明日以降の日付にドロップしてください');
+      return;
+    }
+
+    createDraftMutation.mutate({ topic, date });
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">季節トピックの計画</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            トピックをカレンダーの日付にドラッグすると、その日に公開予定の下書きを作成します（公開には薬剤師の承認と予約が必要です）
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            type="button"
+            className="p-1 rounded text-gray-500 hover:bg-gray-100"
+            onClick={() => setMonth((prev) => addMonths(prev, -1))}
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <span className="text-sm font-medium text-gray-900 w-24 text-center">
+            {format(month, 'yyyy年M月', { locale: ja })}
+          </span>
+          <button
+            type="button"
+            className="p-1 rounded text-gray-500 hover:bg-gray-100"
+            onClick={() => setMonth((prev) => addMonths(prev, 1))}
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="card-body grid grid-cols-1 gap-6 lg:grid-cols-4">
+        {/* Suggestions */}
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-gray-700">{month.getMonth() + 1}月のおすすめ</h4>
+          {suggestions.length === 0 ? (
+            <p className="text-sm text-gray-500">この月のトピックはありません</p>
+          ) : (
+            suggestions.map((topic) => {
+              const coveringPost = findCoveringPost(topic, postsList);
+              return (
+                <div
+                  key={topic.id}
+                  draggable
+                  onDragStart={(e) => e.dataTransfer.setData('text/plain', topic.id)}
+                  className="flex items-start p-2 rounded-md border border-gray-200 bg-white cursor-move hover:border-primary-300"
+                  title={coveringPost ? `作成済み: ${coveringPost.title}` : undefined}
+                >
+                  <GripVertical className="w-4 h-4 mt-0.5 mr-1 text-gray-400 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-900">{topic.topic}</p>
+                    {coveringPost && (
+                      <span className="inline-flex items-center mt-1 text-xs text-green-700">
+                        <CheckCircle2 className="w-3 h-3 mr-1" />
+                        作成済み
+                      </span>
+                    )}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        {/* Calendar */}
+        <div className="lg:col-span-3">
+          <div className="grid grid-cols-7 gap-px bg-gray-200 border border-gray-200 rounded-md overflow-hidden">
+            {WEEKDAYS.map((weekday) => (
+              <div key={weekday} className="bg-gray-50 py-1 text-center text-xs font-medium text-gray-500">
+                {weekday}
+              </div>
+            ))}
+            {days.map((day) => {
+              const key = format(day, 'yyyy-MM-dd');
+              // Scheduled posts and drafts planned for the day; a planned draft only moves onto
+              // its scheduled_at once it has been approved and scheduled
+              const scheduled = postsList.filter((post) =>
+                post.scheduled_at ? isSameDay(new Date(post.scheduled_at), day) : post.planned_date === key
+              );
+              return (
+                <div
+                  key={key}
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    setDragOverDate(key);
+                  }}
+                  onDragLeave={() => setDragOverDate(null)}
+                  onDrop={(e) => handleDrop(e, day)}
+                  className={clsx(
+                    'min-h-[5rem] p-1 text-xs',
+                    isSameMonth(day, month) ? 'bg-white' : 'bg-gray-50 text-gray-400',
+                    day <= today && 'opacity-60',
+                    dragOverDate === key && 'bg-primary-50 ring-2 ring-inset ring-primary-400'
+                  )}
+                >
+                  <div className={clsx('font-medium', isSameDay(day, today) && 'text-primary-600')}>
+                    {format(day, 'd')}
+                  </div>
+                  <div className="mt-1 space-y-1">
+                    {scheduled.slice(0, 2).map((post) => (
+                      <div
+                        key={post.id}
+                        className={clsx(
+                          'truncate rounded px-1',
+                          post.scheduled_at ? 'bg-blue-100 text-blue-800' : 'border border-dashed border-gray-300 text-gray-600'
+                        )}
+                        title={post.scheduled_at ? post.title : `${post.title}（下書き・未予約）`}
+                      >
+                        {post.title}
+                      </div>
+                    ))}
+                    {scheduled.length > 2 && <div className="text-gray-500">+{scheduled.length - 2}件</div>}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SeasonalPlanner;
@@ -0,0 +1,219 @@
+import { useState, useEffect } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { Fragment } from 'react';
+import Button from '../ui/Button';
+import { SeasonalTopic } from '../../types';
+import { X } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface SeasonalTopicModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (topic: SeasonalTopic) => void;
+  topic?: SeasonalTopic | null;
+  defaultMonth: number;
+  isLoading?: boolean;
+}
+
+const splitList = (value: string) => value.split(/[,、]/).map((item) => item.trim()).filter(Boolean);
+
+const SeasonalTopicModal: React.FC<SeasonalTopicModalProps> = ({
+  isOpen,
+  onClose,
+  onSave,
+  topic,
+  defaultMonth,
+  isLoading = false,
+}) => {
+  const [formData, setFormData] = useState({
+    month: defaultMonth,
+    topic: '',
+    keywords: '',
+    regions: '',
+    note: '',
+  });
+  const [errors, setErrors] = useState<{ [key: string]: string }>({});
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFormData({
+      month: topic?.month || defaultMonth,
+      topic: topic?.topic || '',
+      keywords: topic?.keywords.join(', ') || '',
+      regions: topic?.regions.join(', ') || '',
+      note: topic?.note || '',
+    });
+    setErrors({});
+  }, [isOpen, topic, defaultMonth]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.topic.trim()) {
+      setErrors({ topic: 'トピックを入力してください' });
+      return;
+    }
+
+    onSave({
+      id: topic?.id || `custom-${Date.now()}`,
+      month: formData.month,
+      topic: formData.topic.trim(),
+      keywords: splitList(formData.keywords),
+      regions: splitList(formData.regions),
+      ...(formData.note.trim() && { note: formData.note.trim() }),
+    });
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: name === 'month' ? parseInt(value) : value }));
+    if (errors[name]) {
+      setErrors((prev) => ({ ...prev, [name]: '' }));
+    }
+  };
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-lg transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <div className="flex items-center justify-between mb-6">
+                  <Dialog.Title
+                    as="h3"
+                    className="text-lg font-medium leading-6 text-gray-900"
+                  >
+                    {topic ? '季節トピックを編集' : '季節トピックを追加'}
+                  </Dialog.Title>
+                  <button
+                    type="button"
+                    className="rounded-md text-gray-400 hover:text-gray-500 focus:outline-none"
+                    onClick={onClose}
+                  >
+                    <X className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div>
+                    <label htmlFor="month" className="form-label">
+                      月 *
+                    </label>
+                    <select
+                      name="month"
+                      id="month"
+                      value={formData.month}
+                      onChange={handleChange}
+                      className="form-input"
+                    >
+                      {Array.from({ length: 12 }, (_, index) => (
+                        <option key={index + 1} value={index + 1}>
+                          {index + 1}月
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label htmlFor="topic" className="form-label">
+                      トピック *
+                    </label>
+                    <input
+                      type="text"
+                      name="topic"
+                      id="topic"
+                      value={formData.topic}
+                      onChange={handleChange}
+                      className={clsx(
+                        'form-input',
+                        errors.topic && 'border-red-300 focus:border-red-500 focus:ring-red-500'
+                      )}
+                      placeholder="例: 熱中症の予防と経口補水液の使い方"
+                    />
+                    {errors.topic && <p className="form-error">{errors.topic}</p>}
+                  </div>
+
+                  <div>
+                    <label htmlFor="keywords" className="form-label">
+                      キーワード
+                    </label>
+                    <input
+                      type="text"
+                      name="keywords"
+                      id="keywords"
+                      value={formData.keywords}
+                      onChange={handleChange}
+                      className="form-input"
+                      placeholder="熱中症, 経口補水液"
+                    />
+                  </div>
+
+                  <div>
+                    <label htmlFor="regions" className="form-label">
+                      対象地域
+                    </label>
+                    <input
+                      type="text"
+                      name="regions"
+                      id="regions"
+                      value={formData.regions}
+                      onChange={handleChange}
+                      className="form-input"
+                      placeholder="空欄の場合は全国"
+                    />
+                  </div>
+
+                  <div>
+                    <label htmlFor="note" className="form-label">
+                      メモ
+                    </label>
+                    <textarea
+                      name="note"
+                      id="note"
+                      rows={2}
+                      value={formData.note}
+                      onChange={handleChange}
+                      className="form-input"
+                    />
+                  </div>
+
+                  <div className="flex items-center justify-end pt-6 border-t border-gray-200 space-x-3">
+                    <Button type="button" variant="outline" onClick={onClose}>
+                      キャンセル
+                    </Button>
+                    <Button type="submit" loading={isLoading}>
+                      {topic ? '更新' : '追加'}
+                    </Button>
+                  </div>
+                </form>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+};
+
+export default SeasonalTopicModal;
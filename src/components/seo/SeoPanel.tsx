@@ -0,0 +1,45 @@
+import { SeoAnalysis } from '../../types';
+import { getSeoScoreVariant } from '../../utils/seo';
+import Badge from '../ui/Badge';
+import { Search, CheckCircle, AlertTriangle, XCircle } from 'lucide-react';
+
+interface SeoPanelProps {
+  analysis: SeoAnalysis;
+}
+
+const statusConfig = {
+  pass: { icon: CheckCircle, iconClass: 'text-green-600' },
+  warn: { icon: AlertTriangle, iconClass: 'text-yellow-500' },
+  fail: { icon: XCircle, iconClass: 'text-red-600' },
+};
+
+const SeoPanel: React.FC<SeoPanelProps> = ({ analysis }) => {
+  return (
+    <div className="rounded-md border border-gray-200">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 bg-gray-50">
+        <div className="flex items-center text-sm font-medium text-gray-900">
+          <Search className="w-4 h-4 mr-2 text-gray-500" />
+          SEO分析
+        </div>
+        <Badge variant={getSeoScoreVariant(analysis.score)}>{analysis.score}点</Badge>
+      </div>
+
+      <ul className="divide-y divide-gray-200">
+        {analysis.checks.map((check) => {
+          const { icon: Icon, iconClass } = statusConfig[check.status];
+          return (
+            <li key={check.id} className="px-4 py-2 flex items-start">
+              <Icon className={`w-4 h-4 mt-0.5 mr-3 flex-shrink-0 ${iconClass}`} />
+              <div className="flex-1 min-w-0 sm:flex sm:items-center sm:justify-between">
+                <span className="text-sm text-gray-900">{check.label}</span>
+                <span className="block text-xs text-gray-500 sm:ml-4 sm:text-right">{check.message}</span>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default SeoPanel;
@@ -0,0 +1,205 @@
+import { useState, useEffect } from 'react';
+import { BrandPharmacist, BrandVoice } from '../../types';
+import {
+  BRAND_SERVICE_OPTIONS,
+  FIRST_PERSON_OPTIONS,
+  formatSampleParagraphs,
+  parseSampleParagraphs,
+} from '../../utils/brandVoice';
+import Button from '../ui/Button';
+import { Plus, Minus } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface BrandVoiceEditorProps {
+  value: BrandVoice;
+  onChange: (value: BrandVoice) => void;
+}
+
+const BrandVoiceEditor: React.FC<BrandVoiceEditorProps> = ({ value, onChange }) => {
+  const [customService, setCustomService] = useState('');
+  // Kept as raw text so blank lines survive while typing
+  const [samplesText, setSamplesText] = useState(() => formatSampleParagraphs(value.sample_paragraphs));
+
+  // Re-derive the text when the profile is replaced from outside (another site, form reset)
+  useEffect(() => {
+    const formatted = formatSampleParagraphs(value.sample_paragraphs);
+    if (formatSampleParagraphs(parseSampleParagraphs(samplesText)) !== formatted) {
+      setSamplesText(formatted);
+    }
+  }, [value.sample_paragraphs]);
+
+  const update = (changes: Partial<BrandVoice>) => onChange({ ...value, ...changes });
+
+  const updatePharmacist = (index: number, changes: Partial<BrandPharmacist>) => {
+    update({
+      pharmacists: value.pharmacists.map((pharmacist, i) => (i === index ? { ...pharmacist, ...changes } : pharmacist)),
+    });
+  };
+
+  const toggleService = (service: string) => {
+    update({
+      services: value.services.includes(service)
+        ? value.services.filter((item) => item !== service)
+        : [...value.services, service],
+    });
+  };
+
+  const addCustomService = () => {
+    const service = customService.trim();
+    if (service && !value.services.includes(service)) {
+      update({ services: [...value.services, service] });
+    }
+    setCustomService('');
+  };
+
+  const serviceOptions = Array.from(new Set([...BRAND_SERVICE_OPTIONS, ...value.services]));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="brand_first_person" className="block text-xs text-gray-500 mb-1">
+            一人称
+          </label>
+          <input
+            type="text"
+            id="brand_first_person"
+            list="brand_first_person_options"
+            value={value.first_person}
+            onChange={(e) => update({ first_person: e.target.value })}
+            className="form-input"
+          />
+          <datalist id="brand_first_person_options">
+            {FIRST_PERSON_OPTIONS.map((option) => (
+              <option key={option} value={option} />
+            ))}
+          </datalist>
+        </div>
+        <div>
+          <label htmlFor="brand_honorific" className="block text-xs text-gray-500 mb-1">
+            読者への呼びかけ
+          </label>
+          <input
+            type="text"
+            id="brand_honorific"
+            value={value.honorific}
+            onChange={(e) => update({ honorific: e.target.value })}
+            className="form-input"
+            placeholder="例: 患者さま、みなさん"
+          />
+        </div>
+      </div>
+
+      <div>
+        <span className="block text-xs text-gray-500 mb-1">薬剤師</span>
+        <div className="space-y-2">
+          {value.pharmacists.map((pharmacist, index) => (
+            <div key={index} className="flex space-x-2">
+              <input
+                type="text"
+                value={pharmacist.name}
+                onChange={(e) => updatePharmacist(index, { name: e.target.value })}
+                className="form-input flex-1"
+                placeholder="氏名"
+              />
+              <input
+                type="text"
+                value={pharmacist.credentials}
+                onChange={(e) => updatePharmacist(index, { credentials: e.target.value })}
+                className="form-input flex-1"
+                placeholder="資格（例: 認定薬剤師、漢方薬・生薬認定薬剤師）"
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => update({ pharmacists: value.pharmacists.filter((_, i) => i !== index) })}
+              >
+                <Minus className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => update({ pharmacists: [...value.pharmacists, { name: '', credentials: '' }] })}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            薬剤師を追加
+          </Button>
+        </div>
+      </div>
+
+      <div>
+        <span className="block text-xs text-gray-500 mb-1">提供サービス</span>
+        <div className="flex flex-wrap gap-2">
+          {serviceOptions.map((service) => (
+            <button
+              key={service}
+              type="button"
+              onClick={() => toggleService(service)}
+              className={clsx(
+                'px-3 py-1 rounded-full border text-sm',
+                value.services.includes(service)
+                  ? 'border-primary-600 bg-primary-600 text-white'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              )}
+            >
+              {service}
+            </button>
+          ))}
+        </div>
+        <div className="mt-2 flex space-x-2">
+          <input
+            type="text"
+            value={customService}
+            onChange={(e) => setCustomService(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addCustomService();
+              }
+            }}
+            className="form-input flex-1"
+            placeholder="その他のサービスを追加"
+          />
+          <Button size="sm" variant="outline" onClick={addCustomService}>
+            追加
+          </Button>
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="brand_banned_phrases" className="block text-xs text-gray-500 mb-1">
+          使わない言い回し（1行に1つ）
+        </label>
+        <textarea
+          id="brand_banned_phrases"
+          rows={3}
+          value={value.banned_phrases.join('\n')}
+          onChange={(e) => update({ banned_phrases: e.target.value.split('\n') })}
+          className="form-input"
+          placeholder={'例: 〜しちゃいましょう\n例: 絶対に'}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="brand_sample_paragraphs" className="block text-xs text-gray-500 mb-1">
+          文体の見本（段落ごとに空行で区切る）
+        </label>
+        <textarea
+          id="brand_sample_paragraphs"
+          rows={5}
+          value={samplesText}
+          onChange={(e) => {
+            setSamplesText(e.target.value);
+            update({ sample_paragraphs: parseSampleParagraphs(e.target.value) });
+          }}
+          className="form-input"
+          placeholder="過去の記事から、このサイトらしい段落を貼り付けてください"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default BrandVoiceEditor;
@@ -4,6 +4,18 @@ import { Dialog, Transition } from '@headlessui/react';
 import { Fragment } from 'react';
 import { apiService } from '../../services/api';
 import Button from '../ui/Button';
+import { formatCustomComplianceRules, parseCustomComplianceRules } from '../../utils/compliance';
+import { DEFAULT_READABILITY_TARGET, getSiteReadabilityTarget } from '../../utils/readability';
+import { BrandVoice, ReadabilityTarget } from '../../types';
+import { DEFAULT_BRAND_VOICE, getSiteBrandVoice, normalizeBrandVoice } from '../../utils/brandVoice';
+import {
+  DEFAULT_SITE_CLOSURES,
+  findInvalidClosureLines,
+  formatClosureDates,
+  getSiteClosures,
+  parseClosureDates,
+} from '../../utils/holidays';
+import BrandVoiceEditor from './BrandVoiceEditor';
 import { X, Eye, EyeOff } from 'lucide-react';
 import { clsx } from 'clsx';
 import toast from 'react-hot-toast';
@@ -24,7 +36,18 @@ const SiteModal: React.FC<SiteModalProps> = ({ isOpen, onClose, site }) => {
     pharmacy_name: '',
     pharmacy_features: '',
     category_id: '',
+    compliance_rules: '',
+    monthly_budget: '',
+    closure_dates: '',
   });
+  const [closureFlags, setClosureFlags] = useState({
+    year_end: DEFAULT_SITE_CLOSURES.year_end,
+    obon: DEFAULT_SITE_CLOSURES.obon,
+  });
+  const [readabilityTarget, setReadabilityTarget] = useState<ReadabilityTarget>(DEFAULT_READABILITY_TARGET);
+  const [brandVoice, setBrandVoice] = useState<BrandVoice>(DEFAULT_BRAND_VOICE);
+  // The defaults only prefill the editor; a voice is saved once the site has one or it is edited
+  const [brandVoiceSet, setBrandVoiceSet] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
   const [isTestingConnection, setIsTestingConnection] = useState(false);
@@ -60,6 +83,7 @@ const SiteModal: React.FC<SiteModalProps> = ({ isOpen, onClose, site }) => {
 
   useEffect(() => {
     if (site) {
+      const closures = getSiteClosures(site);
       setFormData({
         name: site.name || '',
         url: site.url || '',
@@ -69,7 +93,14 @@ const SiteModal: React.FC<SiteModalProps> = ({ isOpen, onClose, site }) => {
         pharmacy_name: site.pharmacy_name || '',
         pharmacy_features: site.pharmacy_features || '',
         category_id: site.category_id?.toString() || '',
+        compliance_rules: formatCustomComplianceRules(site.compliance_rules),
+        monthly_budget: site.monthly_budget?.toString() || '',
+        closure_dates: formatClosureDates(closures.custom_dates),
       });
+      setClosureFlags({ year_end: closures.year_end, obon: closures.obon });
+      setReadabilityTarget(getSiteReadabilityTarget(site));
+      setBrandVoice(getSiteBrandVoice(site));
+      setBrandVoiceSet(!!site.brand_voice);
     } else {
       resetForm();
     }
@@ -85,7 +116,14 @@ const SiteModal: React.FC<SiteModalProps> = ({ isOpen, onClose, site }) => {
       pharmacy_name: '',
       pharmacy_features: '',
       category_id: '',
+      compliance_rules: '',
+      monthly_budget: '',
+      closure_dates: '',
     });
+    setClosureFlags({ year_end: DEFAULT_SITE_CLOSURES.year_end, obon: DEFAULT_SITE_CLOSURES.obon });
+    setReadabilityTarget(DEFAULT_READABILITY_TARGET);
+    setBrandVoice(DEFAULT_BRAND_VOICE);
+    setBrandVoiceSet(false);
     setErrors({});
     setShowPassword(false);
   };
@@ -119,6 +157,15 @@ const SiteModal: React.FC<SiteModalProps> = ({ isOpen, onClose, site }) => {
       newErrors.pharmacy_name = '薬局名を入力してください';
     }
 
+    if (readabilityTarget.min_kanji_ratio > readabilityTarget.max_kanji_ratio) {
+      newErrors.readability_target = '漢字率の下限は上限以下にしてください';
+    }
+
+    const invalidClosures = findInvalidClosureLines(formData.closure_dates);
+    if (invalidClosures.length > 0) {
+      newErrors.closure_dates = `日付を読み取れない行があります: ${invalidClosures[0]}`;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -128,9 +175,15 @@ const SiteModal: React.FC<SiteModalProps> = ({ isOpen, onClose, site }) => {
 
     if (!validateForm()) return;
 
+    const { closure_dates, ...siteFields } = formData;
     const submitData = {
-      ...formData,
+      ...siteFields,
       category_id: formData.category_id ? parseInt(formData.category_id) : undefined,
+      compliance_rules: parseCustomComplianceRules(formData.compliance_rules),
+      readability_target: readabilityTarget,
+      brand_voice: brandVoiceSet ? normalizeBrandVoice(brandVoice) : null,
+      closures: { ...closureFlags, custom_dates: parseClosureDates(closure_dates) },
+      monthly_budget: formData.monthly_budget ? parseInt(formData.monthly_budget) : null,
     };
 
     if (site) {
@@ -148,6 +201,23 @@ const SiteModal: React.FC<SiteModalProps> = ({ isOpen, onClose, site }) => {
     }
   };
 
+  const handleReadabilityChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setReadabilityTarget((prev) => ({ ...prev, [name]: value === '' ? 0 : Number(value) }));
+    if (errors.readability_target) {
+      setErrors((prev) => ({ ...prev, readability_target: '' }));
+    }
+  };
+
+  const readabilityFields: { name: keyof ReadabilityTarget; label: string; unit: string }[] = [
+    { name: 'min_kanji_ratio', label: '漢字率（下限）', unit: '%' },
+    { name: 'max_kanji_ratio', label: '漢字率（上限）', unit: '%' },
+    { name: 'max_sentence_length', label: '1文の長さ（上限）', unit: '文字' },
+    { name: 'min_joyo_ratio', label: '常用漢字率（下限）', unit: '%' },
+    { name: 'max_katakana_jargon_density', label: 'カタカナ専門用語（上限）', unit: '語/千字' },
+    { name: 'max_passive_ratio', label: '受け身の文（上限）', unit: '%' },
+  ];
+
   const testConnection = async () => {
     if (!formData.url || !formData.username || !formData.password) {
       toast.error('URL、ユーザー名、パスワードを入力してください');
@@ -355,6 +425,22 @@ const SiteModal: React.FC<SiteModalProps> = ({ isOpen, onClose, site }) => {
                     />
                   </div>
 
+                  <div>
+                    <span className="form-label">ブランドボイス</span>
+                    <BrandVoiceEditor
+                      value={brandVoice}
+                      onChange={(voice) => {
+                        setBrandVoice(voice);
+                        setBrandVoiceSet(true);
+                      }}
+                    />
+                    <p className="mt-1 text-sm text-gray-500">
+                      {brandVoiceSet
+                        ? 'このサイトで記事を生成するときに、Claudeへ自動で伝えられます'
+                        : '未設定です。編集して保存すると、記事の生成時にClaudeへ伝えられます'}
+                    </p>
+                  </div>
+
                   <div>
                     <label htmlFor="category_id" className="form-label">
                       投稿カテゴリID
@@ -370,6 +456,113 @@ const SiteModal: React.FC<SiteModalProps> = ({ isOpen, onClose, site }) => {
                     />
                   </div>
 
+                  <div>
+                    <label htmlFor="monthly_budget" className="form-label">
+                      Claude利用の月間予算（円）
+                    </label>
+                    <input
+                      type="number"
+                      name="monthly_budget"
+                      id="monthly_budget"
+                      min={0}
+                      step={100}
+                      value={formData.monthly_budget}
+                      onChange={handleChange}
+                      className="form-input"
+                      placeholder="未設定の場合は上限なし"
+                    />
+                    <p className="mt-1 text-sm text-gray-500">
+                      80%で警告を表示し、100%に達すると管理者以外は記事を生成できなくなります
+                    </p>
+                  </div>
+
+                  <div>
+                    <label htmlFor="compliance_rules" className="form-label">
+                      独自の禁止表現（薬機法チェック）
+                    </label>
+                    <textarea
+                      name="compliance_rules"
+                      id="compliance_rules"
+                      rows={4}
+                      value={formData.compliance_rules}
+                      onChange={handleChange}
+                      className="form-input font-mono text-sm"
+                      placeholder={'例: 血液サラサラ => 健康的な食生活を心がけましょう'}
+                    />
+                    <p className="mt-1 text-sm text-gray-500">
+                      1行に1つ「表現 =&gt; 言い換え例」の形式で入力してください。標準ルールに加えて公開前チェックの対象になります
+                    </p>
+                  </div>
+
+                  <div>
+                    <span className="form-label">休業日</span>
+                    <div className="flex space-x-6">
+                      <label className="inline-flex items-center text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={closureFlags.year_end}
+                          onChange={(e) => setClosureFlags((prev) => ({ ...prev, year_end: e.target.checked }))}
+                          className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                        />
+                        <span className="ml-2">年末年始（12/29〜1/3）</span>
+                      </label>
+                      <label className="inline-flex items-center text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={closureFlags.obon}
+                          onChange={(e) => setClosureFlags((prev) => ({ ...prev, obon: e.target.checked }))}
+                          className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                        />
+                        <span className="ml-2">お盆（8/13〜8/16）</span>
+                      </label>
+                    </div>
+                    <textarea
+                      name="closure_dates"
+                      id="closure_dates"
+                      rows={3}
+                      value={formData.closure_dates}
+                      onChange={handleChange}
+                      className={clsx(
+                        'form-input mt-2 font-mono text-sm',
+                        errors.closure_dates && 'border-red-300 focus:border-red-500 focus:ring-red-500'
+                      )}
+                      placeholder={'例: 2024-06-10 棚卸しのため臨時休業'}
+                    />
+                    {errors.closure_dates && <p className="form-error">{errors.closure_dates}</p>}
+                    <p className="mt-1 text-sm text-gray-500">
+                      臨時休業日は1行に1日「日付 理由」の形式で入力してください。祝日をスキップするスケジュールは、国民の祝日に加えてこれらの日も休止します
+                    </p>
+                  </div>
+
+                  <div>
+                    <span className="form-label">読みやすさの目標範囲</span>
+                    <div className="grid grid-cols-2 gap-4 sm:grid-cols-3">
+                      {readabilityFields.map((field) => (
+                        <div key={field.name}>
+                          <label htmlFor={field.name} className="block text-xs text-gray-500 mb-1">
+                            {field.label}
+                          </label>
+                          <div className="flex items-center">
+                            <input
+                              type="number"
+                              name={field.name}
+                              id={field.name}
+                              min={0}
+                              value={readabilityTarget[field.name]}
+                              onChange={handleReadabilityChange}
+                              className="form-input"
+                            />
+                            <span className="ml-2 text-xs text-gray-500 whitespace-nowrap">{field.unit}</span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                    {errors.readability_target && <p className="form-error">{errors.readability_target}</p>}
+                    <p className="mt-1 text-sm text-gray-500">
+                      記事編集画面で、この範囲を外れた項目と該当する文が表示されます
+                    </p>
+                  </div>
+
                   <div className="flex items-center justify-between pt-6 border-t border-gray-200">
                     <Button
                       type="button"
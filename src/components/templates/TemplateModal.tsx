@@ -0,0 +1,391 @@
+import { useState, useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Dialog, Transition } from '@headlessui/react';
+import { Fragment } from 'react';
+import { apiService } from '../../services/api';
+import Button from '../ui/Button';
+import { PromptTemplate } from '../../types';
+import { ARTICLE_TONE_LABELS, DEFAULT_TEMPLATE_FIELDS } from '../../utils/templates';
+import { X } from 'lucide-react';
+import { clsx } from 'clsx';
+import toast from 'react-hot-toast';
+
+interface TemplateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  template?: PromptTemplate | null;
+}
+
+const emptyForm = {
+  name: '',
+  description: '',
+  site_id: '',
+  structure: DEFAULT_TEMPLATE_FIELDS.structure,
+  tone: DEFAULT_TEMPLATE_FIELDS.tone as string,
+  target_length: DEFAULT_TEMPLATE_FIELDS.target_length,
+  keywords: '',
+  exclude_keywords: '',
+  seo_focus: DEFAULT_TEMPLATE_FIELDS.seo_focus,
+  extra_instructions: '',
+};
+
+const splitList = (value: string) => value.split(/[,、]/).map((item) => item.trim()).filter(Boolean);
+
+const TemplateModal: React.FC<TemplateModalProps> = ({ isOpen, onClose, template }) => {
+  const [formData, setFormData] = useState(emptyForm);
+  const [errors, setErrors] = useState<{ [key: string]: string }>({});
+
+  const queryClient = useQueryClient();
+
+  const { data: sites } = useQuery({
+    queryKey: ['sites'],
+    queryFn: () => apiService.getSites(),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (data: any) => apiService.createTemplate(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['templates'] });
+      toast.success('テンプレートを作成しました');
+      onClose();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'テンプレートの作成に失敗しました');
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: any }) => apiService.updateTemplate(id, data),
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['templates'] });
+      queryClient.invalidateQueries({ queryKey: ['template-versions', id] });
+      toast.success('テンプレートを更新しました（新しいバージョンとして保存）');
+      onClose();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'テンプレートの更新に失敗しました');
+    },
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    if (template) {
+      setFormData({
+        name: template.name,
+        description: template.description || '',
+        site_id: template.site_id || '',
+        structure: template.structure,
+        tone: template.tone,
+        target_length: template.target_length,
+        keywords: template.keywords.join(', '),
+        exclude_keywords: template.exclude_keywords.join(', '),
+        seo_focus: template.seo_focus,
+        extra_instructions: template.extra_instructions || '',
+      });
+    } else {
+      setFormData(emptyForm);
+    }
+    setErrors({});
+  }, [isOpen, template]);
+
+  const validateForm = () => {
+    const newErrors: { [key: string]: string } = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'テンプレート名を入力してください';
+    }
+
+    if (!formData.structure.trim()) {
+      newErrors.structure = '記事構成を入力してください';
+    }
+
+    if (formData.target_length < 500 || formData.target_length > 5000) {
+      newErrors.target_length = '文字数は500〜5000の範囲で設定してください';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) return;
+
+    const submitData = {
+      name: formData.name.trim(),
+      description: formData.description.trim() || undefined,
+      site_id: formData.site_id || null,
+      structure: formData.structure.trim(),
+      tone: formData.tone,
+      target_length: formData.target_length,
+      keywords: splitList(formData.keywords),
+      exclude_keywords: splitList(formData.exclude_keywords),
+      seo_focus: formData.seo_focus,
+      extra_instructions: formData.extra_instructions.trim(),
+    };
+
+    if (template) {
+      updateMutation.mutate({ id: template.id, data: submitData });
+    } else {
+      createMutation.mutate(submitData);
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
+    const checked = (e.target as HTMLInputElement).checked;
+
+    setFormData((prev) => ({
+      ...prev,
+      [name]: type === 'checkbox' ? checked : type === 'number' ? parseInt(value) || 0 : value,
+    }));
+
+    if (errors[name]) {
+      setErrors((prev) => ({ ...prev, [name]: '' }));
+    }
+  };
+
+  const sitesList = sites?.data || [];
+  const isLoading = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-2xl transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <div className="flex items-center justify-between mb-6">
+                  <Dialog.Title
+                    as="h3"
+                    className="text-lg font-medium leading-6 text-gray-900"
+                  >
+                    {template ? `テンプレート編集（v${template.version}）` : '新しいテンプレートを作成'}
+                  </Dialog.Title>
+                  <button
+                    type="button"
+                    className="rounded-md text-gray-400 hover:text-gray-500 focus:outline-none"
+                    onClick={onClose}
+                  >
+                    <X className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-6">
+                  <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+                    <div>
+                      <label htmlFor="name" className="form-label">
+                        テンプレート名 *
+                      </label>
+                      <input
+                        type="text"
+                        name="name"
+                        id="name"
+                        value={formData.name}
+                        onChange={handleChange}
+                        className={clsx(
+                          'form-input',
+                          errors.name && 'border-red-300 focus:border-red-500 focus:ring-red-500'
+                        )}
+                        placeholder="例: 季節の市販薬ガイド"
+                      />
+                      {errors.name && <p className="form-error">{errors.name}</p>}
+                    </div>
+
+                    <div>
+                      <label htmlFor="site_id" className="form-label">
+                        利用サイト
+                      </label>
+                      <select
+                        name="site_id"
+                        id="site_id"
+                        value={formData.site_id}
+                        onChange={handleChange}
+                        className="form-input"
+                      >
+                        <option value="">全サイトで共有</option>
+                        {sitesList.map((site: any) => (
+                          <option key={site.id} value={site.id}>
+                            {site.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  <div>
+                    <label htmlFor="description" className="form-label">
+                      説明
+                    </label>
+                    <input
+                      type="text"
+                      name="description"
+                      id="description"
+                      value={formData.description}
+                      onChange={handleChange}
+                      className="form-input"
+                      placeholder="どのような記事向けのテンプレートか"
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+                    <div>
+                      <label htmlFor="tone" className="form-label">
+                        記事のトーン
+                      </label>
+                      <select
+                        name="tone"
+                        id="tone"
+                        value={formData.tone}
+                        onChange={handleChange}
+                        className="form-input"
+                      >
+                        {Object.entries(ARTICLE_TONE_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div>
+                      <label htmlFor="target_length" className="form-label">
+                        目標文字数
+                      </label>
+                      <input
+                        type="number"
+                        name="target_length"
+                        id="target_length"
+                        min="500"
+                        max="5000"
+                        step="100"
+                        value={formData.target_length}
+                        onChange={handleChange}
+                        className={clsx(
+                          'form-input',
+                          errors.target_length && 'border-red-300 focus:border-red-500 focus:ring-red-500'
+                        )}
+                      />
+                      {errors.target_length && <p className="form-error">{errors.target_length}</p>}
+                    </div>
+                  </div>
+
+                  <div>
+                    <label htmlFor="structure" className="form-label">
+                      記事構成 *
+                    </label>
+                    <textarea
+                      name="structure"
+                      id="structure"
+                      rows={3}
+                      value={formData.structure}
+                      onChange={handleChange}
+                      className={clsx(
+                        'form-input',
+                        errors.structure && 'border-red-300 focus:border-red-500 focus:ring-red-500'
+                      )}
+                    />
+                    {errors.structure && <p className="form-error">{errors.structure}</p>}
+                  </div>
+
+                  <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+                    <div>
+                      <label htmlFor="keywords" className="form-label">
+                        必須キーワード
+                      </label>
+                      <input
+                        type="text"
+                        name="keywords"
+                        id="keywords"
+                        value={formData.keywords}
+                        onChange={handleChange}
+                        className="form-input"
+                        placeholder="キーワード1, キーワード2"
+                      />
+                    </div>
+
+                    <div>
+                      <label htmlFor="exclude_keywords" className="form-label">
+                        除外キーワード
+                      </label>
+                      <input
+                        type="text"
+                        name="exclude_keywords"
+                        id="exclude_keywords"
+                        value={formData.exclude_keywords}
+                        onChange={handleChange}
+                        className="form-input"
+                        placeholder="キーワード1, キーワード2"
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <label htmlFor="extra_instructions" className="form-label">
+                      追加の指示
+                    </label>
+                    <textarea
+                      name="extra_instructions"
+                      id="extra_instructions"
+                      rows={4}
+                      value={formData.extra_instructions}
+                      onChange={handleChange}
+                      className="form-input"
+                      placeholder="例: 高齢の読者向けに専門用語には必ず説明を添えてください"
+                    />
+                  </div>
+
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      name="seo_focus"
+                      id="seo_focus"
+                      checked={formData.seo_focus}
+                      onChange={handleChange}
+                      className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                    />
+                    <label htmlFor="seo_focus" className="ml-2 block text-sm text-gray-900">
+                      SEO最適化を重視する
+                    </label>
+                  </div>
+
+                  <div className="flex items-center justify-end pt-6 border-t border-gray-200 space-x-3">
+                    <Button type="button" variant="outline" onClick={onClose}>
+                      キャンセル
+                    </Button>
+                    <Button type="submit" loading={isLoading}>
+                      {template ? '新しいバージョンとして保存' : '作成'}
+                    </Button>
+                  </div>
+                </form>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+};
+
+export default TemplateModal;
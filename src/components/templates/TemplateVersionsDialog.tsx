@@ -0,0 +1,114 @@
+import { Fragment } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Dialog, Transition } from '@headlessui/react';
+import { apiService } from '../../services/api';
+import { PromptTemplate, PromptTemplateVersion } from '../../types';
+import { ARTICLE_TONE_LABELS } from '../../utils/templates';
+import LoadingSpinner from '../ui/LoadingSpinner';
+import Badge from '../ui/Badge';
+import { X } from 'lucide-react';
+import { format } from 'date-fns';
+import { ja } from 'date-fns/locale';
+
+interface TemplateVersionsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  template: PromptTemplate | null;
+}
+
+const TemplateVersionsDialog: React.FC<TemplateVersionsDialogProps> = ({ isOpen, onClose, template }) => {
+  const { data: versions, isLoading } = useQuery({
+    queryKey: ['template-versions', template?.id],
+    queryFn: () => apiService.getTemplateVersions(template!.id),
+    enabled: isOpen && !!template,
+  });
+
+  const versionsList: PromptTemplateVersion[] = [...(versions?.data || [])].sort(
+    (a, b) => b.version - a.version
+  );
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-2xl transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <div className="flex items-center justify-between mb-6">
+                  <Dialog.Title
+                    as="h3"
+                    className="text-lg font-medium leading-6 text-gray-900"
+                  >
+                    {template?.name} のバージョン履歴
+                  </Dialog.Title>
+                  <button
+                    type="button"
+                    className="rounded-md text-gray-400 hover:text-gray-500 focus:outline-none"
+                    onClick={onClose}
+                  >
+                    <X className="h-6 w-6" />
+                  </button>
+                </div>
+
+                {isLoading ? (
+                  <div className="flex items-center justify-center h-32">
+                    <LoadingSpinner />
+                  </div>
+                ) : versionsList.length === 0 ? (
+                  <p className="text-sm text-gray-500">履歴がありません</p>
+                ) : (
+                  <ul className="divide-y divide-gray-200 max-h-[28rem] overflow-y-auto">
+                    {versionsList.map((version) => (
+                      <li key={version.id} className="py-3">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center space-x-2">
+                            <span className="text-sm font-medium text-gray-900">v{version.version}</span>
+                            {version.version === template?.version && <Badge variant="success">現在</Badge>}
+                          </div>
+                          <span className="text-xs text-gray-500">
+                            {version.author_name && `${version.author_name} ・ `}
+                            {format(new Date(version.created_at), 'yyyy/MM/dd HH:mm', { locale: ja })}
+                          </span>
+                        </div>
+                        <p className="mt-1 text-sm text-gray-700">{version.structure}</p>
+                        <p className="mt-1 text-xs text-gray-500">
+                          {ARTICLE_TONE_LABELS[version.tone] || version.tone} ・ {version.target_length}文字
+                          {version.keywords.length > 0 && ` ・ キーワード: ${version.keywords.join(', ')}`}
+                        </p>
+                        {version.extra_instructions && (
+                          <p className="mt-1 text-xs text-gray-500 whitespace-pre-wrap">{version.extra_instructions}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+};
+
+export default TemplateVersionsDialog;
@@ -1,2 +1,6 @@
 export { useForm } from './useForm';
-export { useLocalStorage } from './useLocalStorage';
\ No newline at end of file
+export { useLocalStorage } from './useLocalStorage';
+export { useSeasonalTopics } from './useSeasonalTopics';
+export { useClaudeRequestStream } from './useClaudeRequestStream';
+export { useClaudePricing } from './useClaudePricing';
+export { useClaudeBudgets } from './useClaudeBudgets';
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { apiService } from '../services/api';
+import { BudgetStatus, ClaudeUsageEntry } from '../types';
+import { getBudgetStatus, sumUsageCost } from '../utils/cost';
+import { useClaudePricing } from './useClaudePricing';
+
+export interface SiteBudget {
+  budget: number | null;
+  spent: number;
+  status: BudgetStatus;
+}
+
+/**
+ * This month's Claude spend against each site's `monthly_budget`, keyed by
+ * site id. Sites without a budget are always `ok`.
+ */
+export function useClaudeBudgets(sites: { id: string; monthly_budget?: number | null }[]) {
+  const { prices } = useClaudePricing();
+  const month = format(new Date(), 'yyyy-MM');
+
+  const { data: usage, isLoading } = useQuery({
+    queryKey: ['claude-usage', month],
+    queryFn: () => apiService.getClaudeUsage({ from: month, to: month }),
+    enabled: sites.length > 0,
+  });
+
+  const entries: ClaudeUsageEntry[] = (usage?.data || []).filter(
+    (entry: ClaudeUsageEntry) => entry.month === month
+  );
+  const spentBySite = sumUsageCost(entries, prices, (entry) => entry.site_id);
+
+  const budgets: Record<string, SiteBudget> = {};
+  sites.forEach((site) => {
+    const budget = site.monthly_budget ?? null;
+    const spent = spentBySite[site.id] || 0;
+    budgets[site.id] = { budget, spent, status: getBudgetStatus(spent, budget) };
+  });
+
+  return { budgets, isLoading };
+}
@@ -0,0 +1,35 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiService } from '../services/api';
+import { ClaudeModelPrice } from '../types';
+import { DEFAULT_CLAUDE_PRICES } from '../utils/cost';
+import toast from 'react-hot-toast';
+
+export function useClaudePricing() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['claude-pricing'],
+    queryFn: () => apiService.getClaudePricing(),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (prices: ClaudeModelPrice[]) => apiService.updateClaudePricing(prices),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['claude-pricing'] });
+      toast.success('料金表を保存しました');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || '料金表の保存に失敗しました');
+    },
+  });
+
+  const savedPrices: ClaudeModelPrice[] | undefined = data?.data;
+  const prices = savedPrices && savedPrices.length > 0 ? savedPrices : DEFAULT_CLAUDE_PRICES;
+
+  return {
+    prices,
+    isLoading,
+    savePrices: saveMutation.mutate,
+    isSaving: saveMutation.isPending,
+  };
+}
@@ -0,0 +1,187 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { apiService } from '../services/api';
+import { ClaudeRequest, ClaudeRequestProgress, ClaudeRequestStatus, ClaudeStreamMode } from '../types';
+import { validateClaudeRequestKeywords } from '../utils/keywords';
+import toast from 'react-hot-toast';
+
+const POLL_INTERVAL_MS = 5000;
+
+const isFinished = (status: ClaudeRequestStatus) => status === 'completed' || status === 'failed';
+
+/**
+ * Subscribes to live status and partial-text updates for a site's Claude
+ * requests. Uses server-sent events and falls back to polling the request
+ * list when the stream is unavailable. Query caches are invalidated whenever
+ * a generation completes or fails, and keyword violations of completed
+ * articles are reported.
+ */
+export function useClaudeRequestStream(siteId: string | undefined, hasActiveRequests: boolean) {
+  const [progress, setProgress] = useState<Record<string, ClaudeRequestProgress>>({});
+  const [mode, setMode] = useState<ClaudeStreamMode>('connecting');
+  const knownStatuses = useRef<Record<string, ClaudeRequestStatus>>({});
+
+  const queryClient = useQueryClient();
+
+  // The server validates keywords and makes the opted-in retry when it records
+  // completion; this only tells the user what happened
+  const reportKeywords = useCallback(
+    async (id: string, label: string) => {
+      if (!siteId) return;
+      try {
+        const response = await apiService.getClaudeRequest(siteId, id);
+        const request: ClaudeRequest = response.data;
+        const validation = validateClaudeRequestKeywords(request);
+        if (!validation || validation.passed) return;
+
+        if ((request.retries || []).length > 0) {
+          toast(`${label}がキーワード指定を満たしていないため再生成しています`);
+        } else {
+          toast.error(`${label}にキーワード指定の違反があります`);
+        }
+      } catch (error) {
+        console.error('Failed to check keywords:', error);
+      }
+    },
+    [siteId]
+  );
+
+  const applyUpdate = useCallback(
+    (update: ClaudeRequestProgress) => {
+      const previous = knownStatuses.current[update.id];
+      knownStatuses.current[update.id] = update.status;
+
+      // Requests that were already finished before we connected are history, not progress
+      if (!previous && isFinished(update.status)) return;
+
+      setProgress((prev) => ({
+        ...prev,
+        [update.id]: {
+          ...prev[update.id],
+          ...update,
+          partial_text: update.partial_text ?? prev[update.id]?.partial_text,
+        },
+      }));
+
+      if (!isFinished(update.status) || previous === update.status) return;
+
+      queryClient.invalidateQueries({ queryKey: ['claude-requests', siteId] });
+      queryClient.invalidateQueries({ queryKey: ['claude-stats', siteId] });
+      queryClient.invalidateQueries({ queryKey: ['posts', siteId] });
+
+      const label = update.topic ? `「${update.topic}」` : '記事';
+      if (update.status === 'completed') {
+        toast.success(`${label}の生成が完了しました`);
+        reportKeywords(update.id, label);
+      } else {
+        toast.error(`${label}の生成に失敗しました`);
+      }
+    },
+    [queryClient, siteId, reportKeywords]
+  );
+
+  // Server-sent events
+  useEffect(() => {
+    if (!siteId) return;
+
+    if (typeof window.EventSource === 'undefined') {
+      setMode('polling');
+      return;
+    }
+
+    setMode('connecting');
+    let source: EventSource | null = null;
+    let cancelled = false;
+
+    const handleMessage = (event: MessageEvent) => {
+      try {
+        applyUpdate(JSON.parse(event.data));
+      } catch (error) {
+        console.error('Invalid Claude stream event:', error);
+      }
+    };
+
+    const connect = async () => {
+      try {
+        const response = await apiService.createClaudeStreamTicket(siteId);
+        if (cancelled) return;
+        const stream = new EventSource(apiService.getClaudeStreamUrl(siteId, response.data.ticket));
+        let opened = false;
+        source = stream;
+
+        stream.onopen = () => {
+          opened = true;
+          setMode('sse');
+        };
+        stream.addEventListener('status', handleMessage);
+        stream.addEventListener('progress', handleMessage);
+        stream.onerror = () => {
+          // The browser retries transient errors itself. A stream that worked
+          // and then closed was refused on reconnect because its ticket expired,
+          // so open a new one; one that never opened means the endpoint is
+          // unavailable, so switch to polling for this session
+          if (stream.readyState !== EventSource.CLOSED) return;
+          if (opened) {
+            connect();
+          } else {
+            setMode('polling');
+          }
+        };
+      } catch (error) {
+        console.error('Failed to open Claude stream:', error);
+        if (!cancelled) setMode('polling');
+      }
+    };
+
+    connect();
+
+    return () => {
+      cancelled = true;
+      source?.close();
+    };
+  }, [siteId, applyUpdate]);
+
+  // Polling fallback, only while something is in flight
+  useEffect(() => {
+    if (!siteId || mode !== 'polling' || !hasActiveRequests) return;
+
+    const poll = async () => {
+      try {
+        const response = await apiService.getClaudeRequests(siteId, { page: 1, limit: 20 });
+        (response.data?.requests || []).forEach((request: any) => {
+          if (knownStatuses.current[request.id] === request.status) return;
+          applyUpdate({
+            id: request.id,
+            status: request.status,
+            topic: request.request_data?.article_config?.topic,
+            error_message: request.error_message,
+            updated_at: request.processed_at || request.created_at,
+          });
+        });
+      } catch (error) {
+        console.error('Failed to poll Claude requests:', error);
+      }
+    };
+
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [siteId, mode, hasActiveRequests, applyUpdate]);
+
+  // Seed statuses from the request list so the first change is detected
+  const trackRequests = useCallback((requests: { id: string; status: ClaudeRequestStatus }[]) => {
+    requests.forEach((request) => {
+      if (!knownStatuses.current[request.id]) {
+        knownStatuses.current[request.id] = request.status;
+      }
+    });
+  }, []);
+
+  const dismiss = useCallback((id: string) => {
+    setProgress((prev) => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  return { progress, mode, trackRequests, dismiss };
+}
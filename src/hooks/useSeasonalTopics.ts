@@ -0,0 +1,39 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiService } from '../services/api';
+import { SeasonalTopic } from '../types';
+import { DEFAULT_SEASONAL_TOPICS } from '../utils/seasonal';
+import toast from 'react-hot-toast';
+
+export function useSeasonalTopics() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['seasonal-topics'],
+    queryFn: () => apiService.getSeasonalTopics(),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (topics: SeasonalTopic[]) => apiService.saveSeasonalTopics(topics),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['seasonal-topics'] });
+      toast.success('季節トピックを保存しました');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || '季節トピックの保存に失敗しました');
+    },
+  });
+
+  // Fall back to the built-in calendar until the user has saved their own;
+  // a saved empty list means the calendar was cleared on purpose
+  const savedTopics: SeasonalTopic[] | null | undefined = data?.data;
+  const isCustomized = savedTopics !== undefined && savedTopics !== null;
+  const topics = isCustomized ? savedTopics : DEFAULT_SEASONAL_TOPICS;
+
+  return {
+    topics,
+    isLoading,
+    isCustomized,
+    saveTopics: saveMutation.mutate,
+    isSaving: saveMutation.isPending,
+  };
+}
@@ -4,6 +4,9 @@ import { useParams } from 'react-router-dom';
 import { apiService } from '../../services/api';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
 import Button from '../../components/ui/Button';
+import { useClaudePricing } from '../../hooks';
+import { ClaudeUsageEntry } from '../../types';
+import { formatCost, sumUsageCost } from '../../utils/cost';
 import {
   BarChart,
   Bar,
@@ -18,6 +21,7 @@ import {
   Pie,
   Cell,
   Legend,
+  ReferenceLine,
 } from 'recharts';
 import {
   TrendingUp,
@@ -29,7 +33,7 @@ import {
   Target,
   Activity,
 } from 'lucide-react';
-import { format, parseISO } from 'date-fns';
+import { format, parseISO, subMonths } from 'date-fns';
 import { ja } from 'date-fns/locale';
 
 const AnalyticsPage = () => {
@@ -54,6 +58,22 @@ const AnalyticsPage = () => {
     enabled: !!siteId,
   });
 
+  const { data: sites } = useQuery({
+    queryKey: ['sites'],
+    queryFn: () => apiService.getSites(),
+  });
+
+  // Last six months of token usage across all sites, for the cost charts
+  const costMonths = Array.from({ length: 6 }, (_, index) => subMonths(new Date(), 5 - index));
+  const usageFrom = format(costMonths[0], 'yyyy-MM');
+
+  const { data: usage } = useQuery({
+    queryKey: ['claude-usage', 'history', usageFrom],
+    queryFn: () => apiService.getClaudeUsage({ from: usageFrom }),
+  });
+
+  const { prices } = useClaudePricing();
+
   const periodOptions = [
     { value: '7d', label: '過去7日' },
     { value: '30d', label: '過去30日' },
@@ -90,6 +110,30 @@ const AnalyticsPage = () => {
     };
   });
 
+  // Claude cost per month for this site, and per site for the current month
+  const usageEntries: ClaudeUsageEntry[] = usage?.data || [];
+  const siteCostByMonth = sumUsageCost(
+    usageEntries.filter((entry) => entry.site_id === siteId),
+    prices,
+    (entry) => entry.month
+  );
+  const monthlyCostData = costMonths.map((month) => ({
+    month: format(month, 'M月', { locale: ja }),
+    cost: Math.round(siteCostByMonth[format(month, 'yyyy-MM')] || 0),
+  }));
+
+  const currentMonth = format(new Date(), 'yyyy-MM');
+  const costBySite = sumUsageCost(
+    usageEntries.filter((entry) => entry.month === currentMonth),
+    prices,
+    (entry) => entry.site_id
+  );
+  const siteCostData = (sites?.data || []).map((item: any) => ({
+    name: item.name,
+    cost: Math.round(costBySite[item.id] || 0),
+  }));
+  const monthlyBudget = site?.data?.monthly_budget;
+
   // Pie chart data for post status
   const postStatusData = [
     { name: '公開済み', value: statsData.published_posts || 0, color: '#10B981' },
@@ -341,6 +385,57 @@ const AnalyticsPage = () => {
         </div>
       </div>
 
+      {/* Claude Cost Charts */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="card">
+          <div className="card-header">
+            <h3 className="text-lg font-medium text-gray-900">
+              Claude利用コスト（月別）
+            </h3>
+            {monthlyBudget > 0 && (
+              <p className="mt-1 text-sm text-gray-500">月間予算: {formatCost(monthlyBudget)}</p>
+            )}
+          </div>
+          <div className="card-body">
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={monthlyCostData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="month" />
+                  <YAxis />
+                  <Tooltip formatter={(value: number) => formatCost(value)} />
+                  <Bar dataKey="cost" fill="#8B5CF6" name="コスト" />
+                  {monthlyBudget > 0 && (
+                    <ReferenceLine y={monthlyBudget} stroke="#EF4444" strokeDasharray="4 4" label="予算" />
+                  )}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+
+        <div className="card">
+          <div className="card-header">
+            <h3 className="text-lg font-medium text-gray-900">
+              今月のClaude利用コスト（サイト別）
+            </h3>
+          </div>
+          <div className="card-body">
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={siteCostData} layout="vertical">
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" />
+                  <YAxis type="category" dataKey="name" width={120} />
+                  <Tooltip formatter={(value: number) => formatCost(value)} />
+                  <Bar dataKey="cost" fill="#3B82F6" name="コスト" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+      </div>
+
       {/* Bottom Row */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Top Topics */}
@@ -0,0 +1,355 @@
+import { useState, useMemo, useEffect } from 'react';
+import { useQuery, useQueries, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { apiService } from '../../services/api';
+import LoadingSpinner from '../../components/ui/LoadingSpinner';
+import Button from '../../components/ui/Button';
+import { CalendarEvent, CalendarEventKind } from '../../types';
+import { createHolidayLookup, getSiteClosures } from '../../utils/holidays';
+import { buildCalendarEvents, countPostsInMonth, getMonthlyPostLimit } from '../../utils/scheduling';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { ja } from 'date-fns/locale';
+import { clsx } from 'clsx';
+import toast from 'react-hot-toast';
+
+type CalendarView = 'month' | 'week';
+
+const WEEKDAYS = ['日', '月', '火', '水', '木', '金', '土'];
+
+const MONTH_CELL_LIMIT = 3;
+
+const SITE_COLORS = [
+  { dot: 'bg-blue-500', border: 'border-l-blue-500' },
+  { dot: 'bg-purple-500', border: 'border-l-purple-500' },
+  { dot: 'bg-amber-500', border: 'border-l-amber-500' },
+  { dot: 'bg-teal-500', border: 'border-l-teal-500' },
+  { dot: 'bg-pink-500', border: 'border-l-pink-500' },
+  { dot: 'bg-indigo-500', border: 'border-l-indigo-500' },
+];
+
+const EVENT_STYLES: Record<CalendarEventKind, { className: string; label: string }> = {
+  scheduled: { className: 'bg-blue-50 text-blue-900 cursor-move', label: '予定投稿' },
+  published: { className: 'bg-green-50 text-green-900', label: '公開済み' },
+  failed: { className: 'bg-red-50 text-red-900', label: '失敗' },
+  slot: { className: 'bg-white text-gray-500 border border-dashed border-gray-300', label: '投稿枠（予測）' },
+  skipped: { className: 'bg-gray-50 text-gray-400 line-through', label: '休止（祝日・休止期間）' },
+};
+
+// National holidays only; each site's own closures apply to its slots
+const nationalHolidays = createHolidayLookup();
+
+const CalendarPage = () => {
+  const [view, setView] = useState<CalendarView>('month');
+  const [cursor, setCursor] = useState(() => new Date());
+  const [selectedSiteIds, setSelectedSiteIds] = useState<string[] | null>(null);
+  const [dragOverDate, setDragOverDate] = useState<string | null>(null);
+
+  const queryClient = useQueryClient();
+
+  const { data: sites, isLoading } = useQuery({
+    queryKey: ['sites'],
+    queryFn: () => apiService.getSites(),
+  });
+
+  const sitesList: any[] = sites?.data || [];
+
+  // All sites are shown until the user narrows the filter
+  useEffect(() => {
+    if (selectedSiteIds === null && sitesList.length > 0) {
+      setSelectedSiteIds(sitesList.map((site) => site.id));
+    }
+  }, [sitesList, selectedSiteIds]);
+
+  const visibleSites = useMemo(
+    () => sitesList.filter((site) => selectedSiteIds?.includes(site.id)),
+    [sitesList, selectedSiteIds]
+  );
+
+  const postsBySite: any[][] = useQueries({
+    queries: visibleSites.map((site) => ({
+      queryKey: ['posts', site.id, 'calendar'],
+      queryFn: () => apiService.getPosts(site.id, { limit: 500 }),
+    })),
+    combine: (results) => results.map((result) => result.data?.data?.posts || []),
+  });
+
+  const schedulesBySite: any[][] = useQueries({
+    queries: visibleSites.map((site) => ({
+      queryKey: ['schedules', site.id],
+      queryFn: () => apiService.getSchedules(site.id),
+    })),
+    combine: (results) => results.map((result) => result.data?.data || []),
+  });
+
+  const range = useMemo(() => {
+    if (view === 'week') {
+      return { from: startOfWeek(cursor), to: endOfWeek(cursor) };
+    }
+    return { from: startOfWeek(startOfMonth(cursor)), to: endOfWeek(endOfMonth(cursor)) };
+  }, [view, cursor]);
+
+  const days = useMemo(() => {
+    const result: Date[] = [];
+    for (let day = range.from; day <= range.to; day = addDays(day, 1)) {
+      result.push(day);
+    }
+    return result;
+  }, [range]);
+
+  const siteColor = (siteId: string) =>
+    SITE_COLORS[Math.max(sitesList.findIndex((site) => site.id === siteId), 0) % SITE_COLORS.length];
+
+  const events = useMemo(
+    () =>
+      visibleSites.flatMap((site, index) =>
+        buildCalendarEvents(
+          site,
+          postsBySite[index] || [],
+          schedulesBySite[index] || [],
+          range.from,
+          endOfDay(range.to),
+          createHolidayLookup(getSiteClosures(site))
+        )
+      ),
+    [visibleSites, postsBySite, schedulesBySite, range]
+  );
+
+  const rescheduleMutation = useMutation({
+    mutationFn: ({ event, date }: { event: CalendarEvent; date: Date }) =>
+      apiService.schedulePost(event.site_id, event.post.id, date.toISOString()),
+    onSuccess: (_, { event, date }) => {
+      queryClient.invalidateQueries({ queryKey: ['posts', event.site_id] });
+      toast.success(`「${event.title}」を${format(date, 'M月d日 HH:mm', { locale: ja })}に変更しました`);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || '予定の変更に失敗しました');
+    },
+  });
+
+  const handleDrop = (e: React.DragEvent, day: Date) => {
+    e.preventDefault();
+    setDragOverDate(null);
+
+    const event = events.find((item) => item.id === e.dataTransfer.getData('text/plain'));
+    if (!event || event.kind !== 'scheduled' || isSameDay(event.date, day)) return;
+
+    // Keep the original time of day
+    const date = new Date(day);
+    date.setHours(event.date.getHours(), event.date.getMinutes(), 0, 0);
+    if (date <= new Date()) {
+      toast.error('過去の日時には変更できません');
+      return;
+    }
+
+    const siteIndex = visibleSites.findIndex((site) => site.id === event.site_id);
+    const limit = getMonthlyPostLimit(schedulesBySite[siteIndex] || []);
+    const sitePosts = postsBySite[siteIndex] || [];
+    if (limit !== null && countPostsInMonth(sitePosts, date, event.post.id) >= limit) {
+      toast.error(`${event.site_name}は${format(date, 'M月', { locale: ja })}の月間最大投稿数（${limit}件）に達しています`);
+      return;
+    }
+
+    rescheduleMutation.mutate({ event, date });
+  };
+
+  const toggleSite = (siteId: string) => {
+    setSelectedSiteIds((prev) =>
+      prev?.includes(siteId) ? prev.filter((id) => id !== siteId) : [...(prev || []), siteId]
+    );
+  };
+
+  const move = (direction: number) => {
+    setCursor((prev) => (view === 'week' ? addWeeks(prev, direction) : addMonths(prev, direction)));
+  };
+
+  const renderEvent = (event: CalendarEvent) => (
+    <div
+      key={event.id}
+      draggable={event.kind === 'scheduled'}
+      onDragStart={(e) => e.dataTransfer.setData('text/plain', event.id)}
+      title={`${event.site_name} / ${EVENT_STYLES[event.kind].label}\n${event.title}`}
+      className={clsx(
+        'truncate rounded px-1 py-0.5 border-l-4',
+        EVENT_STYLES[event.kind].className,
+        siteColor(event.site_id).border
+      )}
+    >
+      <span className="mr-1 text-gray-500">{format(event.date, 'HH:mm')}</span>
+      {event.post ? (
+        <Link to={`/sites/${event.site_id}/posts/${event.post.id}`} className="hover:underline">
+          {event.title}
+        </Link>
+      ) : (
+        event.title
+      )}
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const today = startOfDay(new Date());
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">投稿カレンダー</h1>
+          <p className="text-gray-600">
+            予定投稿をドラッグすると投稿日を変更できます
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+            {(['month', 'week'] as const).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setView(value)}
+                className={clsx(
+                  'px-3 py-1.5 text-sm',
+                  view === value ? 'bg-primary-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                )}
+              >
+                {value === 'month' ? '月' : '週'}
+              </button>
+            ))}
+          </div>
+          <Button size="sm" variant="outline" onClick={() => setCursor(new Date())}>
+            今日
+          </Button>
+          <button
+            type="button"
+            className="p-1 rounded text-gray-500 hover:bg-gray-100"
+            onClick={() => move(-1)}
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <span className="text-sm font-medium text-gray-900 w-40 text-center">
+            {view === 'month'
+              ? format(cursor, 'yyyy年M月', { locale: ja })
+              : `${format(range.from, 'M月d日', { locale: ja })}〜${format(range.to, 'M月d日', { locale: ja })}`}
+          </span>
+          <button
+            type="button"
+            className="p-1 rounded text-gray-500 hover:bg-gray-100"
+            onClick={() => move(1)}
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="card">
+        <div className="card-body flex flex-wrap items-center justify-between gap-4">
+          <div className="flex flex-wrap gap-2">
+            {sitesList.map((site) => (
+              <label
+                key={site.id}
+                className="inline-flex items-center px-3 py-1 rounded-full border border-gray-300 text-sm cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={!!selectedSiteIds?.includes(site.id)}
+                  onChange={() => toggleSite(site.id)}
+                  className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                />
+                <span className={clsx('ml-2 w-2 h-2 rounded-full', siteColor(site.id).dot)} />
+                <span className="ml-1 text-gray-700">{site.name}</span>
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-3 text-xs">
+            {(Object.keys(EVENT_STYLES) as CalendarEventKind[]).map((kind) => (
+              <span key={kind} className={clsx('px-2 py-0.5 rounded', EVENT_STYLES[kind].className)}>
+                {EVENT_STYLES[kind].label}
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Calendar */}
+      <div className="grid grid-cols-7 gap-px bg-gray-200 border border-gray-200 rounded-md overflow-hidden">
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} className="bg-gray-50 py-2 text-center text-xs font-medium text-gray-500">
+            {weekday}
+          </div>
+        ))}
+        {days.map((day) => {
+          const key = format(day, 'yyyy-MM-dd');
+          const holiday = nationalHolidays(key);
+          const dayEvents = events.filter((event) => isSameDay(event.date, day));
+          const shown = view === 'month' ? dayEvents.slice(0, MONTH_CELL_LIMIT) : dayEvents;
+          return (
+            <div
+              key={key}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDragOverDate(key);
+              }}
+              onDragLeave={() => setDragOverDate(null)}
+              onDrop={(e) => handleDrop(e, day)}
+              className={clsx(
+                'p-1 text-xs space-y-1',
+                view === 'month' ? 'min-h-[7rem]' : 'min-h-[24rem]',
+                view === 'month' && !isSameMonth(day, cursor) ? 'bg-gray-50' : 'bg-white',
+                dragOverDate === key && 'bg-primary-50 ring-2 ring-inset ring-primary-400'
+              )}
+            >
+              <div
+                className={clsx(
+                  'flex items-center font-medium',
+                  isSameDay(day, today) ? 'text-primary-600' : day < today ? 'text-gray-400' : 'text-gray-700'
+                )}
+              >
+                {view === 'month' ? format(day, 'd') : format(day, 'M/d', { locale: ja })}
+                {holiday && (
+                  <span className="ml-1 truncate font-normal text-red-600" title={holiday.name}>
+                    {holiday.name}
+                  </span>
+                )}
+              </div>
+              {shown.map(renderEvent)}
+              {dayEvents.length > shown.length && (
+                <button
+                  type="button"
+                  className="text-gray-500 hover:text-gray-700"
+                  onClick={() => {
+                    setCursor(day);
+                    setView('week');
+                  }}
+                >
+                  +{dayEvents.length - shown.length}件
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CalendarPage;
@@ -0,0 +1,437 @@
+import { useState, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useSearchParams } from 'react-router-dom';
+import { apiService } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { useClaudeBudgets } from '../../hooks';
+import Button from '../../components/ui/Button';
+import Badge from '../../components/ui/Badge';
+import BudgetAlert from '../../components/claude/BudgetAlert';
+import { BatchJob, BatchJobStatus, PromptTemplate } from '../../types';
+import { ARTICLE_TONE_LABELS, DEFAULT_TEMPLATE_FIELDS, buildArticleRequest } from '../../utils/templates';
+import { parseTopicList, TopicListParseResult } from '../../utils/batch';
+import { Upload, ListChecks, Send, RefreshCw, Square, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+// Delay between consecutive generateArticle calls so a large batch does not
+// flood the Claude queue or trip API rate limits
+const SUBMIT_INTERVAL_MS = 3000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const statusBadges: Record<BatchJobStatus, { variant: 'success' | 'warning' | 'error' | 'info' | 'secondary'; label: string }> = {
+  queued: { variant: 'secondary', label: '待機中' },
+  submitting: { variant: 'info', label: '送信中' },
+  submitted: { variant: 'success', label: '送信済み' },
+  failed: { variant: 'error', label: '失敗' },
+};
+
+const BatchGeneratePage = () => {
+  const [searchParams] = useSearchParams();
+  const [input, setInput] = useState('');
+  const [parseResult, setParseResult] = useState<TopicListParseResult | null>(null);
+  const [selectedSiteIds, setSelectedSiteIds] = useState<string[]>(() => {
+    const siteId = searchParams.get('site');
+    return siteId ? [siteId] : [];
+  });
+  const [templateId, setTemplateId] = useState('');
+  const [createPost, setCreatePost] = useState(true);
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [budgetOverride, setBudgetOverride] = useState(false);
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+  const stopRequested = useRef(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const queryClient = useQueryClient();
+
+  const { data: sites } = useQuery({
+    queryKey: ['sites'],
+    queryFn: () => apiService.getSites(),
+  });
+
+  const { data: templates } = useQuery({
+    queryKey: ['templates'],
+    queryFn: () => apiService.getTemplates(),
+  });
+
+  const sitesList: any[] = sites?.data || [];
+  // Site-specific templates are only offered when every selected site can use them
+  const templatesList: PromptTemplate[] = (templates?.data || []).filter(
+    (template: PromptTemplate) =>
+      !template.site_id || selectedSiteIds.every((siteId) => siteId === template.site_id)
+  );
+  const selectedSites = sitesList.filter((site) => selectedSiteIds.includes(site.id));
+  const { budgets } = useClaudeBudgets(selectedSites);
+
+  const selectedTemplate = templatesList.find((template) => template.id === templateId) || null;
+
+  const updateJob = (key: string, changes: Partial<BatchJob>) => {
+    setJobs((prev) => prev.map((job) => (job.key === key ? { ...job, ...changes } : job)));
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setInput(await file.text());
+    setParseResult(null);
+    e.target.value = '';
+  };
+
+  const toggleSite = (siteId: string) => {
+    setSelectedSiteIds((prev) =>
+      prev.includes(siteId) ? prev.filter((id) => id !== siteId) : [...prev, siteId]
+    );
+  };
+
+  const buildQueue = () => {
+    const result = parseTopicList(input);
+    setParseResult(result);
+
+    if (result.rows.length === 0) {
+      toast.error('有効なトピックがありません');
+      return;
+    }
+
+    if (selectedSiteIds.length === 0) {
+      toast.error('対象サイトを選択してください');
+      return;
+    }
+
+    const blockedSites = selectedSites.filter(
+      (site) => budgets[site.id]?.status === 'exceeded' && !(isAdmin && budgetOverride)
+    );
+    if (blockedSites.length > 0) {
+      toast.error(`予算上限に達しているサイトを除外しました: ${blockedSites.map((site) => site.name).join('、')}`);
+    }
+
+    const base = selectedTemplate || DEFAULT_TEMPLATE_FIELDS;
+    const queue: BatchJob[] = [];
+
+    selectedSites.forEach((site) => {
+      if (blockedSites.includes(site)) return;
+      const siteId = site.id;
+
+      result.rows.forEach((row, index) => {
+        queue.push({
+          key: `${siteId}-${index}`,
+          site_id: siteId,
+          site_name: site.name,
+          row,
+          request_data: buildArticleRequest(
+            site,
+            {
+              topic: row.topic,
+              tone: row.tone || base.tone,
+              target_length: row.target_length || base.target_length,
+              keywords: row.keywords.length > 0 ? row.keywords : base.keywords,
+              exclude_keywords: base.exclude_keywords,
+              structure: base.structure,
+              seo_focus: base.seo_focus,
+              extra_instructions: base.extra_instructions || '',
+            },
+            selectedTemplate
+          ),
+          status: 'queued',
+        });
+      });
+    });
+
+    setJobs(queue);
+  };
+
+  const runJobs = async (targets: BatchJob[]) => {
+    if (targets.length === 0) return;
+
+    stopRequested.current = false;
+    setIsRunning(true);
+
+    for (let i = 0; i < targets.length; i++) {
+      if (stopRequested.current) break;
+
+      const job = targets[i];
+      updateJob(job.key, { status: 'submitting', error: undefined });
+
+      try {
+        const response = await apiService.generateArticle(job.site_id, job.request_data, createPost, {
+          budgetOverride: isAdmin && budgetOverride && budgets[job.site_id]?.status === 'exceeded',
+        });
+        updateJob(job.key, { status: 'submitted', request_id: response.data?.id });
+      } catch (error: any) {
+        updateJob(job.key, {
+          status: 'failed',
+          error: error.response?.data?.error || '記事生成の開始に失敗しました',
+        });
+      }
+
+      if (i < targets.length - 1 && !stopRequested.current) {
+        await sleep(SUBMIT_INTERVAL_MS);
+      }
+    }
+
+    new Set(targets.map((job) => job.site_id)).forEach((siteId) => {
+      queryClient.invalidateQueries({ queryKey: ['claude-requests', siteId] });
+      queryClient.invalidateQueries({ queryKey: ['posts', siteId] });
+    });
+
+    setIsRunning(false);
+    toast.success(stopRequested.current ? '一括生成を中断しました' : '一括生成の送信が完了しました');
+  };
+
+  const handleRetry = (job: BatchJob) => {
+    updateJob(job.key, { status: 'queued', error: undefined });
+    runJobs([job]);
+  };
+
+  const queuedJobs = jobs.filter((job) => job.status === 'queued');
+  const failedJobs = jobs.filter((job) => job.status === 'failed');
+  const finishedCount = jobs.filter((job) => job.status === 'submitted' || job.status === 'failed').length;
+  const progress = jobs.length > 0 ? Math.round((finishedCount / jobs.length) * 100) : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="md:flex md:items-center md:justify-between">
+        <div className="flex-1 min-w-0">
+          <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:text-3xl sm:truncate">
+            一括記事生成
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            トピックの一覧から複数の記事生成リクエストをまとめて送信します
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+        {/* Topic Input */}
+        <div className="card lg:col-span-2">
+          <div className="card-header flex items-center justify-between">
+            <h3 className="text-lg font-medium text-gray-900">トピック一覧</h3>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv,text/plain"
+              className="hidden"
+              onChange={handleFileUpload}
+            />
+            <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isRunning}>
+              <Upload className="w-4 h-4 mr-2" />
+              CSVを読み込む
+            </Button>
+          </div>
+          <div className="card-body space-y-2">
+            <textarea
+              rows={12}
+              value={input}
+              onChange={(e) => {
+                setInput(e.target.value);
+                setParseResult(null);
+              }}
+              disabled={isRunning}
+              className="form-input font-mono text-sm"
+              placeholder={'1行に1トピック、または見出し行つきのCSV形式\n例:\nトピック,キーワード,トーン,文字数\n花粉症薬の選び方,花粉症;市販薬,friendly,2000\n夏バテ対策と漢方薬,夏バテ;漢方'}
+            />
+            <p className="text-xs text-gray-500">
+              キーワードは「;」区切り、トーンは professional / friendly / neutral で指定できます。省略した項目はテンプレートの設定が使われます。
+            </p>
+            {parseResult && parseResult.errors.length > 0 && (
+              <ul className="rounded-md bg-red-50 p-3 text-sm text-red-700 space-y-1">
+                {parseResult.errors.map((error, index) => (
+                  <li key={index}>
+                    {error.line}行目: {error.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        {/* Settings */}
+        <div className="card">
+          <div className="card-header">
+            <h3 className="text-lg font-medium text-gray-900">生成設定</h3>
+          </div>
+          <div className="card-body space-y-4">
+            <div>
+              <span className="form-label">対象サイト *</span>
+              <div className="space-y-2 max-h-48 overflow-y-auto">
+                {sitesList.map((site) => (
+                  <label key={site.id} className="flex items-center text-sm text-gray-900">
+                    <input
+                      type="checkbox"
+                      checked={selectedSiteIds.includes(site.id)}
+                      onChange={() => toggleSite(site.id)}
+                      disabled={isRunning}
+                      className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                    />
+                    <span className="ml-2">{site.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="template_id" className="form-label">
+                プロンプトテンプレート
+              </label>
+              <select
+                id="template_id"
+                value={templateId}
+                onChange={(e) => setTemplateId(e.target.value)}
+                disabled={isRunning}
+                className="form-input"
+              >
+                <option value="">テンプレートを使用しない</option>
+                {templatesList.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}（v{template.version}）
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="create_post"
+                checked={createPost}
+                onChange={(e) => setCreatePost(e.target.checked)}
+                disabled={isRunning}
+                className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+              />
+              <label htmlFor="create_post" className="ml-2 block text-sm text-gray-900">
+                生成後に自動で記事を作成する
+              </label>
+            </div>
+
+            {selectedSites.map((site) => (
+              <BudgetAlert
+                key={site.id}
+                budget={budgets[site.id]}
+                siteName={site.name}
+                isAdmin={isAdmin}
+                override={budgetOverride}
+                onOverrideChange={setBudgetOverride}
+              />
+            ))}
+
+            <Button className="w-full" onClick={buildQueue} disabled={isRunning || !input.trim()}>
+              <ListChecks className="w-4 h-4 mr-2" />
+              キューを作成
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Queue Preview */}
+      {jobs.length > 0 && (
+        <div className="card">
+          <div className="card-header md:flex md:items-center md:justify-between">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">送信キュー（{jobs.length}件）</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                {finishedCount} / {jobs.length} 件処理済み
+                {failedJobs.length > 0 && ` ・ 失敗 ${failedJobs.length}件`}
+              </p>
+            </div>
+            <div className="mt-4 flex space-x-2 md:mt-0">
+              {isRunning ? (
+                <Button variant="outline" onClick={() => (stopRequested.current = true)}>
+                  <Square className="w-4 h-4 mr-2" />
+                  中断
+                </Button>
+              ) : (
+                <>
+                  <Button variant="outline" onClick={() => setJobs([])}>
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    クリア
+                  </Button>
+                  {failedJobs.length > 0 && (
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        failedJobs.forEach((job) => updateJob(job.key, { status: 'queued', error: undefined }));
+                        runJobs(failedJobs);
+                      }}
+                    >
+                      <RefreshCw className="w-4 h-4 mr-2" />
+                      失敗した行を再試行
+                    </Button>
+                  )}
+                  <Button onClick={() => runJobs(queuedJobs)} disabled={queuedJobs.length === 0}>
+                    <Send className="w-4 h-4 mr-2" />
+                    {queuedJobs.length}件を送信
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="px-6 pt-4">
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div className="bg-primary-600 h-2 rounded-full transition-all" style={{ width: `${progress}%` }} />
+            </div>
+          </div>
+
+          <div className="card-body overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    トピック
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    サイト
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    設定
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    ステータス
+                  </th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    アクション
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {jobs.map((job) => {
+                  const config = job.request_data.article_config;
+                  return (
+                    <tr key={job.key}>
+                      <td className="px-4 py-3 text-sm text-gray-900">{job.row.topic}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">{job.site_name}</td>
+                      <td className="px-4 py-3 text-xs text-gray-500">
+                        {ARTICLE_TONE_LABELS[config.tone as keyof typeof ARTICLE_TONE_LABELS]} ・ {config.target_length}文字
+                        {config.keywords.length > 0 ? (
+                          <div>キーワード: {config.keywords.join(', ')}</div>
+                        ) : (
+                          <div className="text-yellow-700">キーワード未指定</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <Badge variant={statusBadges[job.status].variant}>{statusBadges[job.status].label}</Badge>
+                        {job.error && <div className="text-xs text-red-600 mt-1">{job.error}</div>}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right">
+                        {job.status === 'failed' && !isRunning && (
+                          <Button size="sm" variant="outline" onClick={() => handleRetry(job)}>
+                            <RefreshCw className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchGeneratePage;
@@ -0,0 +1,355 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useParams, Link } from 'react-router-dom';
+import { apiService } from '../../services/api';
+import LoadingSpinner from '../../components/ui/LoadingSpinner';
+import Button from '../../components/ui/Button';
+import Badge from '../../components/ui/Badge';
+import ClaudeGenerateModal from '../../components/claude/ClaudeGenerateModal';
+import KeywordCheckPanel from '../../components/claude/KeywordCheckPanel';
+import { useClaudePricing } from '../../hooks';
+import { ClaudeRequest, ClaudeRequestSummary } from '../../types';
+import { formatCost, getRequestCost } from '../../utils/cost';
+import { validateClaudeRequestKeywords } from '../../utils/keywords';
+import { getClaudeRequestTopic } from '../../utils/sections';
+import { ArrowLeft, Copy, RefreshCw, FileText, GitBranch } from 'lucide-react';
+import { clsx } from 'clsx';
+import { format } from 'date-fns';
+import { ja } from 'date-fns/locale';
+import toast from 'react-hot-toast';
+
+type DetailTab = 'request' | 'prompt' | 'response';
+
+const getStatusBadge = (status: string) => {
+  const statusMap = {
+    pending: { variant: 'secondary' as const, label: '待機中' },
+    processing: { variant: 'warning' as const, label: '処理中' },
+    completed: { variant: 'success' as const, label: '完了' },
+    failed: { variant: 'error' as const, label: '失敗' },
+  };
+
+  const config = statusMap[status as keyof typeof statusMap] ||
+    { variant: 'secondary' as const, label: status };
+
+  return <Badge variant={config.variant}>{config.label}</Badge>;
+};
+
+const CodeBlock: React.FC<{ value: unknown; emptyText: string }> = ({ value, emptyText }) => {
+  if (value === undefined || value === null || value === '') {
+    return <p className="text-sm text-gray-500 italic">{emptyText}</p>;
+  }
+
+  return (
+    <pre className="max-h-[32rem] overflow-auto rounded-md bg-gray-900 p-4 text-xs text-gray-100 whitespace-pre-wrap break-words">
+      {typeof value === 'string' ? value : JSON.stringify(value, null, 2)}
+    </pre>
+  );
+};
+
+const ClaudeRequestDetailPage = () => {
+  const { siteId, id } = useParams<{ siteId: string; id: string }>();
+  const [activeTab, setActiveTab] = useState<DetailTab>('request');
+  const [duplicateOpen, setDuplicateOpen] = useState(false);
+
+  const queryClient = useQueryClient();
+  const { prices } = useClaudePricing();
+
+  const { data: request, isLoading } = useQuery({
+    queryKey: ['claude-request', siteId, id],
+    queryFn: () => apiService.getClaudeRequest(siteId!, id!),
+    enabled: !!siteId && !!id,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: () => apiService.retryClaudeRequest(siteId!, id!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['claude-requests', siteId] });
+      queryClient.invalidateQueries({ queryKey: ['claude-request', siteId, id] });
+      toast.success('記事生成を再試行しました');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || '再試行に失敗しました');
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!request?.data) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="mt-2 text-sm font-medium text-gray-900">
+          リクエストが見つかりません
+        </h3>
+        <Link to={`/sites/${siteId}/claude`}>
+          <Button className="mt-4">生成履歴に戻る</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const requestData: ClaudeRequest = request.data;
+  const templateInfo = requestData.request_data?.template || {};
+
+  const keywordValidation = validateClaudeRequestKeywords(requestData);
+
+  const durationSeconds = requestData.processed_at
+    ? Math.round(
+        (new Date(requestData.processed_at).getTime() - new Date(requestData.created_at).getTime()) / 1000
+      )
+    : null;
+  const totalTokens =
+    requestData.input_tokens !== undefined || requestData.output_tokens !== undefined
+      ? (requestData.input_tokens || 0) + (requestData.output_tokens || 0)
+      : null;
+
+  const cost = totalTokens !== null ? getRequestCost(prices, requestData) : null;
+
+  const tabs = [
+    { value: 'request' as const, label: 'リクエスト' },
+    { value: 'prompt' as const, label: 'プロンプト' },
+    { value: 'response' as const, label: 'レスポンス' },
+  ];
+
+  const renderLineageItem = (item: ClaudeRequestSummary, label: string) => (
+    <li key={item.id} className="flex items-center justify-between py-2">
+      <div>
+        <span className="text-xs text-gray-500 mr-2">{label}</span>
+        <Link
+          to={`/sites/${siteId}/claude/${item.id}`}
+          className="text-sm text-primary-600 hover:text-primary-700"
+        >
+          {format(new Date(item.created_at), 'yyyy/MM/dd HH:mm', { locale: ja })}
+        </Link>
+      </div>
+      {getStatusBadge(item.status)}
+    </li>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <Link to={`/sites/${siteId}/claude`}>
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              生成履歴に戻る
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">
+              {getClaudeRequestTopic(requestData.request_data) || '生成リクエスト詳細'}
+            </h1>
+            <p className="text-sm text-gray-500">
+              {format(new Date(requestData.created_at), 'yyyy/MM/dd HH:mm', { locale: ja })}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          {getStatusBadge(requestData.status)}
+          {requestData.status === 'failed' && (
+            <Button size="sm" variant="outline" onClick={() => retryMutation.mutate()} loading={retryMutation.isPending}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              再試行
+            </Button>
+          )}
+          {!requestData.request_data?.section_rewrite && (
+            <Button size="sm" onClick={() => setDuplicateOpen(true)}>
+              <Copy className="w-4 h-4 mr-2" />
+              変更して複製
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Main Content */}
+        <div className="lg:col-span-2 space-y-6">
+          {requestData.error_message && (
+            <div className="card border-red-200">
+              <div className="card-header bg-red-50">
+                <h3 className="text-lg font-medium text-red-900">エラー詳細</h3>
+              </div>
+              <div className="card-body">
+                <p className="text-sm text-red-700 whitespace-pre-wrap">{requestData.error_message}</p>
+              </div>
+            </div>
+          )}
+
+          {keywordValidation && (
+            <KeywordCheckPanel
+              validation={keywordValidation}
+              keywords={requestData.request_data?.article_config?.keywords || []}
+            />
+          )}
+
+          <div className="card">
+            <div className="card-header">
+              <nav className="-mb-4 flex space-x-6">
+                {tabs.map((tab) => (
+                  <button
+                    key={tab.value}
+                    type="button"
+                    onClick={() => setActiveTab(tab.value)}
+                    className={clsx(
+                      'pb-3 text-sm font-medium border-b-2 transition-colors',
+                      activeTab === tab.value
+                        ? 'border-primary-600 text-primary-600'
+                        : 'border-transparent text-gray-500 hover:text-gray-700'
+                    )}
+                  >
+                    {tab.label}
+                  </button>
+                ))}
+              </nav>
+            </div>
+            <div className="card-body space-y-4">
+              {activeTab === 'request' && (
+                <CodeBlock value={requestData.request_data} emptyText="リクエスト内容がありません" />
+              )}
+              {activeTab === 'prompt' && (
+                <CodeBlock value={requestData.prompt} emptyText="送信したプロンプトは記録されていません" />
+              )}
+              {activeTab === 'response' && (
+                <>
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-700 mb-2">解析済みレスポンス</h4>
+                    <CodeBlock value={requestData.response_data} emptyText="レスポンスがありません" />
+                  </div>
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-700 mb-2">生レスポンス</h4>
+                    <CodeBlock value={requestData.raw_response} emptyText="生レスポンスは記録されていません" />
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          <div className="card">
+            <div className="card-header">
+              <h3 className="text-lg font-medium text-gray-900">処理情報</h3>
+            </div>
+            <div className="card-body">
+              <dl className="space-y-3 text-sm">
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">処理時間</dt>
+                  <dd className="text-gray-900">{durationSeconds !== null ? `${durationSeconds}秒` : '-'}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">入力トークン</dt>
+                  <dd className="text-gray-900">{requestData.input_tokens?.toLocaleString() ?? '-'}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">出力トークン</dt>
+                  <dd className="text-gray-900">{requestData.output_tokens?.toLocaleString() ?? '-'}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">合計トークン</dt>
+                  <dd className="font-medium text-gray-900">{totalTokens?.toLocaleString() ?? '-'}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">コスト</dt>
+                  <dd className="font-medium text-gray-900">{cost !== null ? formatCost(cost) : '-'}</dd>
+                </div>
+                {requestData.model && (
+                  <div className="flex justify-between">
+                    <dt className="text-gray-500">モデル</dt>
+                    <dd className="text-gray-900 font-mono text-xs">{requestData.model}</dd>
+                  </div>
+                )}
+                {requestData.processed_at && (
+                  <div className="flex justify-between">
+                    <dt className="text-gray-500">完了日時</dt>
+                    <dd className="text-gray-900">
+                      {format(new Date(requestData.processed_at), 'yyyy/MM/dd HH:mm:ss', { locale: ja })}
+                    </dd>
+                  </div>
+                )}
+                {requestData.variant_group_id && (
+                  <div className="flex justify-between">
+                    <dt className="text-gray-500">バリアント</dt>
+                    <dd>
+                      <Link
+                        to={`/sites/${siteId}/claude/variants/${requestData.variant_group_id}`}
+                        className="text-primary-600 hover:text-primary-700"
+                      >
+                        案{(requestData.variant_index || 0) + 1}（比較を表示）
+                      </Link>
+                    </dd>
+                  </div>
+                )}
+                {templateInfo.template_name && (
+                  <div className="flex justify-between">
+                    <dt className="text-gray-500">テンプレート</dt>
+                    <dd className="text-gray-900">
+                      {templateInfo.template_name}（v{templateInfo.template_version}）
+                    </dd>
+                  </div>
+                )}
+              </dl>
+            </div>
+          </div>
+
+          <div className="card">
+            <div className="card-header">
+              <h3 className="text-lg font-medium text-gray-900">作成された記事</h3>
+            </div>
+            <div className="card-body">
+              {requestData.post_id ? (
+                <Link
+                  to={`/sites/${siteId}/posts/${requestData.post_id}`}
+                  className="inline-flex items-center text-sm text-primary-600 hover:text-primary-700"
+                >
+                  <FileText className="w-4 h-4 mr-2" />
+                  記事を表示
+                </Link>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  {requestData.create_post === false ? '記事の自動作成は無効でした' : 'まだ記事は作成されていません'}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="card">
+            <div className="card-header">
+              <h3 className="flex items-center text-lg font-medium text-gray-900">
+                <GitBranch className="w-5 h-5 mr-2 text-gray-400" />
+                再試行の履歴
+              </h3>
+            </div>
+            <div className="card-body">
+              {!requestData.retry_of && (requestData.retries || []).length === 0 ? (
+                <p className="text-sm text-gray-500">再試行はありません</p>
+              ) : (
+                <ul className="divide-y divide-gray-200">
+                  {requestData.retry_of && renderLineageItem(requestData.retry_of, '再試行元')}
+                  {(requestData.retries || []).map((retry) => renderLineageItem(retry, '再試行'))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Duplicate with changes */}
+      <ClaudeGenerateModal
+        isOpen={duplicateOpen}
+        onClose={() => setDuplicateOpen(false)}
+        siteId={siteId!}
+        initialRequestData={requestData.request_data}
+      />
+    </div>
+  );
+};
+
+export default ClaudeRequestDetailPage;
@@ -1,18 +1,26 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useParams } from 'react-router-dom';
+import { useParams, Link } from 'react-router-dom';
 import { apiService } from '../../services/api';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
 import Button from '../../components/ui/Button';
 import Badge from '../../components/ui/Badge';
 import ClaudeGenerateModal from '../../components/claude/ClaudeGenerateModal';
+import GenerationProgressDrawer from '../../components/claude/GenerationProgressDrawer';
+import KeywordCheckBadge from '../../components/claude/KeywordCheckBadge';
+import { useClaudeBudgets, useClaudePricing, useClaudeRequestStream } from '../../hooks';
+import { formatCost, getRequestCost } from '../../utils/cost';
+import { validateClaudeRequestKeywords } from '../../utils/keywords';
+import { SECTION_REWRITE_ACTION_LABELS, getClaudeRequestTopic } from '../../utils/sections';
+import { SectionRewriteAction } from '../../types';
 import { 
   Plus, 
   Brain, 
   RefreshCw, 
   Eye, 
   Trash2,
-  FileText
+  FileText,
+  Layers
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { ja } from 'date-fns/locale';
@@ -72,6 +80,31 @@ const ClaudeRequestsPage = () => {
   const pagination = requests?.data || {};
   const statsData = stats?.data || {};
 
+  const { prices } = useClaudePricing();
+  const { budgets } = useClaudeBudgets(site?.data ? [site.data] : []);
+  const siteBudget = siteId ? budgets[siteId] : undefined;
+
+  const renderRequestCost = (request: any) => {
+    if (request.input_tokens === undefined && request.output_tokens === undefined) return '-';
+    const cost = getRequestCost(prices, request);
+    const tokens = (request.input_tokens || 0) + (request.output_tokens || 0);
+    return (
+      <>
+        <div>{cost !== null ? formatCost(cost) : '-'}</div>
+        <div className="text-xs text-gray-400">{tokens.toLocaleString()}トークン</div>
+      </>
+    );
+  };
+
+  const hasActiveRequests = requestsList.some(
+    (request: any) => request.status === 'pending' || request.status === 'processing'
+  );
+  const { progress, mode, trackRequests, dismiss } = useClaudeRequestStream(siteId, hasActiveRequests);
+
+  useEffect(() => {
+    trackRequests(requestsList);
+  }, [requestsList, trackRequests]);
+
   const getStatusBadge = (status: string) => {
     const statusMap = {
       pending: { variant: 'secondary' as const, label: '待機中' },
@@ -115,8 +148,20 @@ const ClaudeRequestsPage = () => {
           <p className="mt-1 text-sm text-gray-500">
             {site?.data?.name} のAI記事生成履歴
           </p>
+          {siteBudget && (
+            <p className="mt-1 text-sm text-gray-500">
+              今月の利用額: {formatCost(siteBudget.spent)}
+              {siteBudget.budget && ` / 予算 ${formatCost(siteBudget.budget)}`}
+            </p>
+          )}
         </div>
-        <div className="mt-4 flex md:mt-0 md:ml-4">
+        <div className="mt-4 flex space-x-3 md:mt-0 md:ml-4">
+          <Link to={`/batch-generate?site=${siteId}`}>
+            <Button variant="outline">
+              <Layers className="w-4 h-4 mr-2" />
+              一括生成
+            </Button>
+          </Link>
           <Button onClick={() => setIsModalOpen(true)}>
             <Plus className="w-4 h-4 mr-2" />
             記事を生成
@@ -249,6 +294,9 @@ const ClaudeRequestsPage = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   処理時間
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  コスト
+                </th>
                 <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                   アクション
                 </th>
@@ -260,18 +308,52 @@ const ClaudeRequestsPage = () => {
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center">
                       <div>
-                        <div className="text-sm font-medium text-gray-900">
-                          {request.request_data?.article_config?.topic || '不明'}
-                        </div>
-                        <div className="text-sm text-gray-500">
-                          {request.request_data?.article_config?.tone || ''} - 
-                          {request.request_data?.article_config?.target_length || 0}文字
-                        </div>
+                        <Link
+                          to={`/sites/${siteId}/claude/${request.id}`}
+                          className="text-sm font-medium text-gray-900 hover:text-primary-600"
+                        >
+                          {getClaudeRequestTopic(request.request_data) || '不明'}
+                        </Link>
+                        {request.request_data?.section_rewrite ? (
+                          <div className="text-sm text-gray-500">
+                            セクション{SECTION_REWRITE_ACTION_LABELS[request.request_data.section_rewrite.action as SectionRewriteAction]}
+                            {' - '}{request.request_data.section_rewrite.article_title}
+                          </div>
+                        ) : (
+                          <div className="text-sm text-gray-500">
+                            {request.request_data?.article_config?.tone || ''} - 
+                            {request.request_data?.article_config?.target_length || 0}文字
+                          </div>
+                        )}
+                        {request.request_data?.template?.template_name && (
+                          <div className="text-xs text-gray-400">
+                            テンプレート: {request.request_data.template.template_name}
+                            （v{request.request_data.template.template_version}）
+                          </div>
+                        )}
+                        {request.variant_group_id && (
+                          <Link
+                            to={`/sites/${siteId}/claude/variants/${request.variant_group_id}`}
+                            className="text-xs text-primary-600 hover:text-primary-700"
+                          >
+                            案{(request.variant_index || 0) + 1}・バリアントを比較
+                          </Link>
+                        )}
                       </div>
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    {getStatusBadge(request.status)}
+                    {getStatusBadge(progress[request.id]?.status || request.status)}
+                    {progress[request.id]?.status === 'processing' && progress[request.id]?.partial_text && (
+                      <div className="text-xs text-gray-400 mt-1">
+                        {progress[request.id].partial_text!.length.toLocaleString()}文字生成済み
+                      </div>
+                    )}
+                    {request.status === 'completed' && (
+                      <div className="mt-1">
+                        <KeywordCheckBadge validation={validateClaudeRequestKeywords(request)} />
+                      </div>
+                    )}
                     {request.error_message && (
                       <div className="text-xs text-red-600 mt-1">
                         {request.error_message}
@@ -293,13 +375,16 @@ const ClaudeRequestsPage = () => {
                       '-'
                     )}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {renderRequestCost(request)}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                     <div className="flex items-center justify-end space-x-2">
-                      {request.response_data && (
+                      <Link to={`/sites/${siteId}/claude/${request.id}`}>
                         <Button size="sm" variant="outline">
                           <Eye className="w-4 h-4" />
                         </Button>
-                      )}
+                      </Link>
                       {request.status === 'failed' && (
                         <Button
                           size="sm"
@@ -380,6 +465,9 @@ const ClaudeRequestsPage = () => {
         </div>
       )}
 
+      {/* Live Generation Progress */}
+      <GenerationProgressDrawer siteId={siteId!} progress={progress} mode={mode} onDismiss={dismiss} />
+
       {/* Claude Generate Modal */}
       <ClaudeGenerateModal
         isOpen={isModalOpen}
@@ -0,0 +1,258 @@
+import { useState, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { apiService } from '../../services/api';
+import LoadingSpinner from '../../components/ui/LoadingSpinner';
+import Button from '../../components/ui/Button';
+import Badge from '../../components/ui/Badge';
+import ConfirmDialog from '../../components/ui/ConfirmDialog';
+import { ArticleVariantMetrics, ClaudeRequest } from '../../types';
+import { getSiteComplianceRules } from '../../utils/compliance';
+import { getSiteReadabilityTarget } from '../../utils/readability';
+import { sanitizeHtml } from '../../utils/sanitize';
+import { getBestVariantIndexes, measureArticleVariant } from '../../utils/variants';
+import { ArrowLeft, Award, FileText } from 'lucide-react';
+import { clsx } from 'clsx';
+import toast from 'react-hot-toast';
+
+const POLL_INTERVAL_MS = 5000;
+
+const COLUMN_CLASSES: Record<number, string> = {
+  2: 'lg:grid-cols-2',
+  3: 'lg:grid-cols-3',
+  4: 'lg:grid-cols-2 xl:grid-cols-4',
+};
+
+const METRIC_ROWS: { key: keyof ArticleVariantMetrics; label: string; format: (value: number) => string }[] = [
+  { key: 'seo_score', label: 'SEOスコア', format: (value) => `${value}点` },
+  { key: 'readability_score', label: '読みやすさ', format: (value) => `${value}点` },
+  { key: 'character_count', label: '文字数', format: (value) => `${value.toLocaleString()}文字` },
+  { key: 'compliance_hits', label: '薬機法チェック', format: (value) => `${value}件` },
+];
+
+const getStatusBadge = (variant: ClaudeRequest) => {
+  if (variant.discarded) return <Badge variant="secondary">破棄済み</Badge>;
+  if (variant.post_id) return <Badge variant="success">採用</Badge>;
+
+  const statusMap = {
+    pending: { variant: 'secondary' as const, label: '待機中' },
+    processing: { variant: 'warning' as const, label: '生成中' },
+    completed: { variant: 'info' as const, label: '生成済み' },
+    failed: { variant: 'error' as const, label: '失敗' },
+  };
+  const config = statusMap[variant.status];
+  return <Badge variant={config.variant}>{config.label}</Badge>;
+};
+
+const ClaudeVariantsPage = () => {
+  const { siteId, groupId } = useParams<{ siteId: string; groupId: string }>();
+  const [promoting, setPromoting] = useState<ClaudeRequest | null>(null);
+
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data: site } = useQuery({
+    queryKey: ['site', siteId],
+    queryFn: () => apiService.getSite(siteId!),
+    enabled: !!siteId,
+  });
+
+  const { data: group, isLoading } = useQuery({
+    queryKey: ['claude-variants', siteId, groupId],
+    queryFn: () => apiService.getClaudeVariantGroup(siteId!, groupId!),
+    enabled: !!siteId && !!groupId,
+    // Keep refreshing until every variant has finished generating
+    refetchInterval: (query) => {
+      const variants: ClaudeRequest[] = query.state.data?.data || [];
+      return variants.some((variant) => variant.status === 'pending' || variant.status === 'processing')
+        ? POLL_INTERVAL_MS
+        : false;
+    },
+  });
+
+  const variants: ClaudeRequest[] = useMemo(
+    () => [...(group?.data || [])].sort((a, b) => (a.variant_index || 0) - (b.variant_index || 0)),
+    [group]
+  );
+
+  const metrics = useMemo(() => {
+    const context = {
+      complianceRules: getSiteComplianceRules(site?.data),
+      readabilityTarget: getSiteReadabilityTarget(site?.data),
+      siteUrl: site?.data?.url,
+    };
+    return variants.map((variant) =>
+      variant.status === 'completed' && variant.response_data
+        ? measureArticleVariant(
+            {
+              title: variant.response_data.title || '',
+              content: variant.response_data.content || '',
+              metaDescription: variant.response_data.meta_description,
+              keyword: variant.request_data?.article_config?.keywords?.[0],
+            },
+            context
+          )
+        : null
+    );
+  }, [variants, site]);
+
+  const completedMetrics = metrics.filter((item): item is ArticleVariantMetrics => item !== null);
+  const bestIndexes = getBestVariantIndexes(completedMetrics);
+  const promotedVariant = variants.find((variant) => variant.post_id);
+
+  const promoteMutation = useMutation({
+    mutationFn: (requestId: string) => apiService.promoteClaudeVariant(siteId!, groupId!, requestId),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['claude-variants', siteId, groupId] });
+      queryClient.invalidateQueries({ queryKey: ['claude-requests', siteId] });
+      queryClient.invalidateQueries({ queryKey: ['posts', siteId] });
+      toast.success('記事を作成しました');
+      setPromoting(null);
+      if (response?.data?.post_id) {
+        navigate(`/sites/${siteId}/posts/${response.data.post_id}`);
+      }
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || '記事の作成に失敗しました');
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (variants.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="mt-2 text-sm font-medium text-gray-900">
+          バリアントが見つかりません
+        </h3>
+        <Link to={`/sites/${siteId}/claude`}>
+          <Button className="mt-4">生成履歴に戻る</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const topic = variants[0].request_data?.article_config?.topic;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center space-x-4">
+        <Link to={`/sites/${siteId}/claude`}>
+          <Button variant="outline" size="sm">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            生成履歴に戻る
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">バリアント比較</h1>
+          <p className="text-sm text-gray-500">
+            {topic}（{variants.length}案）
+          </p>
+        </div>
+      </div>
+
+      {promotedVariant && (
+        <div className="rounded-md bg-green-50 border border-green-200 p-4 text-sm text-green-800">
+          案{(promotedVariant.variant_index || 0) + 1}を採用しました。
+          <Link
+            to={`/sites/${siteId}/posts/${promotedVariant.post_id}`}
+            className="ml-2 font-medium underline"
+          >
+            記事を表示
+          </Link>
+        </div>
+      )}
+
+      <div className={clsx('grid grid-cols-1 gap-6', COLUMN_CLASSES[variants.length])}>
+        {variants.map((variant, index) => {
+          const variantMetrics = metrics[index];
+          const completedIndex = variantMetrics ? completedMetrics.indexOf(variantMetrics) : -1;
+          const response = variant.response_data || {};
+
+          return (
+            <div
+              key={variant.id}
+              className={clsx('card flex flex-col', variant.discarded && 'opacity-60')}
+            >
+              <div className="card-header flex items-center justify-between">
+                <Link
+                  to={`/sites/${siteId}/claude/${variant.id}`}
+                  className="text-lg font-medium text-gray-900 hover:text-primary-600"
+                >
+                  案{(variant.variant_index ?? index) + 1}
+                </Link>
+                {getStatusBadge(variant)}
+              </div>
+              <div className="card-body flex-1 space-y-4">
+                {variantMetrics ? (
+                  <dl className="grid grid-cols-2 gap-3 text-sm">
+                    {METRIC_ROWS.map((row) => {
+                      const isBest = bestIndexes[row.key] === completedIndex;
+                      return (
+                        <div key={row.key} className="rounded-md bg-gray-50 p-2">
+                          <dt className="text-xs text-gray-500">{row.label}</dt>
+                          <dd
+                            className={clsx(
+                              'flex items-center font-medium',
+                              isBest ? 'text-green-700' : 'text-gray-900'
+                            )}
+                          >
+                            {row.format(variantMetrics[row.key])}
+                            {isBest && <Award className="w-4 h-4 ml-1" />}
+                          </dd>
+                        </div>
+                      );
+                    })}
+                  </dl>
+                ) : variant.status === 'failed' ? (
+                  <p className="text-sm text-red-600">{variant.error_message || '生成に失敗しました'}</p>
+                ) : (
+                  <div className="flex items-center text-sm text-gray-500">
+                    <LoadingSpinner size="sm" className="mr-2" />
+                    生成中です
+                  </div>
+                )}
+
+                {response.title && (
+                  <h2 className="text-base font-bold text-gray-900">{response.title}</h2>
+                )}
+                {response.content && (
+                  <div
+                    className="article-content prose prose-sm max-w-none max-h-[32rem] overflow-y-auto"
+                    dangerouslySetInnerHTML={{ __html: sanitizeHtml(response.content) }}
+                  />
+                )}
+              </div>
+              {!promotedVariant && variant.status === 'completed' && (
+                <div className="px-6 py-4 border-t border-gray-200">
+                  <Button className="w-full" onClick={() => setPromoting(variant)}>
+                    <FileText className="w-4 h-4 mr-2" />
+                    この案で記事を作成
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <ConfirmDialog
+        isOpen={!!promoting}
+        onClose={() => setPromoting(null)}
+        onConfirm={() => promoting && promoteMutation.mutate(promoting.id)}
+        title="この案を採用"
+        message={`案${(promoting?.variant_index || 0) + 1}から記事を作成し、残りの案は破棄します。`}
+        confirmText="採用"
+      />
+    </div>
+  );
+};
+
+export default ClaudeVariantsPage;
@@ -0,0 +1,141 @@
+import { useState, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useParams, Link } from 'react-router-dom';
+import { apiService } from '../../services/api';
+import LoadingSpinner from '../../components/ui/LoadingSpinner';
+import Badge from '../../components/ui/Badge';
+import { DUPLICATE_CLUSTER_THRESHOLD, findDuplicateClusters, formatSimilarity } from '../../utils/similarity';
+import { Copy, CheckCircle2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { ja } from 'date-fns/locale';
+
+const THRESHOLD_OPTIONS = [0.4, 0.5, 0.6, 0.7, 0.8];
+
+const getStatusBadge = (status: string) => {
+  const statusMap = {
+    draft: { variant: 'secondary' as const, label: '下書き' },
+    in_review: { variant: 'warning' as const, label: 'レビュー中' },
+    changes_requested: { variant: 'error' as const, label: '差し戻し' },
+    approved: { variant: 'success' as const, label: '承認済み' },
+    scheduled: { variant: 'info' as const, label: '予定投稿' },
+    published: { variant: 'success' as const, label: '公開済み' },
+    failed: { variant: 'error' as const, label: '失敗' },
+    processing: { variant: 'warning' as const, label: '処理中' },
+  };
+
+  const config = statusMap[status as keyof typeof statusMap] ||
+    { variant: 'secondary' as const, label: status };
+
+  return <Badge variant={config.variant}>{config.label}</Badge>;
+};
+
+const DuplicatesPage = () => {
+  const { siteId } = useParams<{ siteId: string }>();
+  const [threshold, setThreshold] = useState(DUPLICATE_CLUSTER_THRESHOLD);
+
+  const { data: posts, isLoading } = useQuery({
+    queryKey: ['posts', siteId, 'duplicates'],
+    queryFn: () => apiService.getPosts(siteId!, { limit: 500 }),
+    enabled: !!siteId,
+  });
+
+  const postsList: any[] = useMemo(() => posts?.data?.posts || [], [posts]);
+  const clusters = useMemo(() => findDuplicateClusters(postsList, threshold), [postsList, threshold]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">重複記事レポート</h1>
+          <p className="text-gray-600">
+            タイトルと本文が重なっている記事をグループごとに表示します（{postsList.length}件の記事を比較）
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <label htmlFor="threshold" className="text-sm text-gray-700">
+            類似度のしきい値
+          </label>
+          <select
+            id="threshold"
+            value={threshold}
+            onChange={(e) => setThreshold(parseFloat(e.target.value))}
+            className="form-input w-28"
+          >
+            {THRESHOLD_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {formatSimilarity(option)}以上
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {clusters.length === 0 ? (
+        <div className="text-center py-12">
+          <CheckCircle2 className="mx-auto h-12 w-12 text-green-500" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">
+            重複している記事は見つかりませんでした
+          </h3>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {clusters.map((cluster, index) => (
+            <div key={cluster.posts.map((post) => post.id).join('-')} className="card">
+              <div className="card-header flex items-center justify-between">
+                <h3 className="flex items-center text-lg font-medium text-gray-900">
+                  <Copy className="w-5 h-5 mr-2 text-yellow-500" />
+                  グループ{index + 1}
+                  <span className="ml-2 text-sm font-normal text-gray-500">{cluster.posts.length}件</span>
+                </h3>
+                <span className="text-sm font-medium text-gray-700">
+                  最大類似度 {formatSimilarity(cluster.max_score)}
+                </span>
+              </div>
+              <div className="card-body space-y-4">
+                <ul className="divide-y divide-gray-200">
+                  {cluster.posts.map((post) => (
+                    <li key={post.id} className="flex items-center justify-between py-2">
+                      <div className="min-w-0 mr-4">
+                        <Link
+                          to={`/sites/${siteId}/posts/${post.id}`}
+                          className="text-sm font-medium text-gray-900 hover:text-primary-600"
+                        >
+                          {post.title}
+                        </Link>
+                        <p className="text-xs text-gray-500">
+                          {format(new Date(post.created_at), 'yyyy/MM/dd', { locale: ja })}
+                        </p>
+                      </div>
+                      {getStatusBadge(post.status)}
+                    </li>
+                  ))}
+                </ul>
+                <div className="text-xs text-gray-500 space-y-1">
+                  {cluster.pairs.map((pair) => {
+                    const titleOf = (id: string) => cluster.posts.find((post) => post.id === id)?.title;
+                    return (
+                      <p key={`${pair.a}-${pair.b}`}>
+                        「{titleOf(pair.a)}」と「{titleOf(pair.b)}」: {formatSimilarity(pair.score)}
+                      </p>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DuplicatesPage;
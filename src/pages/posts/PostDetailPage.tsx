@@ -1,15 +1,34 @@
+import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { useParams, Link } from 'react-router-dom';
 import { apiService } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
 import Button from '../../components/ui/Button';
 import Badge from '../../components/ui/Badge';
-import { ArrowLeft, Edit, Calendar, Tag } from 'lucide-react';
+import CompliancePanel from '../../components/compliance/CompliancePanel';
+import RevisionHistory from '../../components/posts/RevisionHistory';
+import SeoPanel from '../../components/seo/SeoPanel';
+import KeywordCheckPanel from '../../components/claude/KeywordCheckPanel';
+import SubmitReviewDialog from '../../components/reviews/SubmitReviewDialog';
+import ReviewDecisionDialog from '../../components/reviews/ReviewDecisionDialog';
+import { PostReview, ReviewDecision } from '../../types';
+import { getSiteComplianceRules } from '../../utils/compliance';
+import { validateArticleKeywords } from '../../utils/keywords';
+import { canDecideReview, canPublishPost, canSubmitForReview } from '../../utils/reviews';
+import { sanitizeHtml } from '../../utils/sanitize';
+import { analyzeSeo } from '../../utils/seo';
+import { ArrowLeft, Edit, Calendar, Tag, ClipboardCheck } from 'lucide-react';
+import { clsx } from 'clsx';
 import { format } from 'date-fns';
 import { ja } from 'date-fns/locale';
 
 const PostDetailPage = () => {
   const { siteId, id } = useParams<{ siteId: string; id: string }>();
+  const { user } = useAuth();
+  const [reviewRequestOpen, setReviewRequestOpen] = useState(false);
+  const [reviewDecision, setReviewDecision] = useState<ReviewDecision | null>(null);
+  const [activeTab, setActiveTab] = useState<'content' | 'history'>('content');
 
   const { data: post, isLoading } = useQuery({
     queryKey: ['post', siteId, id],
@@ -23,6 +42,21 @@ const PostDetailPage = () => {
     enabled: !!siteId,
   });
 
+  const { data: reviews } = useQuery({
+    queryKey: ['post', siteId, id, 'reviews'],
+    queryFn: () => apiService.getPostReviews(siteId!, id!),
+    enabled: !!siteId && !!id,
+  });
+
+  // Drafts generated by Claude are checked against the request's keyword settings
+  const claudeRequestId: string | undefined = post?.data?.claude_request_id;
+  const { data: claudeRequest } = useQuery({
+    queryKey: ['claude-request', siteId, claudeRequestId],
+    queryFn: () => apiService.getClaudeRequest(siteId!, claudeRequestId!),
+    enabled: !!siteId && !!claudeRequestId,
+  });
+  const articleConfig = claudeRequest?.data?.request_data?.article_config;
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -45,10 +79,19 @@ const PostDetailPage = () => {
   }
 
   const postData = post.data;
+  const reviewsList: PostReview[] = reviews?.data || [];
+
+  const contentTabs = [
+    { value: 'content' as const, label: '本文' },
+    { value: 'history' as const, label: '履歴' },
+  ];
 
   const getStatusBadge = (status: string) => {
     const statusMap = {
       draft: { variant: 'secondary' as const, label: '下書き' },
+      in_review: { variant: 'warning' as const, label: 'レビュー中' },
+      changes_requested: { variant: 'error' as const, label: '差し戻し' },
+      approved: { variant: 'success' as const, label: '承認済み' },
       scheduled: { variant: 'info' as const, label: '予定投稿' },
       published: { variant: 'success' as const, label: '公開済み' },
       failed: { variant: 'error' as const, label: '失敗' },
@@ -95,12 +138,31 @@ const PostDetailPage = () => {
               <h2 className="text-xl font-semibold text-gray-900">
                 {postData.title}
               </h2>
+              <nav className="mt-4 -mb-4 flex space-x-6">
+                {contentTabs.map((tab) => (
+                  <button
+                    key={tab.value}
+                    type="button"
+                    onClick={() => setActiveTab(tab.value)}
+                    className={clsx(
+                      'pb-3 text-sm font-medium border-b-2 transition-colors',
+                      activeTab === tab.value
+                        ? 'border-primary-600 text-primary-600'
+                        : 'border-transparent text-gray-500 hover:text-gray-700'
+                    )}
+                  >
+                    {tab.label}
+                  </button>
+                ))}
+              </nav>
             </div>
             <div className="card-body">
-              {postData.content ? (
+              {activeTab === 'history' ? (
+                <RevisionHistory siteId={siteId!} post={postData} />
+              ) : postData.content ? (
                 <div 
-                  className="prose prose-sm max-w-none"
-                  dangerouslySetInnerHTML={{ __html: postData.content }}
+                  className="article-content prose prose-sm max-w-none"
+                  dangerouslySetInnerHTML={{ __html: sanitizeHtml(postData.content) }}
                 />
               ) : (
                 <p className="text-gray-500 italic">記事内容がありません</p>
@@ -108,6 +170,40 @@ const PostDetailPage = () => {
             </div>
           </div>
 
+          {/* Compliance Check */}
+          {postData.content && (
+            <CompliancePanel
+              content={postData.content}
+              rules={getSiteComplianceRules(site?.data)}
+              overrides={postData.compliance_overrides}
+            />
+          )}
+
+          {/* Keyword Check */}
+          {postData.content && articleConfig && (
+            <KeywordCheckPanel
+              validation={validateArticleKeywords(
+                postData.content,
+                articleConfig.keywords,
+                articleConfig.exclude_keywords
+              )}
+              keywords={articleConfig.keywords || []}
+            />
+          )}
+
+          {/* SEO Analysis */}
+          {postData.content && (
+            <SeoPanel
+              analysis={analyzeSeo({
+                title: postData.title || '',
+                content: postData.content,
+                metaDescription: postData.meta_description,
+                keyword: postData.focus_keyword,
+                siteUrl: site?.data?.url,
+              })}
+            />
+          )}
+
           {/* Meta Description */}
           {postData.meta_description && (
             <div className="card">
@@ -211,6 +307,42 @@ const PostDetailPage = () => {
             </div>
           </div>
 
+          {/* Review History */}
+          {(postData.reviewer_name || reviewsList.length > 0) && (
+            <div className="card">
+              <div className="card-header">
+                <h3 className="text-lg font-medium text-gray-900 flex items-center">
+                  <ClipboardCheck className="w-4 h-4 mr-2" />
+                  薬剤師レビュー
+                </h3>
+              </div>
+              <div className="card-body space-y-4">
+                {postData.reviewer_name && (
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500">レビュー担当者</dt>
+                    <dd className="mt-1 text-sm text-gray-900">{postData.reviewer_name}</dd>
+                  </div>
+                )}
+                {reviewsList.map((review) => (
+                  <div key={review.id} className="border-t border-gray-100 pt-3">
+                    <div className="flex items-center justify-between">
+                      <Badge variant={review.decision === 'approve' ? 'success' : 'error'}>
+                        {review.decision === 'approve' ? '承認' : '差し戻し'}
+                      </Badge>
+                      <span className="text-xs text-gray-500">
+                        {format(new Date(review.created_at), 'yyyy/MM/dd HH:mm', { locale: ja })}
+                      </span>
+                    </div>
+                    <p className="mt-2 text-sm text-gray-700 whitespace-pre-wrap">{review.comment}</p>
+                    {review.reviewer_name && (
+                      <p className="mt-1 text-xs text-gray-500">{review.reviewer_name}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Topic Info */}
           {postData.topic_title && (
             <div className="card">
@@ -267,7 +399,34 @@ const PostDetailPage = () => {
                 編集
               </Button>
               
-              {postData.status === 'draft' && postData.content && (
+              {canSubmitForReview(postData) && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => setReviewRequestOpen(true)}
+                >
+                  レビューを依頼
+                </Button>
+              )}
+
+              {canDecideReview(postData, user) && (
+                <>
+                  <Button size="sm" className="w-full" onClick={() => setReviewDecision('approve')}>
+                    承認
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => setReviewDecision('reject')}
+                  >
+                    差し戻し
+                  </Button>
+                </>
+              )}
+
+              {canPublishPost(postData) && (
                 <Button size="sm" className="w-full">
                   公開
                 </Button>
@@ -286,6 +445,21 @@ const PostDetailPage = () => {
           </div>
         </div>
       </div>
+
+      <SubmitReviewDialog
+        isOpen={reviewRequestOpen}
+        onClose={() => setReviewRequestOpen(false)}
+        post={postData}
+        siteId={siteId!}
+      />
+
+      <ReviewDecisionDialog
+        isOpen={!!reviewDecision}
+        onClose={() => setReviewDecision(null)}
+        post={postData}
+        decision={reviewDecision || 'approve'}
+        siteId={siteId!}
+      />
     </div>
   );
 };
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useParams, Link } from 'react-router-dom';
 import { apiService } from '../../services/api';
@@ -7,6 +7,15 @@ import Button from '../../components/ui/Button';
 import Badge from '../../components/ui/Badge';
 import PostModal from '../../components/posts/PostModal';
 import ConfirmDialog from '../../components/ui/ConfirmDialog';
+import ComplianceOverrideDialog from '../../components/compliance/ComplianceOverrideDialog';
+import SubmitReviewDialog from '../../components/reviews/SubmitReviewDialog';
+import { ComplianceHit, ComplianceOverride } from '../../types';
+import {
+  checkHtmlCompliance,
+  getBlockingHits,
+  getSiteComplianceRules,
+} from '../../utils/compliance';
+import { canPublishPost, canSubmitForReview } from '../../utils/reviews';
 import { 
   Plus, 
   FileText, 
@@ -15,7 +24,8 @@ import {
   Play, 
   Clock, 
   RefreshCw,
-  Eye
+  Eye,
+  Send
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { ja } from 'date-fns/locale';
@@ -29,6 +39,9 @@ const PostsPage = () => {
   const [deletingPost, setDeletingPost] = useState<any>(null);
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [currentPage, setCurrentPage] = useState(1);
+  const [compliancePost, setCompliancePost] = useState<any>(null);
+  const [blockingHits, setBlockingHits] = useState<ComplianceHit[]>([]);
+  const [reviewRequestPost, setReviewRequestPost] = useState<any>(null);
 
   const queryClient = useQueryClient();
 
@@ -61,11 +74,16 @@ const PostsPage = () => {
     },
   });
 
+  const complianceRules = useMemo(() => getSiteComplianceRules(site?.data), [site]);
+
   const publishMutation = useMutation({
-    mutationFn: (postId: string) => apiService.publishPost(siteId!, postId),
+    mutationFn: ({ postId, overrides }: { postId: string; overrides?: ComplianceOverride[] }) =>
+      apiService.publishPost(siteId!, postId, overrides ? { compliance_overrides: overrides } : undefined),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['posts', siteId] });
       toast.success('記事を投稿しました');
+      setCompliancePost(null);
+      setBlockingHits([]);
     },
     onError: (error: any) => {
       toast.error(error.response?.data?.error || '記事の投稿に失敗しました');
@@ -96,8 +114,29 @@ const PostsPage = () => {
     setDeleteDialogOpen(true);
   };
 
-  const handlePublish = (postId: string) => {
-    publishMutation.mutate(postId);
+  const handlePublish = (post: any) => {
+    const existingOverrides: ComplianceOverride[] = post.compliance_overrides || [];
+    const hits = getBlockingHits(
+      checkHtmlCompliance(`${post.title}\n${post.content}`, complianceRules),
+      existingOverrides
+    );
+
+    if (hits.length > 0) {
+      setCompliancePost(post);
+      setBlockingHits(hits);
+      return;
+    }
+
+    publishMutation.mutate({ postId: post.id });
+  };
+
+  const confirmComplianceOverride = (overrides: ComplianceOverride[]) => {
+    if (compliancePost) {
+      publishMutation.mutate({
+        postId: compliancePost.id,
+        overrides: [...(compliancePost.compliance_overrides || []), ...overrides],
+      });
+    }
   };
 
   const handleRetry = (postId: string) => {
@@ -118,6 +157,9 @@ const PostsPage = () => {
   const getStatusBadge = (status: string) => {
     const statusMap = {
       draft: { variant: 'secondary' as const, label: '下書き' },
+      in_review: { variant: 'warning' as const, label: 'レビュー中' },
+      changes_requested: { variant: 'error' as const, label: '差し戻し' },
+      approved: { variant: 'success' as const, label: '承認済み' },
       scheduled: { variant: 'info' as const, label: '予定投稿' },
       published: { variant: 'success' as const, label: '公開済み' },
       failed: { variant: 'error' as const, label: '失敗' },
@@ -133,6 +175,9 @@ const PostsPage = () => {
   const statusOptions = [
     { value: 'all', label: 'すべて' },
     { value: 'draft', label: '下書き' },
+    { value: 'in_review', label: 'レビュー中' },
+    { value: 'changes_requested', label: '差し戻し' },
+    { value: 'approved', label: '承認済み' },
     { value: 'scheduled', label: '予定投稿' },
     { value: 'published', label: '公開済み' },
     { value: 'failed', label: '失敗' },
@@ -250,6 +295,11 @@ const PostsPage = () => {
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     {getStatusBadge(post.status)}
+                    {post.reviewer_name && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        レビュー担当: {post.reviewer_name}
+                      </div>
+                    )}
                     {post.error_message && (
                       <div className="text-xs text-red-600 mt-1">
                         {post.error_message}
@@ -280,10 +330,19 @@ const PostsPage = () => {
                       >
                         <Edit className="w-4 h-4" />
                       </Button>
-                      {post.status === 'draft' && post.content && (
+                      {canSubmitForReview(post) && (
                         <Button
                           size="sm"
-                          onClick={() => handlePublish(post.id)}
+                          variant="outline"
+                          onClick={() => setReviewRequestPost(post)}
+                        >
+                          <Send className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {canPublishPost(post) && (
+                        <Button
+                          size="sm"
+                          onClick={() => handlePublish(post)}
                           loading={publishMutation.isPending}
                         >
                           <Play className="w-4 h-4" />
@@ -376,6 +435,23 @@ const PostsPage = () => {
         siteId={siteId!}
       />
 
+      {/* Review Request Dialog */}
+      <SubmitReviewDialog
+        isOpen={!!reviewRequestPost}
+        onClose={() => setReviewRequestPost(null)}
+        post={reviewRequestPost}
+        siteId={siteId!}
+      />
+
+      {/* Compliance Override Dialog */}
+      <ComplianceOverrideDialog
+        isOpen={!!compliancePost}
+        onClose={() => setCompliancePost(null)}
+        onConfirm={confirmComplianceOverride}
+        hits={blockingHits}
+        loading={publishMutation.isPending}
+      />
+
       {/* Delete Confirmation Dialog */}
       <ConfirmDialog
         isOpen={deleteDialogOpen}
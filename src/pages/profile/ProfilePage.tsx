@@ -4,12 +4,14 @@ import { useAuth } from '../../contexts/AuthContext';
 import { apiService } from '../../services/api';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
 import Button from '../../components/ui/Button';
-import { User, Lock, Mail, Edit } from 'lucide-react';
+import PriceTableEditor from '../../components/claude/PriceTableEditor';
+import { User, Lock, Mail, Edit, Coins } from 'lucide-react';
 import { clsx } from 'clsx';
 import toast from 'react-hot-toast';
 
 const ProfilePage = () => {
   const { user, updateUser } = useAuth();
+  const isAdmin = user?.role === 'admin';
   const [isEditingProfile, setIsEditingProfile] = useState(false);
   const [isChangingPassword, setIsChangingPassword] = useState(false);
   
@@ -412,6 +414,24 @@ const ProfilePage = () => {
         </div>
       </div>
 
+      {/* Claude Pricing: the table drives every site's budget check, so only admins edit it */}
+      {isAdmin && (
+        <div className="card">
+          <div className="card-header">
+            <h3 className="text-lg font-medium text-gray-900 flex items-center">
+              <Coins className="w-5 h-5 mr-2" />
+              Claude料金表
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              生成リクエストのコストと各サイトの月間予算の計算に使用されます
+            </p>
+          </div>
+          <div className="card-body">
+            <PriceTableEditor />
+          </div>
+        </div>
+      )}
+
       {/* Account Info */}
       <div className="card">
         <div className="card-header">
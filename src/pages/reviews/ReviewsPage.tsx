@@ -0,0 +1,254 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useParams, Link } from 'react-router-dom';
+import { apiService } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import LoadingSpinner from '../../components/ui/LoadingSpinner';
+import Button from '../../components/ui/Button';
+import Badge from '../../components/ui/Badge';
+import ReviewDecisionDialog from '../../components/reviews/ReviewDecisionDialog';
+import { ReviewDecision } from '../../types';
+import { canDecideReview } from '../../utils/reviews';
+import { ClipboardCheck, Check, X, Eye } from 'lucide-react';
+import { format } from 'date-fns';
+import { ja } from 'date-fns/locale';
+
+const ReviewsPage = () => {
+  const { siteId } = useParams<{ siteId: string }>();
+  const { user } = useAuth();
+  const [statusFilter, setStatusFilter] = useState<string>('in_review');
+  const [onlyMine, setOnlyMine] = useState(false);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [reviewingPost, setReviewingPost] = useState<any>(null);
+  const [decision, setDecision] = useState<ReviewDecision>('approve');
+
+  const { data: reviews, isLoading } = useQuery({
+    queryKey: ['reviews', siteId, statusFilter, onlyMine, currentPage],
+    queryFn: () => apiService.getReviewQueue(siteId!, {
+      page: currentPage,
+      limit: 20,
+      status: statusFilter,
+      ...(onlyMine && user && { reviewer_id: user.id }),
+    }),
+    enabled: !!siteId,
+  });
+
+  const { data: site } = useQuery({
+    queryKey: ['site', siteId],
+    queryFn: () => apiService.getSite(siteId!),
+    enabled: !!siteId,
+  });
+
+  const postsList = reviews?.data?.posts || [];
+  const pagination = reviews?.data || {};
+
+  const openDecision = (post: any, value: ReviewDecision) => {
+    setReviewingPost(post);
+    setDecision(value);
+  };
+
+  const getStatusBadge = (status: string) => {
+    const statusMap = {
+      in_review: { variant: 'warning' as const, label: 'レビュー中' },
+      changes_requested: { variant: 'error' as const, label: '差し戻し' },
+      approved: { variant: 'success' as const, label: '承認済み' },
+    };
+
+    const config = statusMap[status as keyof typeof statusMap] ||
+      { variant: 'secondary' as const, label: status };
+
+    return <Badge variant={config.variant}>{config.label}</Badge>;
+  };
+
+  const statusOptions = [
+    { value: 'in_review', label: 'レビュー待ち' },
+    { value: 'changes_requested', label: '差し戻し' },
+    { value: 'approved', label: '承認済み' },
+  ];
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="md:flex md:items-center md:justify-between">
+        <div className="flex-1 min-w-0">
+          <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:text-3xl sm:truncate">
+            薬剤師レビュー
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            {site?.data?.name} のレビュー待ち記事
+          </p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-medium text-gray-900">フィルター</h3>
+            <div className="flex items-center space-x-4">
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={onlyMine}
+                  onChange={(e) => {
+                    setOnlyMine(e.target.checked);
+                    setCurrentPage(1);
+                  }}
+                  className="h-4 w-4 mr-2 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                />
+                自分の担当のみ
+              </label>
+              <select
+                value={statusFilter}
+                onChange={(e) => {
+                  setStatusFilter(e.target.value);
+                  setCurrentPage(1);
+                }}
+                className="form-input"
+              >
+                {statusOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Review Queue */}
+      {postsList.length === 0 ? (
+        <div className="text-center py-12">
+          <ClipboardCheck className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">
+            該当する記事はありません
+          </h3>
+          <p className="mt-1 text-sm text-gray-500">
+            下書きからレビューを依頼するとここに表示されます
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  タイトル
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  ステータス
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  担当者
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  依頼日時
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  アクション
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {postsList.map((post: any) => (
+                <tr key={post.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{post.title}</div>
+                    {post.last_review_comment && (
+                      <div className="text-xs text-gray-500 mt-1 truncate max-w-xs">
+                        {post.last_review_comment}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {getStatusBadge(post.status)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {post.reviewer_name || '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {post.review_requested_at
+                      ? format(new Date(post.review_requested_at), 'yyyy/MM/dd HH:mm', { locale: ja })
+                      : '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <div className="flex items-center justify-end space-x-2">
+                      <Link to={`/sites/${siteId}/posts/${post.id}`}>
+                        <Button size="sm" variant="outline">
+                          <Eye className="w-4 h-4" />
+                        </Button>
+                      </Link>
+                      {canDecideReview(post, user) && (
+                        <>
+                          <Button size="sm" onClick={() => openDecision(post, 'approve')}>
+                            <Check className="w-4 h-4 mr-1" />
+                            承認
+                          </Button>
+                          <Button size="sm" variant="danger" onClick={() => openDecision(post, 'reject')}>
+                            <X className="w-4 h-4 mr-1" />
+                            差し戻し
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* Pagination */}
+          {pagination.totalPages > 1 && (
+            <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6">
+              <p className="text-sm text-gray-700">
+                <span className="font-medium">{pagination.total}</span> 件中{' '}
+                <span className="font-medium">{(currentPage - 1) * pagination.limit + 1}</span>{' '}
+                -{' '}
+                <span className="font-medium">
+                  {Math.min(currentPage * pagination.limit, pagination.total)}
+                </span>{' '}
+                件を表示
+              </p>
+              <div className="flex space-x-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setCurrentPage(currentPage - 1)}
+                  disabled={currentPage === 1}
+                >
+                  前へ
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setCurrentPage(currentPage + 1)}
+                  disabled={currentPage === pagination.totalPages}
+                >
+                  次へ
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Review Decision Dialog */}
+      <ReviewDecisionDialog
+        isOpen={!!reviewingPost}
+        onClose={() => setReviewingPost(null)}
+        post={reviewingPost}
+        decision={decision}
+        siteId={siteId!}
+      />
+    </div>
+  );
+};
+
+export default ReviewsPage;
@@ -0,0 +1,305 @@
+import { useState, useMemo, useEffect } from 'react';
+import { useQuery, useQueries, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { apiService } from '../../services/api';
+import LoadingSpinner from '../../components/ui/LoadingSpinner';
+import Button from '../../components/ui/Button';
+import Badge from '../../components/ui/Badge';
+import { useLocalStorage } from '../../hooks';
+import { StaggerSuggestion } from '../../types';
+import { createHolidayLookup, getSiteClosures } from '../../utils/holidays';
+import {
+  SiteSchedules,
+  bucketLoad,
+  buildLoadJobs,
+  findCollisions,
+  suggestStaggeredTimes,
+} from '../../utils/scheduleLoad';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, Cell } from 'recharts';
+import { addDays, format, startOfHour } from 'date-fns';
+import { ja } from 'date-fns/locale';
+import toast from 'react-hot-toast';
+
+const PROJECTION_DAYS = 7;
+
+const WINDOW_OPTIONS = [5, 15, 30, 60];
+
+const ScheduleLoadPage = () => {
+  const [threshold, setThreshold] = useLocalStorage('schedule-load-threshold', 3);
+  const [windowMinutes, setWindowMinutes] = useLocalStorage('schedule-load-window', 15);
+  const [excluded, setExcluded] = useState<string[]>([]);
+
+  const queryClient = useQueryClient();
+
+  const { data: sites, isLoading } = useQuery({
+    queryKey: ['sites'],
+    queryFn: () => apiService.getSites(),
+  });
+
+  const sitesList: any[] = useMemo(() => sites?.data || [], [sites]);
+
+  const schedulesBySite: any[][] = useQueries({
+    queries: sitesList.map((site) => ({
+      queryKey: ['schedules', site.id],
+      queryFn: () => apiService.getSchedules(site.id),
+    })),
+    combine: (results) => results.map((result) => result.data?.data || []),
+  });
+
+  const range = useMemo(() => {
+    const from = startOfHour(new Date());
+    return { from, to: addDays(from, PROJECTION_DAYS) };
+  }, []);
+
+  const entries: SiteSchedules[] = useMemo(
+    () =>
+      sitesList.map((site, index) => ({
+        site,
+        schedules: schedulesBySite[index] || [],
+        lookup: createHolidayLookup(getSiteClosures(site)),
+      })),
+    [sitesList, schedulesBySite]
+  );
+
+  const jobs = useMemo(() => buildLoadJobs(entries, range.from, range.to), [entries, range]);
+  const collisions = useMemo(() => findCollisions(jobs, windowMinutes, threshold), [jobs, windowMinutes, threshold]);
+  const suggestions = useMemo(
+    () => suggestStaggeredTimes(entries, jobs, windowMinutes, threshold),
+    [entries, jobs, windowMinutes, threshold]
+  );
+
+  // New suggestions start selected
+  useEffect(() => {
+    setExcluded([]);
+  }, [suggestions]);
+
+  const chartData = useMemo(() => {
+    const collidingHours = new Set(collisions.map((collision) => startOfHour(collision.start).getTime()));
+    return bucketLoad(jobs, range.from, range.to).map((bucket) => ({
+      ...bucket,
+      label: format(bucket.start, 'M/d HH時', { locale: ja }),
+      colliding: collidingHours.has(bucket.start.getTime()),
+    }));
+  }, [jobs, collisions, range]);
+
+  const selected = suggestions.filter((suggestion) => !excluded.includes(suggestion.schedule_id));
+
+  const applyMutation = useMutation({
+    mutationFn: async (items: StaggerSuggestion[]) => {
+      const results = await Promise.allSettled(
+        items.map((item) => apiService.updateScheduleTime(item.site_id, item.schedule_id, item.suggested_time))
+      );
+      return items.filter((_, index) => results[index].status === 'rejected');
+    },
+    onSuccess: (failed, items) => {
+      new Set(items.map((item) => item.site_id)).forEach((siteId) => {
+        queryClient.invalidateQueries({ queryKey: ['schedules', siteId] });
+      });
+      const applied = items.length - failed.length;
+      if (applied > 0) {
+        toast.success(`${applied}件のスケジュールの投稿時刻を変更しました`);
+      }
+      if (failed.length > 0) {
+        const names = failed.map((item) => `${item.site_name}（${item.current_time}）`).join('、');
+        toast.error(`${failed.length}件のスケジュールの投稿時刻を変更できませんでした: ${names}`);
+      }
+    },
+  });
+
+  const toggleSuggestion = (scheduleId: string) => {
+    setExcluded((prev) =>
+      prev.includes(scheduleId) ? prev.filter((id) => id !== scheduleId) : [...prev, scheduleId]
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">投稿負荷</h1>
+          <p className="text-gray-600">
+            今後{PROJECTION_DAYS}日間に全サイトのスケジュールが実行する記事生成・公開の件数です（{jobs.length}件）
+          </p>
+        </div>
+        <div className="flex items-center space-x-4">
+          <div className="flex items-center space-x-2">
+            <label htmlFor="window_minutes" className="text-sm text-gray-700">
+              同時とみなす間隔
+            </label>
+            <select
+              id="window_minutes"
+              value={windowMinutes}
+              onChange={(e) => setWindowMinutes(parseInt(e.target.value, 10))}
+              className="form-input w-24"
+            >
+              {WINDOW_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option}分
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center space-x-2">
+            <label htmlFor="threshold" className="text-sm text-gray-700">
+              同時実行の上限
+            </label>
+            <input
+              type="number"
+              id="threshold"
+              min={1}
+              value={threshold}
+              onChange={(e) => setThreshold(Math.max(parseInt(e.target.value, 10) || 1, 1))}
+              className="form-input w-20"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Load chart */}
+      <div className="card">
+        <div className="card-header">
+          <h3 className="text-lg font-medium text-gray-900">時間帯別の実行件数</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            赤い棒は上限を超える時間帯を含みます。時刻はこのブラウザのタイムゾーンで表示しています
+          </p>
+        </div>
+        <div className="card-body">
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" interval={23} />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Legend />
+              <Bar dataKey="generate" stackId="load" fill="#8B5CF6" name="記事生成＋公開">
+                {chartData.map((bucket) => (
+                  <Cell key={bucket.label} fill={bucket.colliding ? '#EF4444' : '#8B5CF6'} />
+                ))}
+              </Bar>
+              <Bar dataKey="publish" stackId="load" fill="#10B981" name="下書き公開">
+                {chartData.map((bucket) => (
+                  <Cell key={bucket.label} fill={bucket.colliding ? '#F87171' : '#10B981'} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Collisions */}
+      <div className="card">
+        <div className="card-header flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">
+            集中している時間帯
+            <span className="ml-2 text-sm font-normal text-gray-500">{collisions.length}件</span>
+          </h3>
+        </div>
+        <div className="card-body">
+          {collisions.length === 0 ? (
+            <div className="flex items-center text-sm text-gray-700">
+              <CheckCircle2 className="w-5 h-5 mr-2 text-green-500" />
+              {windowMinutes}分あたり{threshold}件を超える時間帯はありません
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {collisions.map((collision) => (
+                <li key={collision.start.getTime()} className="py-2 text-sm">
+                  <div className="flex items-center">
+                    <AlertTriangle className="w-4 h-4 mr-2 text-red-500" />
+                    <span className="font-medium text-gray-900">
+                      {format(collision.start, 'M月d日(E) HH:mm', { locale: ja })}〜
+                    </span>
+                    <Badge variant="error">{collision.jobs.length}件</Badge>
+                  </div>
+                  <p className="ml-6 mt-1 text-gray-500">
+                    {collision.jobs.map((job) => `${job.site_name}（${format(job.at, 'HH:mm')}）`).join('、')}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {/* Suggestions */}
+      {collisions.length > 0 && (
+        <div className="card">
+          <div className="card-header flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">投稿時刻の分散案</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Cron式で指定したスケジュールは変更の対象外です。適用すると投稿時間が「時刻指定」に変わります
+              </p>
+            </div>
+            <Button
+              onClick={() => applyMutation.mutate(selected)}
+              disabled={selected.length === 0}
+              loading={applyMutation.isPending}
+            >
+              選択した{selected.length}件を適用
+            </Button>
+          </div>
+          <div className="card-body">
+            {suggestions.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                集中しているのがCron式のスケジュールだけか、3時間以内に空いている時間帯がないため、分散案を作成できません
+              </p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 w-8" />
+                    <th className="py-2">サイト</th>
+                    <th className="py-2">現在の時刻</th>
+                    <th className="py-2">変更後</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {suggestions.map((suggestion) => (
+                    <tr key={suggestion.schedule_id}>
+                      <td className="py-2">
+                        <input
+                          type="checkbox"
+                          checked={!excluded.includes(suggestion.schedule_id)}
+                          onChange={() => toggleSuggestion(suggestion.schedule_id)}
+                          className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                        />
+                      </td>
+                      <td className="py-2">
+                        <Link
+                          to={`/sites/${suggestion.site_id}/schedules`}
+                          className="text-gray-900 hover:text-primary-600"
+                        >
+                          {suggestion.site_name}
+                        </Link>
+                      </td>
+                      <td className="py-2 text-gray-500">{suggestion.current_time}</td>
+                      <td className="py-2 font-medium text-gray-900">
+                        {suggestion.suggested_time}
+                        <span className="ml-2 text-xs font-normal text-gray-500">
+                          +{suggestion.offset_minutes}分
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScheduleLoadPage;
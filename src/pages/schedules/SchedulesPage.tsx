@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useParams } from 'react-router-dom';
 import { apiService } from '../../services/api';
@@ -6,7 +6,16 @@ import LoadingSpinner from '../../components/ui/LoadingSpinner';
 import Button from '../../components/ui/Button';
 import Badge from '../../components/ui/Badge';
 import ScheduleModal from '../../components/schedules/ScheduleModal';
+import ScheduleTopicPlan from '../../components/schedules/ScheduleTopicPlan';
+import CalendarExportPanel from '../../components/schedules/CalendarExportPanel';
 import ConfirmDialog from '../../components/ui/ConfirmDialog';
+import SeasonalPlanner from '../../components/seasonal/SeasonalPlanner';
+import { PromptTemplate, ScheduleBlackout } from '../../types';
+import { useSeasonalTopics } from '../../hooks';
+import { createHolidayLookup, getSiteClosures, getZonedDateKey } from '../../utils/holidays';
+import { countScheduledRuns, getBlackoutOn, getDaysUntilResume } from '../../utils/scheduling';
+import { TopicSourceContext } from '../../utils/topicSources';
+import { endOfMonth } from 'date-fns';
 import { 
   Plus, 
   Calendar, 
@@ -14,7 +23,8 @@ import {
   Trash2, 
   Play, 
   Pause,
-  Clock
+  Clock,
+  CalendarOff
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -45,6 +55,20 @@ const SchedulesPage = () => {
     enabled: !!siteId,
   });
 
+  const { data: approvedPosts } = useQuery({
+    queryKey: ['posts', siteId, 'approved'],
+    queryFn: () => apiService.getPosts(siteId!, { status: 'approved', limit: 100 }),
+    enabled: !!siteId,
+  });
+
+  const { data: templates } = useQuery({
+    queryKey: ['templates', siteId],
+    queryFn: () => apiService.getTemplates({ site_id: siteId }),
+    enabled: !!siteId,
+  });
+
+  const { topics: seasonalTopics } = useSeasonalTopics();
+
   const deleteMutation = useMutation({
     mutationFn: (scheduleId: string) => apiService.deleteSchedule(siteId!, scheduleId),
     onSuccess: () => {
@@ -70,8 +94,41 @@ const SchedulesPage = () => {
     },
   });
 
+  const resumeMutation = useMutation({
+    mutationFn: (scheduleId: string) => apiService.pauseSchedule(siteId!, scheduleId, null),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['schedules', siteId] });
+      queryClient.invalidateQueries({ queryKey: ['monthly-limit', siteId] });
+      toast.success('スケジュールを再開しました');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'スケジュールの再開に失敗しました');
+    },
+  });
+
   const schedulesList = schedules?.data || [];
   const limitData = monthlyLimit?.data || {};
+  const now = new Date();
+
+  const holidayLookup = useMemo(() => createHolidayLookup(getSiteClosures(site?.data)), [site]);
+
+  const topicContext: TopicSourceContext = useMemo(
+    () => ({
+      drafts: approvedPosts?.data?.posts || [],
+      seasonalTopics,
+      templates: (templates?.data || []) as PromptTemplate[],
+      region: site?.data?.region,
+    }),
+    [approvedPosts, seasonalTopics, templates, site]
+  );
+
+  // Remaining runs this month after holidays, blackouts and pauses
+  const monthProjection = useMemo(() => {
+    const start = new Date();
+    return countScheduledRuns(schedules?.data || [], start, endOfMonth(start), holidayLookup);
+  }, [schedules, holidayLookup]);
+  // Runs past the monthly limit will not post
+  const plannedThisMonth = Math.min(monthProjection.planned, Math.max(limitData.limit - limitData.currentCount, 0));
 
   const handleEdit = (schedule: any) => {
     setEditingSchedule(schedule);
@@ -124,6 +181,19 @@ const SchedulesPage = () => {
     return timeSlotMap[timeSlot as keyof typeof timeSlotMap] || timeSlot;
   };
 
+  const today = (schedule: any) => getZonedDateKey(now, schedule.timezone);
+
+  // Current and future blackouts; past ones are kept on the schedule but not listed
+  const upcomingBlackouts = (schedule: any): ScheduleBlackout[] =>
+    (schedule.blackouts || []).filter((blackout: ScheduleBlackout) => blackout.end >= today(schedule));
+
+  const getStatusBadge = (schedule: any) => {
+    if (!schedule.is_active) return <Badge variant="secondary">無効</Badge>;
+    if (getDaysUntilResume(schedule, now) !== null) return <Badge variant="warning">一時停止中</Badge>;
+    if (getBlackoutOn(schedule, today(schedule))) return <Badge variant="warning">休止期間中</Badge>;
+    return <Badge variant="success">アクティブ</Badge>;
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -162,6 +232,10 @@ const SchedulesPage = () => {
                 <p className="text-sm text-gray-500">
                   今月の投稿数: {limitData.currentCount} / {limitData.limit}
                 </p>
+                <p className="text-sm text-gray-500">
+                  今月の残り予定: {plannedThisMonth}件
+                  {monthProjection.suspended > 0 && `（休止期間・一時停止で${monthProjection.suspended}件減）`}
+                </p>
               </div>
               <div className="flex items-center">
                 <div className="w-32 bg-gray-200 rounded-full h-2 mr-3">
@@ -221,11 +295,7 @@ const SchedulesPage = () => {
                         <h3 className="text-lg font-medium text-gray-900">
                           {getFrequencyLabel(schedule.frequency)}
                         </h3>
-                        <Badge
-                          variant={schedule.is_active ? 'success' : 'secondary'}
-                        >
-                          {schedule.is_active ? 'アクティブ' : '無効'}
-                        </Badge>
+                        {getStatusBadge(schedule)}
                       </div>
                       <div className="mt-1 text-sm text-gray-500 space-y-1">
                         <div className="flex items-center">
@@ -243,11 +313,34 @@ const SchedulesPage = () => {
                             Cron: {schedule.cron_expression}
                           </div>
                         )}
+                        {getDaysUntilResume(schedule, now) !== null && (
+                          <div className="text-yellow-700">
+                            {schedule.paused_until.replace(/-/g, '/')}に自動で再開します（あと{getDaysUntilResume(schedule, now)}日）
+                          </div>
+                        )}
+                        {upcomingBlackouts(schedule).map((blackout) => (
+                          <div key={`${blackout.start}-${blackout.end}`} className="flex items-center">
+                            <CalendarOff className="w-4 h-4 mr-1" />
+                            休止期間: {blackout.start.replace(/-/g, '/')}〜{blackout.end.replace(/-/g, '/')}
+                            {blackout.reason && `（${blackout.reason}）`}
+                          </div>
+                        ))}
                       </div>
                     </div>
                   </div>
 
                   <div className="flex items-center space-x-2">
+                    {getDaysUntilResume(schedule, now) !== null && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => resumeMutation.mutate(schedule.id)}
+                        loading={resumeMutation.isPending}
+                      >
+                        <Play className="w-4 h-4 mr-1" />
+                        今すぐ再開
+                      </Button>
+                    )}
                     <Button
                       size="sm"
                       variant="outline"
@@ -284,6 +377,15 @@ const SchedulesPage = () => {
                   </div>
                 </div>
 
+                {schedule.is_active && (
+                  <ScheduleTopicPlan
+                    siteId={siteId!}
+                    schedule={schedule}
+                    context={topicContext}
+                    lookup={holidayLookup}
+                  />
+                )}
+
                 {/* Next Executions */}
                 {schedule.next_executions && schedule.next_executions.length > 0 && (
                   <div className="mt-4 pt-4 border-t border-gray-200">
@@ -313,6 +415,12 @@ const SchedulesPage = () => {
         </div>
       )}
 
+      {/* Calendar Export */}
+      <CalendarExportPanel siteId={siteId!} site={site?.data} schedules={schedulesList} lookup={holidayLookup} />
+
+      {/* Seasonal Topic Planner */}
+      <SeasonalPlanner siteId={siteId!} region={site?.data?.region} />
+
       {/* Schedule Modal */}
       <ScheduleModal
         isOpen={isModalOpen}
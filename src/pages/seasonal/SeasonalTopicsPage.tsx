@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import LoadingSpinner from '../../components/ui/LoadingSpinner';
+import Button from '../../components/ui/Button';
+import Badge from '../../components/ui/Badge';
+import ConfirmDialog from '../../components/ui/ConfirmDialog';
+import SeasonalTopicModal from '../../components/seasonal/SeasonalTopicModal';
+import { useSeasonalTopics } from '../../hooks';
+import { SeasonalTopic } from '../../types';
+import { DEFAULT_SEASONAL_TOPICS } from '../../utils/seasonal';
+import { Plus, Edit, Trash2, RotateCcw } from 'lucide-react';
+import { clsx } from 'clsx';
+
+const SeasonalTopicsPage = () => {
+  const { topics, isLoading, isCustomized, saveTopics, isSaving } = useSeasonalTopics();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingTopic, setEditingTopic] = useState<SeasonalTopic | null>(null);
+  const [modalMonth, setModalMonth] = useState(new Date().getMonth() + 1);
+  const [deletingTopic, setDeletingTopic] = useState<SeasonalTopic | null>(null);
+  const [resetDialogOpen, setResetDialogOpen] = useState(false);
+
+  const currentMonth = new Date().getMonth() + 1;
+
+  const openCreate = (month: number) => {
+    setEditingTopic(null);
+    setModalMonth(month);
+    setIsModalOpen(true);
+  };
+
+  const openEdit = (topic: SeasonalTopic) => {
+    setEditingTopic(topic);
+    setModalMonth(topic.month);
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingTopic(null);
+  };
+
+  const handleSave = (topic: SeasonalTopic) => {
+    const exists = topics.some((item) => item.id === topic.id);
+    const nextTopics = exists
+      ? topics.map((item) => (item.id === topic.id ? topic : item))
+      : [...topics, topic];
+    saveTopics(nextTopics, { onSuccess: closeModal });
+  };
+
+  const confirmDelete = () => {
+    if (!deletingTopic) return;
+    saveTopics(
+      topics.filter((item) => item.id !== deletingTopic.id),
+      { onSuccess: () => setDeletingTopic(null) }
+    );
+  };
+
+  const confirmReset = () => {
+    saveTopics(DEFAULT_SEASONAL_TOPICS, { onSuccess: () => setResetDialogOpen(false) });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="md:flex md:items-center md:justify-between">
+        <div className="flex-1 min-w-0">
+          <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:text-3xl sm:truncate">
+            季節の健康トピック
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            月ごとのおすすめトピックは記事生成とスケジュール画面で提案されます
+          </p>
+        </div>
+        <div className="mt-4 flex space-x-3 md:mt-0 md:ml-4">
+          {isCustomized && (
+            <Button variant="outline" onClick={() => setResetDialogOpen(true)}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              初期設定に戻す
+            </Button>
+          )}
+          <Button onClick={() => openCreate(currentMonth)}>
+            <Plus className="w-4 h-4 mr-2" />
+            トピックを追加
+          </Button>
+        </div>
+      </div>
+
+      {/* Monthly Calendar */}
+      <div className="grid grid-cols-1 gap-5 md:grid-cols-2 xl:grid-cols-3">
+        {Array.from({ length: 12 }, (_, index) => index + 1).map((month) => {
+          const monthTopics = topics.filter((topic) => topic.month === month);
+          return (
+            <div
+              key={month}
+              className={clsx('card', month === currentMonth && 'ring-2 ring-primary-500')}
+            >
+              <div className="card-header flex items-center justify-between">
+                <h3 className="text-lg font-medium text-gray-900">{month}月</h3>
+                <Button size="sm" variant="outline" onClick={() => openCreate(month)}>
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+              <div className="card-body">
+                {monthTopics.length === 0 ? (
+                  <p className="text-sm text-gray-500">トピックがありません</p>
+                ) : (
+                  <ul className="divide-y divide-gray-200">
+                    {monthTopics.map((topic) => (
+                      <li key={topic.id} className="py-2 flex items-start justify-between">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-gray-900">{topic.topic}</p>
+                          <div className="mt-1 flex flex-wrap gap-1">
+                            {topic.regions.length > 0 ? (
+                              topic.regions.map((region) => (
+                                <Badge key={region} variant="info">{region}</Badge>
+                              ))
+                            ) : (
+                              <Badge variant="secondary">全国</Badge>
+                            )}
+                          </div>
+                          {topic.keywords.length > 0 && (
+                            <p className="mt-1 text-xs text-gray-500">{topic.keywords.join(', ')}</p>
+                          )}
+                          {topic.note && <p className="mt-1 text-xs text-gray-400">{topic.note}</p>}
+                        </div>
+                        <div className="flex items-center space-x-1 ml-2 flex-shrink-0">
+                          <button
+                            type="button"
+                            className="p-1 text-gray-400 hover:text-gray-600"
+                            onClick={() => openEdit(topic)}
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                          <button
+                            type="button"
+                            className="p-1 text-gray-400 hover:text-red-600"
+                            onClick={() => setDeletingTopic(topic)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Topic Modal */}
+      <SeasonalTopicModal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        onSave={handleSave}
+        topic={editingTopic}
+        defaultMonth={modalMonth}
+        isLoading={isSaving}
+      />
+
+      {/* Delete Confirmation */}
+      <ConfirmDialog
+        isOpen={!!deletingTopic}
+        onClose={() => setDeletingTopic(null)}
+        onConfirm={confirmDelete}
+        title="季節トピックを削除"
+        message={`「${deletingTopic?.topic}」を削除してもよろしいですか？`}
+        confirmText="削除"
+        type="danger"
+      />
+
+      {/* Reset Confirmation */}
+      <ConfirmDialog
+        isOpen={resetDialogOpen}
+        onClose={() => setResetDialogOpen(false)}
+        onConfirm={confirmReset}
+        title="初期設定に戻す"
+        message="編集した季節トピックをすべて破棄し、標準のカレンダーに戻します。"
+        confirmText="初期設定に戻す"
+        type="warning"
+      />
+    </div>
+  );
+};
+
+export default SeasonalTopicsPage;
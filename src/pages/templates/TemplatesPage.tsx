@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiService } from '../../services/api';
+import LoadingSpinner from '../../components/ui/LoadingSpinner';
+import Button from '../../components/ui/Button';
+import Badge from '../../components/ui/Badge';
+import ConfirmDialog from '../../components/ui/ConfirmDialog';
+import TemplateModal from '../../components/templates/TemplateModal';
+import TemplateVersionsDialog from '../../components/templates/TemplateVersionsDialog';
+import { PromptTemplate } from '../../types';
+import { ARTICLE_TONE_LABELS } from '../../utils/templates';
+import { Plus, LayoutTemplate, Edit, History, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { ja } from 'date-fns/locale';
+import toast from 'react-hot-toast';
+
+const TemplatesPage = () => {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<PromptTemplate | null>(null);
+  const [historyTemplate, setHistoryTemplate] = useState<PromptTemplate | null>(null);
+  const [deletingTemplate, setDeletingTemplate] = useState<PromptTemplate | null>(null);
+
+  const queryClient = useQueryClient();
+
+  const { data: templates, isLoading } = useQuery({
+    queryKey: ['templates'],
+    queryFn: () => apiService.getTemplates(),
+  });
+
+  const { data: sites } = useQuery({
+    queryKey: ['sites'],
+    queryFn: () => apiService.getSites(),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiService.deleteTemplate(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['templates'] });
+      toast.success('テンプレートを削除しました');
+      setDeletingTemplate(null);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'テンプレートの削除に失敗しました');
+    },
+  });
+
+  const templatesList: PromptTemplate[] = templates?.data || [];
+
+  const getSiteName = (siteId: string | null) => {
+    if (!siteId) return null;
+    return (sites?.data || []).find((site: any) => site.id === siteId)?.name || siteId;
+  };
+
+  const handleEdit = (template: PromptTemplate) => {
+    setEditingTemplate(template);
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingTemplate(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="md:flex md:items-center md:justify-between">
+        <div className="flex-1 min-w-0">
+          <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:text-3xl sm:truncate">
+            プロンプトテンプレート
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Claude記事生成で使う構成・トーン・キーワードの組み合わせを管理します
+          </p>
+        </div>
+        <div className="mt-4 flex md:mt-0 md:ml-4">
+          <Button onClick={() => setIsModalOpen(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            新しいテンプレート
+          </Button>
+        </div>
+      </div>
+
+      {/* Templates List */}
+      {templatesList.length === 0 ? (
+        <div className="text-center py-12">
+          <LayoutTemplate className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">
+            テンプレートがありません
+          </h3>
+          <p className="mt-1 text-sm text-gray-500">
+            よく使う記事の構成をテンプレートとして保存しましょう
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  テンプレート
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  利用サイト
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  トーン / 文字数
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  バージョン
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  更新日時
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  アクション
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {templatesList.map((template) => (
+                <tr key={template.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">{template.name}</div>
+                    <div className="text-sm text-gray-500 truncate max-w-xs">
+                      {template.description || template.structure}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {template.site_id ? (
+                      <span className="text-sm text-gray-700">{getSiteName(template.site_id)}</span>
+                    ) : (
+                      <Badge variant="info">全サイト共有</Badge>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {ARTICLE_TONE_LABELS[template.tone] || template.tone} / {template.target_length}文字
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    v{template.version}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {format(new Date(template.updated_at), 'yyyy/MM/dd HH:mm', { locale: ja })}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <div className="flex items-center justify-end space-x-2">
+                      <Button size="sm" variant="outline" onClick={() => handleEdit(template)}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setHistoryTemplate(template)}>
+                        <History className="w-4 h-4" />
+                      </Button>
+                      <Button size="sm" variant="danger" onClick={() => setDeletingTemplate(template)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Template Modal */}
+      <TemplateModal isOpen={isModalOpen} onClose={closeModal} template={editingTemplate} />
+
+      {/* Version History */}
+      <TemplateVersionsDialog
+        isOpen={!!historyTemplate}
+        onClose={() => setHistoryTemplate(null)}
+        template={historyTemplate}
+      />
+
+      {/* Delete Confirmation */}
+      <ConfirmDialog
+        isOpen={!!deletingTemplate}
+        onClose={() => setDeletingTemplate(null)}
+        onConfirm={() => deletingTemplate && deleteMutation.mutate(deletingTemplate.id)}
+        title="テンプレートを削除"
+        message={`「${deletingTemplate?.name}」を削除します。このテンプレートで生成済みの記事には影響しません。`}
+        confirmText="削除"
+        type="danger"
+      />
+    </div>
+  );
+};
+
+export default TemplatesPage;
@@ -1,5 +1,6 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import toast from 'react-hot-toast';
+import { ClaudeModelPrice, ComplianceOverride, ReviewDecision, ScheduleTopicSource, SeasonalTopic } from '../types';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
 
@@ -147,8 +148,8 @@ class ApiService {
     return response.data;
   }
 
-  async publishPost(siteId: string, id: string) {
-    const response = await this.client.post(`/${siteId}/posts/${id}/publish`);
+  async publishPost(siteId: string, id: string, data?: { compliance_overrides?: ComplianceOverride[] }) {
+    const response = await this.client.post(`/${siteId}/posts/${id}/publish`, data);
     return response.data;
   }
 
@@ -169,11 +170,68 @@ class ApiService {
     return response.data;
   }
 
+  async getPostRevisions(siteId: string, id: string) {
+    const response = await this.client.get(`/${siteId}/posts/${id}/revisions`);
+    return response.data;
+  }
+
+  async restorePostRevision(siteId: string, id: string, revisionId: string) {
+    const response = await this.client.post(`/${siteId}/posts/${id}/revisions/${revisionId}/restore`);
+    return response.data;
+  }
+
+  // Review endpoints
+  async getReviewQueue(siteId: string, params?: { page?: number; limit?: number; status?: string; reviewer_id?: string }) {
+    const response = await this.client.get(`/${siteId}/reviews`, { params });
+    return response.data;
+  }
+
+  async getReviewers(siteId: string) {
+    const response = await this.client.get(`/${siteId}/reviewers`);
+    return response.data;
+  }
+
+  async submitPostForReview(siteId: string, id: string, reviewerId: string) {
+    const response = await this.client.post(`/${siteId}/posts/${id}/submit-review`, {
+      reviewer_id: reviewerId,
+    });
+    return response.data;
+  }
+
+  async reviewPost(siteId: string, id: string, decision: ReviewDecision, comment: string) {
+    const response = await this.client.post(`/${siteId}/posts/${id}/review`, {
+      decision,
+      comment,
+    });
+    return response.data;
+  }
+
+  async getPostReviews(siteId: string, id: string) {
+    const response = await this.client.get(`/${siteId}/posts/${id}/reviews`);
+    return response.data;
+  }
+
   // Claude endpoints
-  async generateArticle(siteId: string, requestData: any, createPost: boolean = true) {
+  async generateArticle(
+    siteId: string,
+    requestData: any,
+    createPost: boolean = true,
+    options?: { budgetOverride?: boolean; variants?: number }
+  ) {
     const response = await this.client.post(`/claude/${siteId}/generate`, {
       request_data: requestData,
       create_post: createPost,
+      ...(options?.budgetOverride && { budget_override: true }),
+      ...(options?.variants && { variants: options.variants }),
+    });
+    return response.data;
+  }
+
+  // Rewrites one section synchronously; the server records it as a Claude request
+  async rewriteArticleSection(siteId: string, requestData: any, options?: { budgetOverride?: boolean }) {
+    const response = await this.client.post(`/claude/${siteId}/rewrite-section`, {
+      request_data: requestData,
+      ...(options?.budgetOverride && { budget_override: true }),
     });
     return response.data;
   }
@@ -188,8 +246,8 @@ class ApiService {
     return response.data;
   }
 
-  async retryClaudeRequest(siteId: string, id: string) {
-    const response = await this.client.post(`/claude/${siteId}/requests/${id}/retry`);
+  async retryClaudeRequest(siteId: string, id: string, data?: { extra_instructions?: string }) {
+    const response = await this.client.post(`/claude/${siteId}/requests/${id}/retry`, data);
     return response.data;
   }
 
@@ -198,16 +256,97 @@ class ApiService {
     return response.data;
   }
 
+  async getClaudeVariantGroup(siteId: string, groupId: string) {
+    const response = await this.client.get(`/claude/${siteId}/variants/${groupId}`);
+    return response.data;
+  }
+
+  // Creates a post from the chosen variant and discards its siblings
+  async promoteClaudeVariant(siteId: string, groupId: string, requestId: string) {
+    const response = await this.client.post(`/claude/${siteId}/variants/${groupId}/promote`, {
+      request_id: requestId,
+    });
+    return response.data;
+  }
+
+  // EventSource cannot send headers, so the stream is opened with a short-lived
+  // ticket that only grants access to this site's stream, never the bearer token
+  async createClaudeStreamTicket(siteId: string) {
+    const response = await this.client.post(`/claude/${siteId}/requests/stream-ticket`);
+    return response.data;
+  }
+
+  getClaudeStreamUrl(siteId: string, ticket: string) {
+    return `${API_BASE_URL}/claude/${siteId}/requests/stream?ticket=${encodeURIComponent(ticket)}`;
+  }
+
   async getClaudeStats(siteId: string) {
     const response = await this.client.get(`/claude/${siteId}/stats`);
     return response.data;
   }
 
+  async getClaudeUsage(params?: { site_id?: string; from?: string; to?: string }) {
+    const response = await this.client.get('/claude/usage', { params });
+    return response.data;
+  }
+
+  async getClaudePricing() {
+    const response = await this.client.get('/claude/pricing');
+    return response.data;
+  }
+
+  async updateClaudePricing(prices: ClaudeModelPrice[]) {
+    const response = await this.client.put('/claude/pricing', { prices });
+    return response.data;
+  }
+
   async testClaudeConnection() {
     const response = await this.client.get('/claude/test-connection');
     return response.data;
   }
 
+  // Prompt template endpoints
+  async getTemplates(params?: { site_id?: string }) {
+    const response = await this.client.get('/templates', { params });
+    return response.data;
+  }
+
+  async getTemplate(id: string) {
+    const response = await this.client.get(`/templates/${id}`);
+    return response.data;
+  }
+
+  async createTemplate(data: any) {
+    const response = await this.client.post('/templates', data);
+    return response.data;
+  }
+
+  async updateTemplate(id: string, data: any) {
+    const response = await this.client.put(`/templates/${id}`, data);
+    return response.data;
+  }
+
+  async deleteTemplate(id: string) {
+    const response = await this.client.delete(`/templates/${id}`);
+    return response.data;
+  }
+
+  async getTemplateVersions(id: string) {
+    const response = await this.client.get(`/templates/${id}/versions`);
+    return response.data;
+  }
+
+  // Seasonal topic endpoints
+  async getSeasonalTopics() {
+    const response = await this.client.get('/seasonal-topics');
+    return response.data;
+  }
+
+  async saveSeasonalTopics(topics: SeasonalTopic[]) {
+    const response = await this.client.put('/seasonal-topics', { topics });
+    return response.data;
+  }
+
   // Schedule endpoints
   async getSchedules(siteId: string) {
     const response = await this.client.get(`/${siteId}/schedules`);
@@ -241,6 +380,46 @@ class ApiService {
     return response.data;
   }
 
+  async pauseSchedule(siteId: string, id: string, pausedUntil: string | null) {
+    const response = await this.client.post(`/${siteId}/schedules/${id}/pause`, {
+      paused_until: pausedUntil,
+    });
+    return response.data;
+  }
+
+  // Changes only the posting time; the rest of the schedule is left as stored
+  async updateScheduleTime(siteId: string, id: string, specificTime: string) {
+    const response = await this.client.put(`/${siteId}/schedules/${id}/time`, {
+      time_slot: 'specific',
+      specific_time: specificTime,
+    });
+    return response.data;
+  }
+
+  async updateScheduleTopicSource(siteId: string, id: string, topicSource: ScheduleTopicSource) {
+    const response = await this.client.put(`/${siteId}/schedules/${id}/topic-source`, {
+      topic_source: topicSource,
+    });
+    return response.data;
+  }
+
+  // Read-only .ics feed of the site's posting calendar; data is null until one is issued
+  async getCalendarFeed(siteId: string) {
+    const response = await this.client.get(`/${siteId}/calendar-feed`);
+    return response.data;
+  }
+
+  // Issues a new token, which stops the previous feed URL from working
+  async regenerateCalendarFeed(siteId: string) {
+    const response = await this.client.post(`/${siteId}/calendar-feed`);
+    return response.data;
+  }
+
+  async revokeCalendarFeed(siteId: string) {
+    const response = await this.client.delete(`/${siteId}/calendar-feed`);
+    return response.data;
+  }
+
   async testSchedule(cronExpression: string) {
     const response = await this.client.post('/test-schedule', {
       cron_expression: cronExpression,
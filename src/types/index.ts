@@ -124,6 +124,9 @@ export interface SiteFormData {
   pharmacy_name: string;
   pharmacy_features: string;
   category_id?: number;
+  // null until the site saves its own voice; the server then uses its default wording
+  brand_voice?: BrandVoice | null;
+  closures?: SiteClosures;
 }
 
 export interface PostFormData {
@@ -132,6 +135,8 @@ export interface PostFormData {
   topic_id?: string;
   template_id?: string;
   scheduled_at?: string;
+  // "yyyy-MM-dd" the post is meant to go out on; planning only, never published from
+  planned_date?: string;
   meta_description?: string;
   tags?: string[];
 }
@@ -142,8 +147,12 @@ export interface ScheduleFormData {
   specific_time?: string;
   timezone: string;
   skip_holidays: boolean;
+  holiday_mode: HolidayMode;
   max_monthly_posts: number;
   cron_expression?: string;
+  blackouts: ScheduleBlackout[];
+  paused_until: string | null;
+  topic_source: ScheduleTopicSource;
 }
 
 export interface ClaudeRequestFormData {
@@ -163,4 +172,478 @@ export interface ClaudeRequestFormData {
     structure: string;
     seo_focus: boolean;
   };
-}
\ No newline at end of file
+}
+// Pharmaceutical Affairs Law (薬機法) compliance
+export type ComplianceSeverity = 'high' | 'medium' | 'low';
+
+export type ComplianceCategory =
+  | 'efficacy_guarantee'
+  | 'safety_guarantee'
+  | 'comparative_superiority'
+  | 'unapproved_indication'
+  | 'endorsement'
+  | 'custom';
+
+export interface ComplianceRule {
+  id: string;
+  pattern: string;
+  is_regex?: boolean;
+  category: ComplianceCategory;
+  severity: ComplianceSeverity;
+  description: string;
+  suggestion: string;
+}
+
+export interface ComplianceHit {
+  rule: ComplianceRule;
+  match: string;
+  start: number;
+  end: number;
+}
+
+export interface ComplianceOverride {
+  rule_id: string;
+  match: string;
+  reason: string;
+}
+
+// Pharmacist review workflow
+export type PostStatus =
+  | 'draft'
+  | 'in_review'
+  | 'changes_requested'
+  | 'approved'
+  | 'scheduled'
+  | 'published'
+  | 'failed'
+  | 'processing';
+
+export type ReviewDecision = 'approve' | 'reject';
+
+export interface PostReview {
+  id: string;
+  post_id: string;
+  reviewer_id: string;
+  reviewer_name?: string;
+  decision: ReviewDecision;
+  comment: string;
+  created_at: string;
+}
+
+export interface Reviewer {
+  id: string;
+  name: string;
+  email: string;
+}
+
+// Post revision history
+export type RevisionSource = 'claude' | 'manual' | 'restore';
+
+export interface PostRevision {
+  id: string;
+  post_id: string;
+  revision_number: number;
+  title: string;
+  content: string;
+  meta_description?: string;
+  source: RevisionSource;
+  author_id?: string;
+  author_name?: string;
+  created_at: string;
+}
+
+// SEO analysis
+export type SeoCheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface SeoCheck {
+  id: string;
+  label: string;
+  status: SeoCheckStatus;
+  message: string;
+}
+
+export interface SeoAnalysis {
+  score: number;
+  checks: SeoCheck[];
+}
+
+// Readability
+export interface ReadabilityTarget {
+  min_kanji_ratio: number;
+  max_kanji_ratio: number;
+  max_sentence_length: number;
+  min_joyo_ratio: number;
+  max_katakana_jargon_density: number;
+  max_passive_ratio: number;
+}
+
+export type ReadabilityIssueType = 'long_sentence' | 'kanji_dense' | 'rare_kanji' | 'katakana_jargon' | 'passive_voice';
+
+export interface ReadabilityIssue {
+  type: ReadabilityIssueType;
+  detail: string;
+}
+
+export interface ReadabilitySentence {
+  text: string;
+  start: number;
+  end: number;
+  issues: ReadabilityIssue[];
+}
+
+export interface ReadabilityMetrics {
+  character_count: number;
+  sentence_count: number;
+  kanji_ratio: number;
+  average_sentence_length: number;
+  joyo_ratio: number;
+  katakana_jargon_density: number;
+  passive_ratio: number;
+}
+
+export interface ReadabilityAnalysis {
+  metrics: ReadabilityMetrics;
+  sentences: ReadabilitySentence[];
+}
+
+// Prompt templates
+export type ArticleTone = 'professional' | 'friendly' | 'neutral';
+
+export interface PromptTemplateFields {
+  structure: string;
+  tone: ArticleTone;
+  target_length: number;
+  keywords: string[];
+  exclude_keywords: string[];
+  seo_focus: boolean;
+  extra_instructions: string;
+}
+
+export interface PromptTemplate extends PromptTemplateFields {
+  id: string;
+  name: string;
+  description?: string;
+  // null when the template is shared across all sites
+  site_id: string | null;
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PromptTemplateVersion extends PromptTemplateFields {
+  id: string;
+  template_id: string;
+  version: number;
+  author_name?: string;
+  created_at: string;
+}
+
+// Batch generation
+export interface BatchTopicRow {
+  topic: string;
+  keywords: string[];
+  tone?: ArticleTone;
+  target_length?: number;
+}
+
+export type BatchJobStatus = 'queued' | 'submitting' | 'submitted' | 'failed';
+
+export interface BatchJob {
+  key: string;
+  site_id: string;
+  site_name: string;
+  row: BatchTopicRow;
+  request_data: any;
+  status: BatchJobStatus;
+  request_id?: string;
+  error?: string;
+}
+
+// Seasonal topic calendar
+export interface SeasonalTopic {
+  id: string;
+  month: number; // 1-12
+  topic: string;
+  keywords: string[];
+  // Prefecture names; empty means the topic applies nationwide
+  regions: string[];
+  note?: string;
+}
+
+// Claude requests
+export type ClaudeRequestStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface ClaudeRequestSummary {
+  id: string;
+  status: ClaudeRequestStatus;
+  created_at: string;
+}
+
+export interface ClaudeRequest {
+  id: string;
+  site_id: string;
+  status: ClaudeRequestStatus;
+  request_data: any;
+  // Prompt text exactly as sent to the Claude API
+  prompt?: string;
+  raw_response?: string;
+  response_data?: any;
+  error_message?: string;
+  model?: string;
+  input_tokens?: number;
+  output_tokens?: number;
+  // JPY priced by the server when the request completed; later price table
+  // edits do not change it
+  cost?: number | null;
+  create_post?: boolean;
+  post_id?: string;
+  // Keyword check recorded by the server when the request completed. The server
+  // also makes the single auto-retry there, so it happens with no browser open
+  keyword_validation?: KeywordValidation | null;
+  // Request this one was retried from, and the retries made from this one
+  retry_of?: ClaudeRequestSummary | null;
+  retries?: ClaudeRequestSummary[];
+  // Set on sibling requests created together for comparison
+  variant_group_id?: string;
+  variant_index?: number;
+  discarded?: boolean;
+  created_at: string;
+  processed_at?: string;
+}
+
+export type ClaudeStreamMode = 'connecting' | 'sse' | 'polling';
+
+// Payload of `status` and `progress` events on the Claude request stream
+export interface ClaudeRequestProgress {
+  id: string;
+  status: ClaudeRequestStatus;
+  topic?: string;
+  partial_text?: string;
+  error_message?: string;
+  updated_at: string;
+}
+
+// Claude token usage and cost
+export interface ClaudeModelPrice {
+  model: string;
+  // JPY per one million tokens
+  input_per_million: number;
+  output_per_million: number;
+}
+
+export interface ClaudeUsageEntry {
+  site_id: string;
+  month: string; // yyyy-MM
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  request_count: number;
+  // Sum of the costs recorded at completion; missing for usage from before costs were stored
+  cost?: number | null;
+}
+
+export type BudgetStatus = 'ok' | 'warning' | 'exceeded';
+
+// Section rewrites
+export type SectionRewriteAction = 'regenerate' | 'shorten' | 'expand' | 'tone';
+
+export interface ArticleSection {
+  // Empty for the lead text before the first heading
+  heading: string;
+  level: number; // 0 for the lead, otherwise 2 or 3
+  // Character offsets into the article HTML
+  start: number;
+  end: number;
+  html: string;
+}
+
+export interface SectionRewriteResult {
+  // Claude request recorded for the rewrite
+  request_id: string;
+  html: string;
+  model?: string;
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+// Article variants
+export interface ArticleVariantMetrics {
+  seo_score: number;
+  readability_score: number;
+  character_count: number;
+  compliance_hits: number;
+}
+
+// Keyword enforcement
+export interface KeywordViolation {
+  keyword: string;
+  count: number;
+}
+
+export interface KeywordValidation {
+  // Required keywords that do not appear in any spelling
+  missing: string[];
+  // Excluded keywords that appear, with their occurrence count
+  excluded: KeywordViolation[];
+  passed: boolean;
+}
+
+// Duplicate detection
+export interface SimilarPost {
+  post: any;
+  score: number;
+  title_score: number;
+  // null when either side has no body to compare
+  content_score: number | null;
+}
+
+export interface DuplicateCluster {
+  posts: any[];
+  pairs: { a: string; b: string; score: number }[];
+  max_score: number;
+}
+
+// Brand voice
+export interface BrandPharmacist {
+  name: string;
+  credentials: string;
+}
+
+export interface BrandVoice {
+  // How the pharmacy refers to itself, e.g. 当薬局 or 私たち
+  first_person: string;
+  // How readers are addressed, e.g. 患者さま or みなさん
+  honorific: string;
+  pharmacists: BrandPharmacist[];
+  services: string[];
+  banned_phrases: string[];
+  sample_paragraphs: string[];
+}
+
+// Cron
+export interface ParsedCron {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  daysOfWeek: number[]; // 0 = Sunday
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+// Posting calendar
+export type CalendarEventKind = 'scheduled' | 'published' | 'failed' | 'slot' | 'skipped';
+
+export interface CalendarEvent {
+  id: string;
+  kind: CalendarEventKind;
+  site_id: string;
+  site_name: string;
+  date: Date;
+  title: string;
+  post?: any;
+  holiday?: Holiday;
+}
+
+// Holidays and closures
+export type HolidayKind = 'national' | 'substitute' | 'citizens' | 'year_end' | 'obon' | 'custom';
+
+export interface Holiday {
+  date: string;
+  name: string;
+  kind: HolidayKind;
+}
+
+export interface SiteClosures {
+  year_end: boolean;
+  obon: boolean;
+  custom_dates: { date: string; name: string }[];
+}
+
+export type HolidayMode = 'skip' | 'shift';
+
+export interface ScheduledRun {
+  scheduled_at: Date;
+  // null when the run is skipped for a holiday, blackout or pause
+  run_at: Date | null;
+  holiday?: Holiday;
+  blackout?: ScheduleBlackout;
+  paused?: boolean;
+}
+
+// Schedule blackouts and pauses
+export interface ScheduleBlackout {
+  // Inclusive "yyyy-MM-dd" dates in the schedule's time zone
+  start: string;
+  end: string;
+  reason: string;
+}
+
+// Schedule topic sources
+export type ScheduleTopicSourceType = 'rotation' | 'template' | 'seasonal' | 'draft_queue';
+
+export interface ScheduleTopicSource {
+  type: ScheduleTopicSourceType;
+  // Template that shapes the article generated for each topic; required for 'template'
+  template_id: string | null;
+  // 'rotation': topics in order. 'rotation' and 'template': the topic or
+  // template keyword the next firing uses
+  topics: string[];
+  next_index: number;
+  // 'draft_queue': approved post ids in publishing order
+  queue: string[];
+  // 'seasonal': seasonal topic ids left out of the rotation
+  skipped_ids: string[];
+  // 'seasonal': topic ids in the order firings used them, appended by the server
+  used_ids: string[];
+}
+
+export interface PlannedTopic {
+  key: string;
+  run_at: Date;
+  action: 'generate' | 'publish';
+  topic: string;
+  keywords: string[];
+  post_id?: string;
+  seasonal_topic_id?: string;
+}
+
+// Cross-site schedule load
+export type LoadJobKind = 'generate' | 'publish';
+
+export interface LoadJob {
+  site_id: string;
+  site_name: string;
+  schedule_id: string;
+  at: Date;
+  kind: LoadJobKind;
+}
+
+export interface LoadBucket {
+  start: Date;
+  generate: number;
+  publish: number;
+}
+
+export interface ScheduleCollision {
+  start: Date;
+  jobs: LoadJob[];
+}
+
+export interface StaggerSuggestion {
+  site_id: string;
+  site_name: string;
+  schedule_id: string;
+  current_time: string;
+  suggested_time: string;
+  offset_minutes: number;
+}
+
+// Calendar subscription feed
+export interface CalendarFeed {
+  // Secret part of the URL; anyone holding it can read the site's posting calendar
+  token: string;
+  // Public .ics URL served by the backend
+  url: string;
+  created_at: string;
+}
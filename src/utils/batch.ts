@@ -0,0 +1,192 @@
+/**
+ * Topic list parsing for batch article generation
+ */
+
+import { ArticleTone, BatchTopicRow } from '../types';
+
+export interface TopicListParseResult {
+  rows: BatchTopicRow[];
+  errors: { line: number; message: string }[];
+}
+
+const HEADER_ALIASES: Record<keyof BatchTopicRow, string[]> = {
+  topic: ['topic', 'トピック', 'テーマ', 'タイトル'],
+  keywords: ['keywords', 'keyword', 'キーワード'],
+  tone: ['tone', 'トーン'],
+  target_length: ['target_length', 'length', '文字数', '目標文字数'],
+};
+
+const POSITIONAL_COLUMNS: (keyof BatchTopicRow)[] = ['topic', 'keywords', 'tone', 'target_length'];
+
+const TONE_ALIASES: Record<string, ArticleTone> = {
+  professional: 'professional',
+  専門的: 'professional',
+  friendly: 'friendly',
+  親しみやすい: 'friendly',
+  neutral: 'neutral',
+  中立的: 'neutral',
+  中立: 'neutral',
+};
+
+export interface CsvRow {
+  // 1-based line of the source text the row starts on
+  line: number;
+  cells: string[];
+}
+
+/**
+ * Minimal RFC 4180 parser. Handles quoted fields with embedded delimiters,
+ * newlines and doubled quotes. Each row records the source line it starts
+ * on, so quoted newlines do not throw off error messages.
+ */
+export const parseCsv = (text: string, delimiter = ','): CsvRow[] => {
+  const source = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\n') line++;
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n') {
+      row.push(field.trim());
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      field = '';
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.trim() || row.length > 0) {
+    row.push(field.trim());
+    rows.push({ line: rowLine, cells: row });
+  }
+
+  return rows;
+};
+
+const matchHeader = (cell: string): keyof BatchTopicRow | null => {
+  const normalized = cell.trim().toLowerCase();
+  const entry = Object.entries(HEADER_ALIASES).find(([, aliases]) => aliases.includes(normalized));
+  return entry ? (entry[0] as keyof BatchTopicRow) : null;
+};
+
+const isBlank = (row: CsvRow) => row.cells.every((cell) => !cell);
+
+const hasHeaderRow = (table: CsvRow[]) =>
+  table.length > 0 && table[0].cells.some((cell) => matchHeader(cell) === 'topic');
+
+// Without a header, CSV needs at least two rows that all split into the same number of columns
+const hasConsistentColumns = (table: CsvRow[]) => {
+  const rows = table.filter((row) => !isBlank(row));
+  return rows.length > 1 && rows[0].cells.length > 1 && rows.every((row) => row.cells.length === rows[0].cells.length);
+};
+
+// Tab-separated input is what spreadsheets paste, so it is tried first
+const detectCsv = (text: string): CsvRow[] | null => {
+  for (const delimiter of ['\t', ',']) {
+    const table = parseCsv(text, delimiter);
+    if (hasHeaderRow(table) || hasConsistentColumns(table)) return table;
+  }
+  return null;
+};
+
+/**
+ * Parses a pasted or uploaded topic list. Input is read as CSV (or TSV) with
+ * the columns topic, keywords, tone, target_length when it has a header row
+ * naming them, or when every row has the same number of columns (then in
+ * that order). Anything else is one topic per line, commas included.
+ * Keywords within a cell are separated by `;`, `|` or `、`.
+ */
+export const parseTopicList = (text: string): TopicListParseResult => {
+  const csv = detectCsv(text);
+  const table: CsvRow[] =
+    csv ||
+    text
+      .replace(/^\uFEFF/, '')
+      .split(/\r\n?|\n/)
+      .map((line, index) => ({ line: index + 1, cells: [line.trim()] }));
+  const rows: BatchTopicRow[] = [];
+  const errors: { line: number; message: string }[] = [];
+
+  let columns = POSITIONAL_COLUMNS;
+  let startIndex = 0;
+
+  if (csv && hasHeaderRow(csv)) {
+    columns = csv[0].cells.map((cell) => matchHeader(cell)) as (keyof BatchTopicRow)[];
+    startIndex = 1;
+  }
+
+  for (let index = startIndex; index < table.length; index++) {
+    const { line, cells } = table[index];
+    if (isBlank(table[index])) continue;
+
+    const row: BatchTopicRow = { topic: '', keywords: [] };
+    let valid = true;
+
+    cells.forEach((cell, cellIndex) => {
+      const column = columns[cellIndex];
+      if (!column || !cell) return;
+
+      switch (column) {
+        case 'topic':
+          row.topic = cell;
+          break;
+        case 'keywords':
+          row.keywords = cell.split(/[;；|、]/).map((keyword) => keyword.trim()).filter(Boolean);
+          break;
+        case 'tone': {
+          const tone = TONE_ALIASES[cell.toLowerCase()];
+          if (tone) {
+            row.tone = tone;
+          } else {
+            errors.push({ line, message: `トーン「${cell}」は使用できません` });
+            valid = false;
+          }
+          break;
+        }
+        case 'target_length': {
+          const length = parseInt(cell.replace(/[,，文字]/g, ''), 10);
+          if (length >= 500 && length <= 5000) {
+            row.target_length = length;
+          } else {
+            errors.push({ line, message: '文字数は500〜5000の範囲で指定してください' });
+            valid = false;
+          }
+          break;
+        }
+      }
+    });
+
+    if (!row.topic) {
+      errors.push({ line, message: 'トピックが空です' });
+      valid = false;
+    }
+
+    if (valid) rows.push(row);
+  }
+
+  return { rows, errors };
+};
@@ -0,0 +1,55 @@
+/**
+ * Per-site brand voice profile merged into Claude generation requests
+ */
+
+import { BrandVoice } from '../types';
+
+export const FIRST_PERSON_OPTIONS = ['当薬局', '私たち', '当店'];
+
+export const BRAND_SERVICE_OPTIONS = [
+  '在宅医療',
+  '漢方相談',
+  'オンライン服薬指導',
+  '健康サポート薬局',
+  '24時間対応',
+  '無菌調剤',
+  '禁煙相談',
+  '栄養相談',
+];
+
+export const DEFAULT_BRAND_VOICE: BrandVoice = {
+  first_person: '当薬局',
+  honorific: 'みなさま',
+  pharmacists: [],
+  services: [],
+  banned_phrases: [],
+  sample_paragraphs: [],
+};
+
+export const getSiteBrandVoice = (site?: { brand_voice?: Partial<BrandVoice> | null } | null): BrandVoice => {
+  return { ...DEFAULT_BRAND_VOICE, ...(site?.brand_voice || {}) };
+};
+
+/**
+ * Trims every field and drops blank entries so that half-filled rows in the
+ * editor never reach the prompt.
+ */
+export const normalizeBrandVoice = (voice: BrandVoice): BrandVoice => {
+  const clean = (items: string[]) => items.map((item) => item.trim()).filter(Boolean);
+  return {
+    first_person: voice.first_person.trim(),
+    honorific: voice.honorific.trim(),
+    pharmacists: voice.pharmacists
+      .map((pharmacist) => ({ name: pharmacist.name.trim(), credentials: pharmacist.credentials.trim() }))
+      .filter((pharmacist) => pharmacist.name),
+    services: Array.from(new Set(clean(voice.services))),
+    banned_phrases: clean(voice.banned_phrases),
+    sample_paragraphs: clean(voice.sample_paragraphs),
+  };
+};
+
+// Sample paragraphs are edited as one textarea separated by blank lines
+export const parseSampleParagraphs = (text: string): string[] =>
+  text.split(/\n\s*\n/).map((paragraph) => paragraph.trim()).filter(Boolean);
+
+export const formatSampleParagraphs = (paragraphs: string[]): string => paragraphs.join('\n\n');
@@ -0,0 +1,278 @@
+/**
+ * Pharmaceutical Affairs Law (薬機法) compliance checking for post content
+ */
+
+import {
+  ComplianceCategory,
+  ComplianceHit,
+  ComplianceOverride,
+  ComplianceRule,
+} from '../types';
+import { stripHtml } from './formatters';
+
+export const COMPLIANCE_CATEGORY_LABELS: Record<ComplianceCategory, string> = {
+  efficacy_guarantee: '効能効果の保証',
+  safety_guarantee: '安全性の保証',
+  comparative_superiority: '他社・他製品との比較優位',
+  unapproved_indication: '承認外の効能効果',
+  endorsement: '医療関係者の推薦',
+  custom: 'サイト独自ルール',
+};
+
+export const DEFAULT_COMPLIANCE_RULES: ComplianceRule[] = [
+  {
+    id: 'efficacy-cure-guarantee',
+    pattern: '(必ず|絶対に?|確実に|100[%％]|誰でも)(治|効|よくな|良くな)[るりく]',
+    is_regex: true,
+    category: 'efficacy_guarantee',
+    severity: 'high',
+    description: '効能効果を保証する表現は医薬品等適正広告基準で禁止されています',
+    suggestion: '改善が期待できます',
+  },
+  {
+    id: 'efficacy-complete-cure',
+    pattern: '(完治|根治|完全に治)',
+    is_regex: true,
+    category: 'efficacy_guarantee',
+    severity: 'high',
+    description: '完治を断定する表現は効能効果の保証にあたります',
+    suggestion: '症状の緩和が期待できます',
+  },
+  {
+    id: 'efficacy-instant',
+    pattern: '(即効|すぐに効|飲むだけで)',
+    is_regex: true,
+    category: 'efficacy_guarantee',
+    severity: 'medium',
+    description: '効果の速さや手軽さを強調する表現は誇大広告とみなされる恐れがあります',
+    suggestion: '効果には個人差があります',
+  },
+  {
+    id: 'safety-no-side-effects',
+    pattern: '副作用(が|の)?(一切)?(ない|無い|なし|無し|ゼロ|の心配(は|が)?(ない|無い|ありません))',
+    is_regex: true,
+    category: 'safety_guarantee',
+    severity: 'high',
+    description: '副作用がないと断定する表現は安全性の保証にあたります',
+    suggestion: '副作用が比較的少ないとされています',
+  },
+  {
+    id: 'safety-absolute',
+    pattern: '(絶対に?安全|100[%％]安全|安全性が保証)',
+    is_regex: true,
+    category: 'safety_guarantee',
+    severity: 'high',
+    description: '安全性を保証する表現は禁止されています',
+    suggestion: '用法・用量を守って正しくお使いください',
+  },
+  {
+    id: 'comparative-best',
+    pattern: '(最高の効果|最も効く|一番効く|No\\.?\\s?1|ナンバーワン|業界一)',
+    is_regex: true,
+    category: 'comparative_superiority',
+    severity: 'high',
+    description: '最大級表現や比較優位の表現は他社製品の誹謗・誇大広告にあたる恐れがあります',
+    suggestion: '多くの方に選ばれています',
+  },
+  {
+    id: 'comparative-other-products',
+    pattern: '(他社|他の薬|他店|どこ)より(も)?(効|優|良|安全)',
+    is_regex: true,
+    category: 'comparative_superiority',
+    severity: 'high',
+    description: '他社製品との比較による優位性の表現は禁止されています',
+    suggestion: '特徴として〜が挙げられます',
+  },
+  {
+    id: 'unapproved-serious-disease',
+    pattern: '(がん|癌|ガン|糖尿病|高血圧|認知症)(が|に|を)(治|効|予防)',
+    is_regex: true,
+    category: 'unapproved_indication',
+    severity: 'high',
+    description: '重篤な疾病への効能を示す表現は承認外の効能効果にあたる恐れがあります',
+    suggestion: '気になる症状は医師・薬剤師にご相談ください',
+  },
+  {
+    id: 'unapproved-supplement-efficacy',
+    pattern: '(サプリ|サプリメント|健康食品|漢方茶)(で|を飲めば)[^。]{0,10}(治|改善|予防)',
+    is_regex: true,
+    category: 'unapproved_indication',
+    severity: 'high',
+    description: '健康食品に医薬品的な効能効果を表示することはできません',
+    suggestion: '健康維持にお役立てください',
+  },
+  {
+    id: 'unapproved-anti-aging',
+    pattern: '(若返[るり]|痩せる|やせる|脂肪が落ちる)',
+    is_regex: true,
+    category: 'unapproved_indication',
+    severity: 'medium',
+    description: '身体の組織機能の変化を暗示する表現は承認外の効能効果にあたる恐れがあります',
+    suggestion: '健やかな毎日をサポートします',
+  },
+  {
+    id: 'endorsement-doctor',
+    pattern: '(医師|薬剤師|専門家|病院)(も|が)(推薦|推奨|おすすめ|愛用|認めた)',
+    is_regex: true,
+    category: 'endorsement',
+    severity: 'medium',
+    description: '医療関係者が推薦している旨の表現は禁止されています',
+    suggestion: '詳しくは薬剤師にご相談ください',
+  },
+];
+
+const escapeRegExp = (value: string): string => {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+};
+
+const buildRuleRegExp = (rule: ComplianceRule): RegExp | null => {
+  try {
+    return new RegExp(rule.is_regex ? rule.pattern : escapeRegExp(rule.pattern), 'g');
+  } catch {
+    // A malformed custom pattern should not break the whole check
+    return null;
+  }
+};
+
+/**
+ * Returns the default rules merged with the site's own rules. Site rules with
+ * the same id replace the built-in rule.
+ */
+export const getSiteComplianceRules = (site?: { compliance_rules?: ComplianceRule[] } | null): ComplianceRule[] => {
+  const siteRules = site?.compliance_rules || [];
+  const overriddenIds = new Set(siteRules.map((rule) => rule.id));
+  return [
+    ...DEFAULT_COMPLIANCE_RULES.filter((rule) => !overriddenIds.has(rule.id)),
+    ...siteRules,
+  ];
+};
+
+/**
+ * Scans plain text for prohibited or risky expressions. Positions refer to
+ * the given text, so callers highlighting HTML content should pass the
+ * result of `stripHtml`.
+ */
+export const checkCompliance = (text: string, rules: ComplianceRule[]): ComplianceHit[] => {
+  const hits: ComplianceHit[] = [];
+
+  rules.forEach((rule) => {
+    const regex = buildRuleRegExp(rule);
+    if (!regex) return;
+
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        regex.lastIndex++;
+        continue;
+      }
+      hits.push({
+        rule,
+        match: match[0],
+        start: match.index,
+        end: match.index + match[0].length,
+      });
+    }
+  });
+
+  return hits.sort((a, b) => a.start - b.start || b.end - a.end);
+};
+
+export const checkHtmlCompliance = (html: string, rules: ComplianceRule[]): ComplianceHit[] => {
+  return checkCompliance(stripHtml(html), rules);
+};
+
+export const isHitOverridden = (hit: ComplianceHit, overrides: ComplianceOverride[]): boolean => {
+  return overrides.some(
+    (override) => override.rule_id === hit.rule.id && override.match === hit.match && override.reason.trim()
+  );
+};
+
+/**
+ * High-severity hits that have not been explicitly overridden with a reason.
+ * Publishing is blocked while this list is non-empty.
+ */
+export const getBlockingHits = (hits: ComplianceHit[], overrides: ComplianceOverride[] = []): ComplianceHit[] => {
+  return hits.filter((hit) => hit.rule.severity === 'high' && !isHitOverridden(hit, overrides));
+};
+
+/**
+ * Splits text into plain and highlighted segments for inline rendering.
+ * Overlapping hits are collapsed into the first (longest) one.
+ */
+export const segmentByHits = (
+  text: string,
+  hits: ComplianceHit[]
+): Array<{ text: string; hit?: ComplianceHit }> => {
+  const segments: Array<{ text: string; hit?: ComplianceHit }> = [];
+  let cursor = 0;
+
+  hits.forEach((hit) => {
+    if (hit.start < cursor) return;
+    if (hit.start > cursor) {
+      segments.push({ text: text.slice(cursor, hit.start) });
+    }
+    segments.push({ text: text.slice(hit.start, hit.end), hit });
+    cursor = hit.end;
+  });
+
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor) });
+  }
+
+  return segments;
+};
+
+/**
+ * Replaces the matched expression with the rule's suggested rewrite. The hit
+ * positions come from the stripped text, so the n-th occurrence of the match
+ * in the text is mapped to the n-th occurrence in the HTML source.
+ */
+export const applyComplianceSuggestion = (html: string, hit: ComplianceHit): string => {
+  const text = stripHtml(html);
+  let occurrence = 0;
+  let position = text.indexOf(hit.match);
+  while (position !== -1 && position < hit.start) {
+    occurrence++;
+    position = text.indexOf(hit.match, position + hit.match.length);
+  }
+
+  let htmlPosition = html.indexOf(hit.match);
+  for (let i = 0; i < occurrence && htmlPosition !== -1; i++) {
+    htmlPosition = html.indexOf(hit.match, htmlPosition + hit.match.length);
+  }
+  if (htmlPosition === -1) return html;
+
+  return html.slice(0, htmlPosition) + hit.rule.suggestion + html.slice(htmlPosition + hit.match.length);
+};
+
+/**
+ * Parses the site settings textarea format (`表現 => 推奨表現`, one per line)
+ * into custom high-severity rules. Ids are derived from the expression so
+ * that overrides stay attached to their rule when lines are reordered; a
+ * repeated expression keeps its first line.
+ */
+export const parseCustomComplianceRules = (text: string): ComplianceRule[] => {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+    .map((line) => {
+      const [pattern, suggestion] = line.split('=>').map((part) => part.trim());
+      return {
+        id: `custom:${pattern}`,
+        pattern,
+        category: 'custom' as const,
+        severity: 'high' as const,
+        description: 'サイト独自の禁止表現です',
+        suggestion: suggestion || '',
+      };
+    })
+    .filter((rule, index, rules) => rule.pattern && rules.findIndex((item) => item.id === rule.id) === index);
+};
+
+export const formatCustomComplianceRules = (rules: ComplianceRule[] = []): string => {
+  return rules
+    .filter((rule) => rule.category === 'custom')
+    .map((rule) => (rule.suggestion ? `${rule.pattern} => ${rule.suggestion}` : rule.pattern))
+    .join('\n');
+};
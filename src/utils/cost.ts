@@ -0,0 +1,86 @@
+/**
+ * Claude token cost calculation and monthly budget checks
+ */
+
+import { BudgetStatus, ClaudeModelPrice, ClaudeUsageEntry } from '../types';
+
+// Used when a request does not record its model (matches the server default)
+export const DEFAULT_CLAUDE_MODEL = 'claude-3-sonnet';
+
+export const DEFAULT_CLAUDE_PRICES: ClaudeModelPrice[] = [
+  { model: 'claude-3-haiku', input_per_million: 38, output_per_million: 188 },
+  { model: 'claude-3-sonnet', input_per_million: 450, output_per_million: 2250 },
+  { model: 'claude-3-5-sonnet', input_per_million: 450, output_per_million: 2250 },
+  { model: 'claude-3-opus', input_per_million: 2250, output_per_million: 11250 },
+];
+
+export const BUDGET_WARNING_RATIO = 0.8;
+
+/**
+ * Finds the price entry for a model id. Model ids carry a date suffix
+ * (e.g. "claude-3-sonnet-20240229"), so the longest matching prefix wins.
+ */
+export const findModelPrice = (
+  prices: ClaudeModelPrice[],
+  model?: string
+): ClaudeModelPrice | undefined => {
+  const target = model || DEFAULT_CLAUDE_MODEL;
+  return prices
+    .filter((price) => target === price.model || target.startsWith(`${price.model}-`))
+    .sort((a, b) => b.model.length - a.model.length)[0];
+};
+
+/**
+ * Cost in JPY, or null when the model has no price entry.
+ */
+export const calculateCost = (
+  prices: ClaudeModelPrice[],
+  model: string | undefined,
+  inputTokens: number,
+  outputTokens: number
+): number | null => {
+  const price = findModelPrice(prices, model);
+  if (!price) return null;
+  return (inputTokens * price.input_per_million + outputTokens * price.output_per_million) / 1000000;
+};
+
+/**
+ * Cost of a finished request. The cost recorded at completion is used when
+ * there is one, so editing the price table never rewrites past months; older
+ * requests without it are priced from the current table.
+ */
+export const getRequestCost = (
+  prices: ClaudeModelPrice[],
+  request: { model?: string; input_tokens?: number; output_tokens?: number; cost?: number | null }
+): number | null =>
+  request.cost ?? calculateCost(prices, request.model, request.input_tokens || 0, request.output_tokens || 0);
+
+export const formatCost = (yen: number): string =>
+  `¥${yen.toLocaleString('ja-JP', {
+    minimumFractionDigits: yen > 0 && yen < 10 ? 2 : 0,
+    maximumFractionDigits: yen < 10 ? 2 : 0,
+  })}`;
+
+/**
+ * Totals usage cost grouped by the given key (e.g. month or site_id).
+ * Recorded costs are used where present; entries for unpriced models are
+ * counted as zero.
+ */
+export const sumUsageCost = (
+  entries: ClaudeUsageEntry[],
+  prices: ClaudeModelPrice[],
+  groupBy: (entry: ClaudeUsageEntry) => string
+): Record<string, number> =>
+  entries.reduce<Record<string, number>>((totals, entry) => {
+    const key = groupBy(entry);
+    const cost = getRequestCost(prices, entry) || 0;
+    totals[key] = (totals[key] || 0) + cost;
+    return totals;
+  }, {});
+
+export const getBudgetStatus = (spent: number, budget?: number | null): BudgetStatus => {
+  if (!budget || budget <= 0) return 'ok';
+  if (spent >= budget) return 'exceeded';
+  if (spent >= budget * BUDGET_WARNING_RATIO) return 'warning';
+  return 'ok';
+};
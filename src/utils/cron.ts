@@ -0,0 +1,302 @@
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week)
+ */
+
+import { ParsedCron } from '../types';
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  aliases?: Record<string, number>;
+}
+
+const MONTH_ALIASES: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const WEEKDAY_ALIASES: Record<string, number> = {
+  sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6,
+};
+
+const FIELDS: FieldSpec[] = [
+  { name: '分', min: 0, max: 59 },
+  { name: '時', min: 0, max: 23 },
+  { name: '日', min: 1, max: 31 },
+  { name: '月', min: 1, max: 12, aliases: MONTH_ALIASES },
+  // 7 is accepted as Sunday and folded into 0
+  { name: '曜日', min: 0, max: 7, aliases: WEEKDAY_ALIASES },
+];
+
+// Searching further than this for the next run means the expression never fires (e.g. 30 Feb)
+const MAX_SEARCH_YEARS = 5;
+
+const parseValue = (value: string, spec: FieldSpec): number => {
+  const alias = spec.aliases?.[value.toLowerCase()];
+  if (alias !== undefined) return alias;
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`${spec.name}の値「${value}」が不正です`);
+  }
+  const number = parseInt(value, 10);
+  if (number < spec.min || number > spec.max) {
+    throw new Error(`${spec.name}は${spec.min}〜${spec.max}の範囲で指定してください`);
+  }
+  return number;
+};
+
+const parseField = (field: string, spec: FieldSpec): number[] => {
+  const values = new Set<number>();
+
+  field.split(',').forEach((part) => {
+    if (!part) throw new Error(`${spec.name}の指定が空です`);
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1)) {
+      throw new Error(`${spec.name}の間隔「${stepText}」が不正です`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) throw new Error(`${spec.name}の範囲「${range}」が逆順です`);
+    } else {
+      start = parseValue(range, spec);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  });
+
+  return Array.from(values).sort((a, b) => a - b);
+};
+
+/**
+ * Parses a cron expression. Returns the error message in Japanese instead of
+ * throwing so that forms can show it inline.
+ */
+export const parseCron = (expression: string): { cron: ParsedCron | null; error?: string } => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    return { cron: null, error: 'Cron式は「分 時 日 月 曜日」の5項目で指定してください' };
+  }
+
+  try {
+    const [minutes, hours, daysOfMonth, months, rawDaysOfWeek] = fields.map((field, index) =>
+      parseField(field, FIELDS[index])
+    );
+    const daysOfWeek = Array.from(new Set(rawDaysOfWeek.map((day) => day % 7))).sort((a, b) => a - b);
+    return {
+      cron: {
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        // Standard cron ORs the two day fields when both are restricted; like
+        // Vixie cron, a field starting with "*" (such as "*/2") is not
+        dayOfMonthRestricted: !fields[2].startsWith('*'),
+        dayOfWeekRestricted: !fields[4].startsWith('*'),
+      },
+    };
+  } catch (error) {
+    return { cron: null, error: (error as Error).message };
+  }
+};
+
+const matchesDay = (cron: ParsedCron, dayOfMonth: number, dayOfWeek: number): boolean => {
+  const domMatches = cron.daysOfMonth.includes(dayOfMonth);
+  const dowMatches = cron.daysOfWeek.includes(dayOfWeek);
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) return domMatches || dowMatches;
+  return domMatches && dowMatches;
+};
+
+export const matchesCron = (cron: ParsedCron, date: Date): boolean =>
+  cron.minutes.includes(date.getMinutes()) &&
+  cron.hours.includes(date.getHours()) &&
+  cron.months.includes(date.getMonth() + 1) &&
+  matchesDay(cron, date.getDate(), date.getDay());
+
+/*
+ * Run times are searched on a "wall clock" date whose UTC fields hold the
+ * local time of the target zone, so the same loop serves any time zone.
+ */
+
+export const toWallClock = (date: Date, timeZone?: string): Date => {
+  if (!timeZone) {
+    return new Date(Date.UTC(
+      date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes()
+    ));
+  }
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find((item) => item.type === type)?.value || '0', 10);
+  return new Date(Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute')));
+};
+
+export const fromWallClock = (wall: Date, timeZone?: string): Date => {
+  if (!timeZone) {
+    return new Date(
+      wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate(), wall.getUTCHours(), wall.getUTCMinutes()
+    );
+  }
+  // The zone offset depends on the instant itself, so settle it in two passes (DST boundaries)
+  let instant = wall.getTime();
+  for (let pass = 0; pass < 2; pass++) {
+    const offset = toWallClock(new Date(instant), timeZone).getTime() - instant;
+    instant = wall.getTime() - offset;
+  }
+  return new Date(instant);
+};
+
+/**
+ * Run times after `from` (exclusive), stopping at `until` or after `limit`
+ * runs. Fields are matched in `timeZone` when given, otherwise in local time.
+ * Days and hours that cannot match are skipped whole.
+ */
+export const getCronRuns = (
+  cron: ParsedCron,
+  from: Date,
+  { until, limit = 10, timeZone }: { until?: Date; limit?: number; timeZone?: string } = {}
+): Date[] => {
+  const runs: Date[] = [];
+  const cursor = toWallClock(from, timeZone);
+  cursor.setUTCMinutes(cursor.getUTCMinutes() + 1);
+  const horizon = new Date(cursor);
+  horizon.setUTCFullYear(horizon.getUTCFullYear() + MAX_SEARCH_YEARS);
+  const untilWall = until && toWallClock(until, timeZone);
+  const end = untilWall && untilWall < horizon ? untilWall : horizon;
+
+  while (runs.length < limit && cursor <= end) {
+    const matchesDate =
+      cron.months.includes(cursor.getUTCMonth() + 1) &&
+      matchesDay(cron, cursor.getUTCDate(), cursor.getUTCDay());
+    if (!matchesDate) {
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+      cursor.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.includes(cursor.getUTCHours())) {
+      cursor.setUTCHours(cursor.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (cron.minutes.includes(cursor.getUTCMinutes())) {
+      const run = fromWallClock(cursor, timeZone);
+      if (until && run > until) break;
+      runs.push(run);
+    }
+    cursor.setUTCMinutes(cursor.getUTCMinutes() + 1);
+  }
+
+  return runs;
+};
+
+const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * "2024/10/22(火) 09:00" as seen in `timeZone` (local time when omitted)
+ */
+export const formatCronRun = (date: Date, timeZone?: string): string => {
+  const wall = toWallClock(date, timeZone);
+  return `${wall.getUTCFullYear()}/${pad(wall.getUTCMonth() + 1)}/${pad(wall.getUTCDate())}` +
+    `(${WEEKDAY_LABELS[wall.getUTCDay()]}) ${pad(wall.getUTCHours())}:${pad(wall.getUTCMinutes())}`;
+};
+
+const joinLabels = (labels: string[]): string =>
+  labels.length === 2 ? labels.join('と') : labels.join('・');
+
+/**
+ * Describes a set of field values as a step ("2時間ごと"), a range ("9〜17時")
+ * or a list ("1日と15日"). `min`/`max` bound the field so steps are only
+ * recognised when they run to the end of it.
+ */
+const describeValues = (
+  values: number[],
+  min: number,
+  max: number,
+  unit: string,
+  stepUnit = unit
+): string => {
+  if (values.length > 2) {
+    const step = values[1] - values[0];
+    const uniform = values.every((value, index) => index === 0 || value - values[index - 1] === step);
+    if (uniform && step === 1) {
+      return `${values[0]}〜${values[values.length - 1]}${unit}`;
+    }
+    if (uniform && values[values.length - 1] + step > max) {
+      return values[0] === min ? `${step}${stepUnit}ごと` : `${values[0]}${unit}から${step}${stepUnit}ごと`;
+    }
+  }
+  return joinLabels(values.map((value) => `${value}${unit}`));
+};
+
+const describeWeekdays = (days: number[]): string => {
+  const key = days.join(',');
+  if (key === '1,2,3,4,5') return '平日';
+  if (key === '0,6') return '土日';
+  if (days.length === 7) return '毎日';
+  // List Monday first, as Japanese calendars do
+  const ordered = [...days.filter((day) => day !== 0), ...days.filter((day) => day === 0)];
+  return `毎週${joinLabels(ordered.map((day) => `${WEEKDAY_LABELS[day]}曜`))}`;
+};
+
+const describeTime = (cron: ParsedCron): string => {
+  const everyHour = cron.hours.length === 24;
+  const everyMinute = cron.minutes.length === 60;
+
+  if (cron.minutes.length === 1 && !everyHour && cron.hours.length <= 4) {
+    return joinLabels(cron.hours.map((hour) => `${hour}:${pad(cron.minutes[0])}`));
+  }
+  if (everyMinute) {
+    return everyHour ? '毎分' : `${describeValues(cron.hours, 0, 23, '時', '時間')}の毎分`;
+  }
+  const minutes = describeValues(cron.minutes, 0, 59, '分');
+  if (everyHour) return minutes.endsWith('ごと') ? minutes : `毎時${minutes}`;
+  return `${describeValues(cron.hours, 0, 23, '時', '時間')}の${minutes}`;
+};
+
+/**
+ * Japanese description of a parsed expression, e.g. "毎週火曜と金曜の9:00".
+ * When both day fields are restricted the description spells out that either
+ * one is enough ("毎月1日、または毎週月曜").
+ */
+export const describeCron = (cron: ParsedCron): string => {
+  const monthDays = `毎月${describeValues(cron.daysOfMonth, 1, 31, '日')}`;
+  const weekdays = describeWeekdays(cron.daysOfWeek);
+  const everyMonthDay = cron.daysOfMonth.length === 31;
+  const everyWeekday = cron.daysOfWeek.length === 7;
+  let days = '毎日';
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    days = `${monthDays}、または${weekdays}`;
+  } else if (!everyMonthDay && !everyWeekday) {
+    // "*/2" in one field still leaves both required
+    days = `${monthDays}（${weekdays}のみ）`;
+  } else if (!everyMonthDay) {
+    days = monthDays;
+  } else if (!everyWeekday) {
+    days = weekdays;
+  }
+
+  const months = cron.months.length === 12 ? '' : `${describeValues(cron.months, 1, 12, '月', 'か月')}の`;
+  const time = describeTime(cron);
+  if (!months && days === '毎日' && time === '毎分') return '毎分';
+  return `${months}${days}の${time}`;
+};
@@ -0,0 +1,180 @@
+/**
+ * Character-level text diff suited to Japanese prose
+ */
+
+export type DiffOpType = 'equal' | 'insert' | 'delete';
+
+export interface DiffOp {
+  type: DiffOpType;
+  text: string;
+}
+
+// Beyond this edit distance a block is reported as a plain replacement
+const MAX_EDIT_DISTANCE = 2000;
+
+// Combining dakuten/handakuten, variation selectors, skin tones and ZWJ belong to the previous character
+const COMBINING_MARK = /^(?:[\u3099\u309A\uFE00-\uFE0F\u200D\u0300-\u036F]|\uD83C[\uDFFB-\uDFFF])$/;
+
+/**
+ * Splits text into user-perceived characters. Surrogate pairs stay intact
+ * and combining marks are attached to their base character, so a diff never
+ * cuts a kanji or a voiced kana in half.
+ */
+export const splitCharacters = (text: string): string[] => {
+  const chars: string[] = [];
+  Array.from(text).forEach((char) => {
+    const previous = chars[chars.length - 1];
+    if (previous !== undefined && (COMBINING_MARK.test(char) || previous.endsWith('\u200D'))) {
+      chars[chars.length - 1] += char;
+    } else {
+      chars.push(char);
+    }
+  });
+  return chars;
+};
+
+/**
+ * Myers O(ND) diff over two token arrays. Returns null when the edit distance
+ * exceeds `maxDistance`, leaving the caller to fall back to a replacement.
+ */
+const myersDiff = (a: string[], b: string[], maxDistance: number): DiffOp[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxDistance);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1];
+      } else {
+        x = v[offset + k - 1] + 1;
+      }
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  if (!found) return null;
+
+  // Walk the trace backwards to recover the edit script
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    let prevK: number;
+    if (k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1])) {
+      prevK = k + 1;
+    } else {
+      prevK = k - 1;
+    }
+    const prevX = vd[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', text: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'insert', text: b[y - 1] });
+      } else {
+        ops.push({ type: 'delete', text: a[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+};
+
+const mergeOps = (ops: DiffOp[]): DiffOp[] => {
+  const merged: DiffOp[] = [];
+  ops.forEach((op) => {
+    if (!op.text) return;
+    const last = merged[merged.length - 1];
+    if (last && last.type === op.type) {
+      last.text += op.text;
+    } else {
+      merged.push({ ...op });
+    }
+  });
+  return merged;
+};
+
+const diffTokens = (a: string[], b: string[]): DiffOp[] => {
+  const ops = myersDiff(a, b, MAX_EDIT_DISTANCE);
+  if (ops) return ops;
+  return [
+    { type: 'delete', text: a.join('') },
+    { type: 'insert', text: b.join('') },
+  ];
+};
+
+// Line-level ops are merged so that a changed paragraph becomes one delete/insert pair
+const mergeLineOps = (ops: DiffOp[]): DiffOp[] => {
+  const merged = mergeOps(ops);
+  const result: DiffOp[] = [];
+  merged.forEach((op) => {
+    const last = result[result.length - 1];
+    // Normalise insert-before-delete so the pair is always delete → insert
+    if (op.type === 'delete' && last?.type === 'insert') {
+      result.splice(result.length - 1, 0, op);
+    } else {
+      result.push(op);
+    }
+  });
+  return result;
+};
+
+/**
+ * Diffs line by line first and then character by character inside changed
+ * blocks, which keeps long articles fast while still pinpointing a single
+ * changed character in a dosage sentence.
+ */
+export const diffText = (before: string, after: string): DiffOp[] => {
+  const splitLines = (text: string) => text.match(/[^\n]*\n|[^\n]+/g) || [];
+  const lineOps = mergeLineOps(diffTokens(splitLines(before), splitLines(after)));
+  const result: DiffOp[] = [];
+
+  for (let i = 0; i < lineOps.length; i++) {
+    const op = lineOps[i];
+    const next = lineOps[i + 1];
+    if (op.type === 'delete' && next?.type === 'insert') {
+      result.push(...diffTokens(splitCharacters(op.text), splitCharacters(next.text)));
+      i++;
+    } else {
+      result.push(op);
+    }
+  }
+
+  return mergeOps(result);
+};
+
+export const getDiffStats = (ops: DiffOp[]): { inserted: number; deleted: number } => {
+  return ops.reduce(
+    (stats, op) => {
+      if (op.type === 'insert') stats.inserted += splitCharacters(op.text).length;
+      if (op.type === 'delete') stats.deleted += splitCharacters(op.text).length;
+      return stats;
+    },
+    { inserted: 0, deleted: 0 }
+  );
+};
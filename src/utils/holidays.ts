@@ -0,0 +1,254 @@
+/**
+ * Japanese national holidays and pharmacy closures, computed from the rules of
+ * the Holiday Act (国民の祝日に関する法律) so no yearly table needs updating
+ */
+
+import { Holiday, HolidayKind, HolidayMode, ScheduledRun, SiteClosures } from '../types';
+import { fromWallClock, toWallClock } from './cron';
+
+export const HOLIDAY_KIND_LABELS: Record<HolidayKind, string> = {
+  national: '国民の祝日',
+  substitute: '振替休日',
+  citizens: '国民の休日',
+  year_end: '年末年始休業',
+  obon: 'お盆休業',
+  custom: '臨時休業',
+};
+
+export const HOLIDAY_MODE_LABELS: Record<HolidayMode, string> = {
+  skip: 'その回は投稿しない',
+  shift: '祝日・休業日でない次の日にずらす（土日も含む）',
+};
+
+export const DEFAULT_SITE_CLOSURES: SiteClosures = {
+  year_end: false,
+  obon: false,
+  custom_dates: [],
+};
+
+// Pharmacy closures observed by many sites: 12/29〜1/3 and 8/13〜8/16
+const YEAR_END_DAYS: [number, number][] = [[12, 29], [12, 30], [12, 31], [1, 1], [1, 2], [1, 3]];
+const OBON_DAYS: [number, number][] = [[8, 13], [8, 14], [8, 15], [8, 16]];
+
+// The Tokyo Olympics moved three holidays in 2020 and 2021
+const OLYMPIC_DATES: Record<number, { marine: number[]; sports: number[]; mountain: number[] }> = {
+  2020: { marine: [7, 23], sports: [7, 24], mountain: [8, 10] },
+  2021: { marine: [7, 22], sports: [7, 23], mountain: [8, 8] },
+};
+
+// Shifting a run forward never looks further than this for a working day
+const MAX_SHIFT_DAYS = 31;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const toDateKey = (year: number, month: number, day: number): string =>
+  `${year}-${pad(month)}-${pad(day)}`;
+
+const dayOfWeek = (year: number, month: number, day: number): number =>
+  new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+
+// Happy Monday rule: the nth Monday of the month
+const nthMonday = (year: number, month: number, n: number): number =>
+  1 + ((8 - dayOfWeek(year, month, 1)) % 7) + (n - 1) * 7;
+
+// Astronomical approximations valid for 1980-2099
+const vernalEquinoxDay = (year: number): number =>
+  Math.floor(20.8431 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+
+const autumnalEquinoxDay = (year: number): number =>
+  Math.floor(23.2488 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+
+const getStatutoryHolidays = (year: number): [number, number, string][] => {
+  const olympic = OLYMPIC_DATES[year];
+  const days: [number, number, string][] = [
+    [1, 1, '元日'],
+    [1, nthMonday(year, 1, 2), '成人の日'],
+    [2, 11, '建国記念の日'],
+    [3, vernalEquinoxDay(year), '春分の日'],
+    [4, 29, year >= 2007 ? '昭和の日' : 'みどりの日'],
+    [5, 3, '憲法記念日'],
+    [5, 5, 'こどもの日'],
+    [9, year >= 2003 ? nthMonday(year, 9, 3) : 15, '敬老の日'],
+    [9, autumnalEquinoxDay(year), '秋分の日'],
+    [11, 3, '文化の日'],
+    [11, 23, '勤労感謝の日'],
+  ];
+
+  if (year >= 2007) days.push([5, 4, 'みどりの日']);
+  if (year >= 2020) days.push([2, 23, '天皇誕生日']);
+  if (year <= 2018) days.push([12, 23, '天皇誕生日']);
+  if (year === 2019) {
+    days.push([5, 1, '天皇の即位の日'], [10, 22, '即位礼正殿の儀の行われる日']);
+  }
+
+  const marine = olympic?.marine || [7, year >= 2003 ? nthMonday(year, 7, 3) : 20];
+  days.push([marine[0], marine[1], '海の日']);
+
+  const sports = olympic?.sports || [10, nthMonday(year, 10, 2)];
+  days.push([sports[0], sports[1], year >= 2020 ? 'スポーツの日' : '体育の日']);
+
+  if (year >= 2016) {
+    const mountain = olympic?.mountain || [8, 11];
+    days.push([mountain[0], mountain[1], '山の日']);
+  }
+
+  return days;
+};
+
+const holidayCache = new Map<number, Holiday[]>();
+
+/**
+ * 国民の祝日, 振替休日 and 国民の休日 for a year, sorted by date. The rules
+ * are those in force since 2000.
+ */
+export const getJapaneseHolidays = (year: number): Holiday[] => {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const byKey = new Map<string, Holiday>();
+  getStatutoryHolidays(year).forEach(([month, day, name]) => {
+    const date = toDateKey(year, month, day);
+    byKey.set(date, { date, name, kind: 'national' });
+  });
+
+  const statutory = Array.from(byKey.values()).sort((a, b) => a.date.localeCompare(b.date));
+  statutory.forEach((holiday) => {
+    const date = new Date(`${holiday.date}T00:00:00Z`);
+
+    // 振替休日: a holiday on Sunday moves to the next day that is not a holiday
+    if (date.getUTCDay() === 0) {
+      const substitute = new Date(date);
+      do {
+        substitute.setUTCDate(substitute.getUTCDate() + 1);
+      } while (byKey.has(substitute.toISOString().slice(0, 10)));
+      const key = substitute.toISOString().slice(0, 10);
+      byKey.set(key, { date: key, name: '振替休日', kind: 'substitute' });
+    }
+
+    // 国民の休日: a weekday sandwiched between two national holidays
+    const next = new Date(date);
+    next.setUTCDate(next.getUTCDate() + 1);
+    const afterNext = new Date(date);
+    afterNext.setUTCDate(afterNext.getUTCDate() + 2);
+    const nextKey = next.toISOString().slice(0, 10);
+    const sandwiched = statutory.some((other) => other.date === afterNext.toISOString().slice(0, 10));
+    if (sandwiched && !byKey.has(nextKey) && next.getUTCDay() !== 0) {
+      byKey.set(nextKey, { date: nextKey, name: '国民の休日', kind: 'citizens' });
+    }
+  });
+
+  const holidays = Array.from(byKey.values()).sort((a, b) => a.date.localeCompare(b.date));
+  holidayCache.set(year, holidays);
+  return holidays;
+};
+
+export const getSiteClosures = (site?: { closures?: Partial<SiteClosures> | null } | null): SiteClosures => {
+  return { ...DEFAULT_SITE_CLOSURES, ...(site?.closures || {}) };
+};
+
+/**
+ * The site's own closure days falling in `year`
+ */
+export const getSiteClosureDays = (year: number, closures: SiteClosures): Holiday[] => {
+  const days: Holiday[] = [];
+  if (closures.year_end) {
+    YEAR_END_DAYS.forEach(([month, day]) => {
+      days.push({ date: toDateKey(year, month, day), name: '年末年始休業', kind: 'year_end' });
+    });
+  }
+  if (closures.obon) {
+    OBON_DAYS.forEach(([month, day]) => {
+      days.push({ date: toDateKey(year, month, day), name: 'お盆休業', kind: 'obon' });
+    });
+  }
+  closures.custom_dates
+    .filter((closure) => closure.date.startsWith(`${year}-`))
+    .forEach((closure) => days.push({ date: closure.date, name: closure.name, kind: 'custom' }));
+  return days;
+};
+
+/**
+ * Returns a lookup from a "yyyy-MM-dd" key to the holiday or closure on that
+ * day. National holidays take precedence over site closures on the same day.
+ */
+export const createHolidayLookup = (closures?: SiteClosures | null): ((date: string) => Holiday | undefined) => {
+  const years = new Map<number, Map<string, Holiday>>();
+
+  return (date: string) => {
+    const year = parseInt(date.slice(0, 4), 10);
+    let days = years.get(year);
+    if (!days) {
+      days = new Map();
+      const entries = [...(closures ? getSiteClosureDays(year, closures) : []), ...getJapaneseHolidays(year)];
+      entries.forEach((holiday) => days!.set(holiday.date, holiday));
+      years.set(year, days);
+    }
+    return days.get(date);
+  };
+};
+
+const wallClockKey = (wall: Date): string =>
+  toDateKey(wall.getUTCFullYear(), wall.getUTCMonth() + 1, wall.getUTCDate());
+
+// The "yyyy-MM-dd" calendar date of an instant in `timeZone` (local time when omitted)
+export const getZonedDateKey = (date: Date, timeZone?: string): string =>
+  wallClockKey(toWallClock(date, timeZone));
+
+/**
+ * Applies a schedule's holiday handling to its run times. Holidays are
+ * judged on the calendar date in `timeZone`; a shifted run keeps its time of
+ * day and moves to the next date that is neither a holiday nor a closure.
+ * Weekends are not skipped. A shifted run that lands on a date which already
+ * has a run is dropped, so consecutive holidays never pile posts onto one day.
+ */
+export const applyHolidayRule = (
+  runs: Date[],
+  lookup: (date: string) => Holiday | undefined,
+  { mode, timeZone }: { mode: HolidayMode; timeZone?: string }
+): ScheduledRun[] => {
+  const runDates = new Set(
+    runs.map((run) => wallClockKey(toWallClock(run, timeZone))).filter((date) => !lookup(date))
+  );
+
+  return runs.map((run) => {
+    const wall = toWallClock(run, timeZone);
+    const holiday = lookup(wallClockKey(wall));
+    if (!holiday) return { scheduled_at: run, run_at: run };
+    if (mode === 'skip') return { scheduled_at: run, run_at: null, holiday };
+
+    for (let days = 0; days < MAX_SHIFT_DAYS && lookup(wallClockKey(wall)); days++) {
+      wall.setUTCDate(wall.getUTCDate() + 1);
+    }
+    const date = wallClockKey(wall);
+    if (runDates.has(date)) return { scheduled_at: run, run_at: null, holiday };
+    runDates.add(date);
+    return { scheduled_at: run, run_at: fromWallClock(wall, timeZone), holiday };
+  });
+};
+
+const CLOSURE_LINE = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:\s+(.+))?$/;
+
+const parseClosureLine = (line: string): { date: string; name: string } | null => {
+  const match = line.match(CLOSURE_LINE);
+  if (!match) return null;
+  const [year, month, day] = [match[1], match[2], match[3]].map((value) => parseInt(value, 10));
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return { date: toDateKey(year, month, day), name: match[4]?.trim() || '臨時休業' };
+};
+
+const closureLines = (text: string): string[] =>
+  text.split('\n').map((line) => line.trim()).filter(Boolean);
+
+// Custom closures are edited one per line as "2024-06-10 臨時休業"
+export const parseClosureDates = (text: string): { date: string; name: string }[] =>
+  closureLines(text)
+    .map(parseClosureLine)
+    .filter((closure): closure is { date: string; name: string } => closure !== null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+export const findInvalidClosureLines = (text: string): string[] =>
+  closureLines(text).filter((line) => parseClosureLine(line) === null);
+
+export const formatClosureDates = (dates: { date: string; name: string }[] = []): string =>
+  dates.map((closure) => `${closure.date} ${closure.name}`).join('\n');
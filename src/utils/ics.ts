@@ -0,0 +1,133 @@
+/**
+ * iCalendar (RFC 5545) export of a site's posting calendar
+ */
+
+import { CalendarEvent } from '../types';
+import { toWallClock } from './cron';
+
+export const ICS_TIME_ZONE = 'Asia/Tokyo';
+
+// Days ahead covered by a downloaded file
+export const ICS_EXPORT_DAYS = 90;
+
+// Posts have no duration of their own; a short block keeps them visible in day views
+const EVENT_DURATION = 'PT30M';
+
+const MAX_LINE_OCTETS = 75;
+
+// Japan has not observed daylight saving time since 1951, so one STANDARD block is enough
+const VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${ICS_TIME_ZONE}`,
+  'BEGIN:STANDARD',
+  'DTSTART:19700101T000000',
+  'TZOFFSETFROM:+0900',
+  'TZOFFSETTO:+0900',
+  'TZNAME:JST',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const utf8Length = (char: string): number => {
+  const codePoint = char.codePointAt(0)!;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  return codePoint < 0x10000 ? 3 : 4;
+};
+
+export const escapeIcsText = (text: string): string =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Splits a content line into 75-octet pieces joined by CRLF + space. Pieces
+ * are cut between characters so multi-byte Japanese text stays valid UTF-8.
+ */
+export const foldIcsLine = (line: string): string => {
+  const pieces: string[] = [];
+  let piece = '';
+  let octets = 0;
+
+  Array.from(line).forEach((char) => {
+    const size = utf8Length(char);
+    // Continuation lines lose one octet to their leading space
+    const limit = pieces.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      pieces.push(piece);
+      piece = '';
+      octets = 0;
+    }
+    piece += char;
+    octets += size;
+  });
+  pieces.push(piece);
+
+  return pieces.join('\r\n ');
+};
+
+const formatWallClock = (wall: Date): string =>
+  `${wall.getUTCFullYear()}${pad(wall.getUTCMonth() + 1)}${pad(wall.getUTCDate())}` +
+  `T${pad(wall.getUTCHours())}${pad(wall.getUTCMinutes())}${pad(wall.getUTCSeconds())}`;
+
+// Local time in Asia/Tokyo, for use with TZID
+export const formatIcsLocalTime = (date: Date): string => formatWallClock(toWallClock(date, ICS_TIME_ZONE));
+
+export const formatIcsUtcTime = (date: Date): string => `${formatWallClock(date)}Z`;
+
+interface IcsCalendarOptions {
+  name: string;
+  events: CalendarEvent[];
+  // Absolute URL of a post's detail page
+  getPostUrl: (post: any) => string;
+  now?: Date;
+}
+
+/**
+ * VCALENDAR text for scheduled posts and upcoming schedule slots. Published,
+ * failed and skipped entries are left out since the file is meant for
+ * looking ahead. UIDs are derived from the calendar event ids so that
+ * re-imports and feed refreshes update events instead of duplicating them.
+ */
+export const buildIcsCalendar = ({ name, events, getPostUrl, now = new Date() }: IcsCalendarOptions): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//pharma-blog-auto-poster//schedule//JA',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+    `X-WR-TIMEZONE:${ICS_TIME_ZONE}`,
+    ...VTIMEZONE,
+  ];
+
+  events
+    .filter((event) => event.kind === 'scheduled' || event.kind === 'slot')
+    .forEach((event) => {
+      const url = event.post ? getPostUrl(event.post) : null;
+      const description = event.post
+        ? `${event.site_name}で公開予定の記事です。\n${url}`
+        : `${event.site_name}の自動投稿スケジュールによる投稿枠です。記事は投稿時に決まります。`;
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${event.id}-${event.site_id}@pharma-blog-auto-poster`,
+        `DTSTAMP:${formatIcsUtcTime(now)}`,
+        `DTSTART;TZID=${ICS_TIME_ZONE}:${formatIcsLocalTime(event.date)}`,
+        `DURATION:${EVENT_DURATION}`,
+        `SUMMARY:${escapeIcsText(event.post ? event.title : `【${event.title}】${event.site_name}`)}`,
+        `DESCRIPTION:${escapeIcsText(description)}`,
+        ...(url ? [`URL:${url}`] : []),
+        `STATUS:${event.post ? 'CONFIRMED' : 'TENTATIVE'}`,
+        'TRANSP:TRANSPARENT',
+        'END:VEVENT'
+      );
+    });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
@@ -1,2 +1,24 @@
 export * from './formatters';
-export * from './validation';
\ No newline at end of file
+export * from './validation';
+export * from './compliance';
+export * from './reviews';
+export * from './diff';
+export * from './markdown';
+export * from './sanitize';
+export * from './seo';
+export * from './readability';
+export * from './templates';
+export * from './batch';
+export * from './seasonal';
+export * from './cost';
+export * from './sections';
+export * from './variants';
+export * from './keywords';
+export * from './similarity';
+export * from './brandVoice';
+export * from './cron';
+export * from './scheduling';
+export * from './holidays';
+export * from './topicSources';
+export * from './scheduleLoad';
+export * from './ics';
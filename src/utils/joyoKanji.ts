@@ -0,0 +1,126 @@
+/**
+ * The 2136 常用漢字 from the 2010 cabinet notice, in on-reading order
+ */
+
+export const JOYO_KANJI: ReadonlySet<string> = new Set(Array.from(
+  // あ
+  '亜哀挨愛曖悪握圧扱宛嵐安案暗' +
+  // い
+  '以衣位囲医依委威為畏胃尉異移萎偉椅彙意違維慰遺緯域育一壱逸茨芋引印因咽姻員院淫陰' +
+  '飲隠韻' +
+  // う
+  '右宇羽雨唄鬱畝浦運雲' +
+  // え
+  '永泳英映栄営詠影鋭衛易疫益液駅悦越謁閲円延沿炎怨宴媛援園煙猿遠鉛塩演縁艶' +
+  // お
+  '汚王凹央応往押旺欧殴桜翁奥横岡屋億憶臆虞乙俺卸音恩温穏' +
+  // か
+  '下化火加可仮何花佳価果河苛科架夏家荷華菓貨渦過嫁暇禍靴寡歌箇稼課蚊牙瓦我画芽賀雅' +
+  '餓介回灰会快戒改怪拐悔海界皆械絵開階塊楷解潰壊懐諧貝外劾害崖涯街慨蓋該概骸垣柿各' +
+  '角拡革格核殻郭覚較隔閣確獲嚇穫学岳楽額顎掛潟括活喝渇割葛滑褐轄且株釜鎌刈干刊甘汗' +
+  '缶完肝官冠巻看陥乾勘患貫寒喚堪換敢棺款間閑勧寛幹感漢慣管関歓監緩憾還館環簡観韓艦' +
+  '鑑丸含岸岩玩眼頑顔願' +
+  // き
+  '企伎危机気岐希忌汽奇祈季紀軌既記起飢鬼帰基寄規亀喜幾揮期棋貴棄毀旗器畿輝機騎技宜' +
+  '偽欺義疑儀戯擬犠議菊吉喫詰却客脚逆虐九久及弓丘旧休吸朽臼求究泣急級糾宮救球給嗅窮' +
+  '牛去巨居拒拠挙虚許距魚御漁凶共叫狂京享供協況峡挟狭恐恭胸脅強教郷境橋矯鏡競響驚仰' +
+  '暁業凝曲局極玉巾斤均近金菌勤琴筋僅禁緊錦謹襟吟銀' +
+  // く
+  '区句苦駆具惧愚空偶遇隅串屈掘窟熊繰君訓勲薫軍郡群' +
+  // け
+  '兄刑形系径茎係型契計恵啓掲渓経蛍敬景軽傾携継詣慶憬稽憩警鶏芸迎鯨隙劇撃激桁欠穴血' +
+  '決結傑潔月犬件見券肩建研県倹兼剣拳軒健険圏堅検嫌献絹遣権憲賢謙鍵繭顕験懸元幻玄言' +
+  '弦限原現舷減源厳' +
+  // こ
+  '己戸古呼固股虎孤弧故枯個庫湖雇誇鼓錮顧五互午呉後娯悟碁語誤護口工公勾孔功巧広甲交' +
+  '光向后好江考行坑孝抗攻更効幸拘肯侯厚恒洪皇紅荒郊香候校耕航貢降高康控梗黄喉慌港硬' +
+  '絞項溝鉱構綱酵稿興衡鋼講購乞号合拷剛傲豪克告谷刻国黒穀酷獄骨駒込頃今困昆恨根婚混' +
+  '痕紺魂墾懇' +
+  // さ
+  '左佐沙査砂唆差詐鎖座挫才再災妻采砕宰栽彩採済祭斎細菜最裁債催塞歳載際埼在材剤財罪' +
+  '崎作削昨柵索策酢搾錯咲冊札刷刹拶殺察撮擦雑皿三山参桟蚕惨産傘散算酸賛残斬暫' +
+  // し
+  '士子支止氏仕史司四市矢旨死糸至伺志私使刺始姉枝祉肢姿思指施師恣紙脂視紫詞歯嗣試詩' +
+  '資飼誌雌摯賜諮示字寺次耳自似児事侍治持時滋慈辞磁餌璽鹿式識軸七𠮟失室疾執湿嫉漆質' +
+  '実芝写社車舎者射捨赦斜煮遮謝邪蛇尺借酌釈爵若弱寂手主守朱取狩首殊珠酒腫種趣寿受呪' +
+  '授需儒樹収囚州舟秀周宗拾秋臭修袖終羞習週就衆集愁酬醜蹴襲十汁充住柔重従渋銃獣縦叔' +
+  '祝宿淑粛縮塾熟出述術俊春瞬旬巡盾准殉純循順準潤遵処初所書庶暑署緒諸女如助序叙徐除' +
+  '小升少召匠床抄肖尚招承昇松沼昭宵将消症祥称笑唱商渉章紹訟勝掌晶焼焦硝粧詔証象傷奨' +
+  '照詳彰障憧衝賞償礁鐘上丈冗条状乗城浄剰常情場畳蒸縄壌嬢錠譲醸色拭食植殖飾触嘱織職' +
+  '辱尻心申伸臣芯身辛侵信津神唇娠振浸真針深紳進森診寝慎新審震薪親人刃仁尽迅甚陣尋腎' +
+  // す
+  '須図水吹垂炊帥粋衰推酔遂睡穂随髄枢崇数据杉裾寸' +
+  // せ
+  '瀬是井世正生成西声制姓征性青斉政星牲省凄逝清盛婿晴勢聖誠精製誓静請整醒税夕斥石赤' +
+  '昔析席脊隻惜戚責跡積績籍切折拙窃接設雪摂節説舌絶千川仙占先宣専泉浅洗染扇栓旋船戦' +
+  '煎羨腺詮践箋銭潜線遷選薦繊鮮全前善然禅漸膳繕' +
+  // そ
+  '狙阻祖租素措粗組疎訴塑遡礎双壮早争走奏相荘草送倉捜挿桑巣掃曹曽爽窓創喪痩葬装僧想' +
+  '層総遭槽踪操燥霜騒藻造像増憎蔵贈臓即束足促則息捉速側測俗族属賊続卒率存村孫尊損遜' +
+  // た
+  '他多汰打妥唾堕惰駄太対体耐待怠胎退帯泰堆袋逮替貸隊滞態戴大代台第題滝宅択沢卓拓託' +
+  '濯諾濁但達脱奪棚誰丹旦担単炭胆探淡短嘆端綻誕鍛団男段断弾暖談壇' +
+  // ち
+  '地池知値恥致遅痴稚置緻竹畜逐蓄築秩窒茶着嫡中仲虫沖宙忠抽注昼柱衷酎鋳駐著貯丁弔庁' +
+  '兆町長挑帳張彫眺釣頂鳥朝貼超腸跳徴嘲潮澄調聴懲直勅捗沈珍朕陳賃鎮' +
+  // つ
+  '追椎墜通痛塚漬坪爪鶴' +
+  // て
+  '低呈廷弟定底抵邸亭貞帝訂庭逓停偵堤提程艇締諦泥的笛摘滴適敵溺迭哲鉄徹撤天典店点展' +
+  '添転塡田伝殿電' +
+  // と
+  '斗吐妬徒途都渡塗賭土奴努度怒刀冬灯当投豆東到逃倒凍唐島桃討透党悼盗陶塔搭棟湯痘登' +
+  '答等筒統稲踏糖頭謄藤闘騰同洞胴動堂童道働銅導瞳峠匿特得督徳篤毒独読栃凸突届屯豚頓' +
+  '貪鈍曇丼' +
+  // な
+  '那奈内梨謎鍋南軟難' +
+  // に
+  '二尼弐匂肉虹日入乳尿任妊忍認' +
+  // ね
+  '寧熱年念捻粘燃' +
+  // の
+  '悩納能脳濃農' +
+  // は
+  '把波派破覇馬婆罵拝杯背肺俳配排敗廃輩売倍梅培陪媒買賠白伯拍泊迫剝舶博薄麦漠縛爆箱' +
+  '箸畑肌八鉢発髪伐抜罰閥反半氾犯帆汎伴判坂阪板版班畔般販斑飯搬煩頒範繁藩晩番蛮盤' +
+  // ひ
+  '比皮妃否批彼披肥非卑飛疲秘被悲扉費碑罷避尾眉美備微鼻膝肘匹必泌筆姫百氷表俵票評漂' +
+  '標苗秒病描猫品浜貧賓頻敏瓶' +
+  // ふ
+  '不夫父付布扶府怖阜附訃負赴浮婦符富普腐敷膚賦譜侮武部舞封風伏服副幅復福腹複覆払沸' +
+  '仏物粉紛雰噴墳憤奮分文聞' +
+  // へ
+  '丙平兵併並柄陛閉塀幣弊蔽餅米壁璧癖別蔑片辺返変偏遍編弁便勉' +
+  // ほ
+  '歩保哺捕補舗母募墓慕暮簿方包芳邦奉宝抱放法泡胞俸倣峰砲崩訪報蜂豊飽褒縫亡乏忙坊妨' +
+  '忘防房肪某冒剖紡望傍帽棒貿貌暴膨謀頰北木朴牧睦僕墨撲没勃堀本奔翻凡盆' +
+  // ま
+  '麻摩磨魔毎妹枚昧埋幕膜枕又末抹万満慢漫' +
+  // み
+  '未味魅岬密蜜脈妙民眠' +
+  // む
+  '矛務無夢霧娘' +
+  // め
+  '名命明迷冥盟銘鳴滅免面綿麺' +
+  // も
+  '茂模毛妄盲耗猛網目黙門紋問' +
+  // や
+  '冶夜野弥厄役約訳薬躍闇' +
+  // ゆ
+  '由油喩愉諭輸癒唯友有勇幽悠郵湧猶裕遊雄誘憂融優' +
+  // よ
+  '与予余誉預幼用羊妖洋要容庸揚揺葉陽溶腰様瘍踊窯養擁謡曜抑沃浴欲翌翼' +
+  // ら
+  '拉裸羅来雷頼絡落酪辣乱卵覧濫藍欄' +
+  // り
+  '吏利里理痢裏履璃離陸立律慄略柳流留竜粒隆硫侶旅虜慮了両良料涼猟陵量僚領寮療瞭糧力' +
+  '緑林厘倫輪隣臨' +
+  // る
+  '瑠涙累塁類' +
+  // れ
+  '令礼冷励戻例鈴零霊隷齢麗暦歴列劣烈裂恋連廉練錬' +
+  // ろ
+  '呂炉賂路露老労弄郎朗浪廊楼漏籠六録麓論' +
+  // わ
+  '和話賄脇惑枠湾腕'
+));
@@ -0,0 +1,115 @@
+/**
+ * Post-generation checks for required and excluded keywords
+ */
+
+import { KeywordValidation } from '../types';
+import { stripHtml } from './formatters';
+
+// Common kanji/kana spellings in health articles that should count as the same word
+const SPELLING_VARIANTS: string[][] = [
+  ['子供', '子ども', 'こども'],
+  ['風邪', 'かぜ'],
+  ['薬', 'くすり'],
+  ['飲む', 'のむ'],
+  ['飲み合わせ', '飲みあわせ', 'のみあわせ'],
+  ['咳', 'せき'],
+  ['喉', 'のど'],
+  ['鼻水', 'はなみず'],
+  ['頭痛', 'ずつう'],
+  ['湿布', 'しっぷ'],
+  ['花粉症', 'かふんしょう'],
+  ['痒み', 'かゆみ'],
+  ['虫刺され', '虫さされ', 'むしさされ'],
+  ['肌荒れ', 'はだあれ'],
+  ['眩暈', 'めまい'],
+];
+
+/**
+ * Folds full/half-width forms (NFKC), case and katakana/hiragana so that
+ * "ロキソニン", "ﾛｷｿﾆﾝ" and "ろきそにん" compare equal.
+ */
+export const normalizeKeywordText = (text: string): string =>
+  text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[ァ-ヶ]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0x60))
+    .replace(/\s+/g, '');
+
+/**
+ * All normalized spellings of a keyword, substituting known kanji/kana
+ * variants of the words it contains.
+ */
+export const expandKeywordVariants = (keyword: string): string[] => {
+  const base = normalizeKeywordText(keyword);
+  const forms = new Set([base]);
+
+  SPELLING_VARIANTS.forEach((group) => {
+    const spellings = group.map(normalizeKeywordText);
+    Array.from(forms).forEach((form) => {
+      spellings
+        .filter((spelling) => form.includes(spelling))
+        .forEach((spelling) => {
+          spellings.forEach((other) => forms.add(form.split(spelling).join(other)));
+        });
+    });
+  });
+
+  return Array.from(forms).filter(Boolean);
+};
+
+const countOccurrences = (text: string, needle: string): number => text.split(needle).length - 1;
+
+export const validateArticleKeywords = (
+  html: string,
+  keywords: string[] = [],
+  excludeKeywords: string[] = []
+): KeywordValidation => {
+  const text = normalizeKeywordText(stripHtml(html));
+
+  const missing = keywords
+    .filter((keyword) => keyword.trim())
+    .filter((keyword) => !expandKeywordVariants(keyword).some((form) => text.includes(form)));
+
+  const excluded = excludeKeywords
+    .filter((keyword) => keyword.trim())
+    .map((keyword) => ({
+      keyword,
+      count: expandKeywordVariants(keyword).reduce((total, form) => total + countOccurrences(text, form), 0),
+    }))
+    .filter((violation) => violation.count > 0);
+
+  return { missing, excluded, passed: missing.length === 0 && excluded.length === 0 };
+};
+
+/**
+ * Validates a Claude request's generated article against its own keyword
+ * settings. The result recorded at completion is used when there is one.
+ * Returns null until the request has produced content.
+ */
+export const validateClaudeRequestKeywords = (request: {
+  request_data?: any;
+  response_data?: any;
+  keyword_validation?: KeywordValidation | null;
+}): KeywordValidation | null => {
+  if (request.keyword_validation) return request.keyword_validation;
+  const content = request.response_data?.content;
+  const config = request.request_data?.article_config;
+  if (!content || !config) return null;
+  return validateArticleKeywords(content, config.keywords, config.exclude_keywords);
+};
+
+/**
+ * Corrective instruction appended to the prompt when retrying a request
+ * that did not honor its keywords.
+ */
+export const buildKeywordCorrection = (validation: KeywordValidation): string => {
+  const lines = ['前回の生成ではキーワードの指定が守られていませんでした。次の点を必ず修正してください。'];
+  if (validation.missing.length > 0) {
+    lines.push(`- 必須キーワード「${validation.missing.join('」「')}」を本文に自然な形で含める`);
+  }
+  if (validation.excluded.length > 0) {
+    const words = validation.excluded.map((violation) => violation.keyword);
+    lines.push(`- 「${words.join('」「')}」は、ひらがな・カタカナ・漢字・全角半角の表記違いも含めて使用しない`);
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,402 @@
+/**
+ * Markdown ⇔ HTML conversion for the article editor
+ *
+ * Only the subset used for WordPress posts is converted: h2–h4, paragraphs,
+ * flat lists, simple tables, callout boxes, blockquotes, links, images and
+ * emphasis. Anything else (attributes, nested lists, embeds, ...) is kept as
+ * raw HTML in the Markdown source so that existing posts round-trip without
+ * losing markup.
+ */
+
+export const CALLOUT_TYPES = {
+  caution: '注意事項',
+  point: 'ポイント',
+} as const;
+
+export type CalloutType = keyof typeof CALLOUT_TYPES;
+
+const CALLOUT_CLASS = 'pharma-callout';
+const CALLOUT_TITLE_CLASS = 'pharma-callout__title';
+
+const BLOCK_HTML_START = /^<(div|p|h[1-6]|ul|ol|dl|table|blockquote|figure|iframe|video|audio|pre|hr|section|article|aside|details|form|script|style|noscript)\b/i;
+const ESCAPABLE = /\\([\\`*_[\]()#|!>.:+-])/g;
+
+const escapeAttribute = (value: string): string => {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+};
+
+// Leaves entities and inline tags alone so raw HTML written in Markdown survives
+const escapeHtmlText = (text: string): string => {
+  return text
+    .replace(/&(?!#?\w+;)/g, '&amp;')
+    .replace(/<(?![a-zA-Z/!])/g, '&lt;');
+};
+
+const renderInline = (text: string): string => {
+  const escaped: string[] = [];
+  let html = text.replace(ESCAPABLE, (_, char: string) => {
+    escaped.push(char);
+    return `\u0000${escaped.length - 1}\u0000`;
+  });
+
+  html = escapeHtmlText(html)
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (_, alt: string, src: string) =>
+      `<img src="${escapeAttribute(src)}" alt="${escapeAttribute(alt)}">`
+    )
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label: string, href: string) =>
+      `<a href="${escapeAttribute(href)}">${label}</a>`
+    )
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*(.+?)\*/g, '<em>$1</em>');
+
+  return html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => {
+    const char = escaped[parseInt(index, 10)];
+    return char === '<' ? '&lt;' : char;
+  });
+};
+
+const HEADING = /^(#{1,4})\s+(.*)$/;
+const RULE = /^(-{3,}|\*{3,})\s*$/;
+const UNORDERED_ITEM = /^[-*]\s+(.*)$/;
+const ORDERED_ITEM = /^\d+\.\s+(.*)$/;
+const TABLE_SEPARATOR = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+const CALLOUT_START = /^:::\s*(\w+)\s*$/;
+const CALLOUT_END = /^:::\s*$/;
+const BLOCKQUOTE = /^>\s?(.*)$/;
+
+const splitTableRow = (line: string): string[] => {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  return trimmed.split(/(?<!\\)\|/).map((cell) => cell.trim());
+};
+
+const startsBlock = (line: string, next?: string): boolean => {
+  return (
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    UNORDERED_ITEM.test(line) ||
+    ORDERED_ITEM.test(line) ||
+    CALLOUT_START.test(line) ||
+    BLOCKQUOTE.test(line) ||
+    BLOCK_HTML_START.test(line.trim()) ||
+    (line.trim().startsWith('|') && !!next && TABLE_SEPARATOR.test(next))
+  );
+};
+
+// Collects a raw HTML block until its opening tag is balanced again
+const collectHtmlBlock = (lines: string[], start: number): number => {
+  const tag = lines[start].trim().match(BLOCK_HTML_START)![1].toLowerCase();
+  if (tag === 'hr') return start + 1;
+
+  const open = new RegExp(`<${tag}\\b`, 'gi');
+  const close = new RegExp(`</${tag}>`, 'gi');
+  let depth = 0;
+  let i = start;
+  while (i < lines.length) {
+    depth += (lines[i].match(open) || []).length;
+    depth -= (lines[i].match(close) || []).length;
+    i++;
+    if (depth <= 0) break;
+  }
+  return i;
+};
+
+export const markdownToHtml = (markdown: string): string => {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const callout = line.match(CALLOUT_START);
+    if (callout) {
+      const type = (callout[1] in CALLOUT_TYPES ? callout[1] : 'caution') as CalloutType;
+      const inner: string[] = [];
+      i++;
+      while (i < lines.length && !CALLOUT_END.test(lines[i])) {
+        inner.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push(
+        `<div class="${CALLOUT_CLASS} ${CALLOUT_CLASS}--${type}">` +
+        `<p class="${CALLOUT_TITLE_CLASS}">${CALLOUT_TYPES[type]}</p>` +
+        `${markdownToHtml(inner.join('\n'))}</div>`
+      );
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      // h1 is reserved for the WordPress post title
+      const level = Math.max(heading[1].length, 2);
+      blocks.push(`<h${level}>${renderInline(heading[2].trim())}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (line.trim().startsWith('|') && TABLE_SEPARATOR.test(lines[i + 1] || '')) {
+      const header = splitTableRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim().startsWith('|')) {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      blocks.push(
+        '<table><thead><tr>' +
+        header.map((cell) => `<th>${renderInline(cell)}</th>`).join('') +
+        '</tr></thead><tbody>' +
+        rows.map((row) => `<tr>${row.map((cell) => `<td>${renderInline(cell)}</td>`).join('')}</tr>`).join('') +
+        '</tbody></table>'
+      );
+      continue;
+    }
+
+    const listPattern = UNORDERED_ITEM.test(line) ? UNORDERED_ITEM : ORDERED_ITEM.test(line) ? ORDERED_ITEM : null;
+    if (listPattern) {
+      const tag = listPattern === UNORDERED_ITEM ? 'ul' : 'ol';
+      const items: string[] = [];
+      while (i < lines.length && listPattern.test(lines[i])) {
+        items.push(`<li>${renderInline(lines[i].match(listPattern)![1])}</li>`);
+        i++;
+      }
+      blocks.push(`<${tag}>${items.join('')}</${tag}>`);
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const inner: string[] = [];
+      while (i < lines.length && BLOCKQUOTE.test(lines[i])) {
+        inner.push(lines[i].match(BLOCKQUOTE)![1]);
+        i++;
+      }
+      blocks.push(`<blockquote>${markdownToHtml(inner.join('\n'))}</blockquote>`);
+      continue;
+    }
+
+    if (BLOCK_HTML_START.test(line.trim())) {
+      const end = collectHtmlBlock(lines, i);
+      blocks.push(lines.slice(i, end).join('\n'));
+      i = end;
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i], lines[i + 1]))) {
+      paragraph.push(renderInline(lines[i]));
+      i++;
+    }
+    blocks.push(`<p>${paragraph.join('<br>')}</p>`);
+  }
+
+  return blocks.join('\n');
+};
+
+// --- HTML → Markdown ---
+
+const INLINE_TAGS = new Set(['strong', 'b', 'em', 'i', 'a', 'code', 'img', 'br', 'span', 'sup', 'sub', 'mark', 'small', 'u', 's']);
+
+const escapeMarkdownText = (text: string, inTable = false): string => {
+  let escaped = text
+    .replace(/[\\`*[\]]/g, '\\$&')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/\u00A0/g, '&nbsp;')
+    .replace(/\s*\n\s*/g, ' ');
+  if (inTable) {
+    escaped = escaped.replace(/\|/g, '\\|');
+  }
+  return escaped;
+};
+
+// Escapes characters that would otherwise start a block when they begin a line
+const escapeLineStart = (line: string): string => {
+  return line
+    .replace(/^(#{1,6}\s)/, '\\$1')
+    .replace(/^([-+]\s)/, '\\$1')
+    .replace(/^(\d+)\.(\s)/, '$1\\.$2')
+    .replace(/^>/, '\\>')
+    .replace(/^:::/, '\\:::')
+    .replace(/^\|/, '\\|')
+    .replace(/^(-{3,}|\*{3,})\s*$/, '\\$1');
+};
+
+const hasOnlyAttributes = (element: Element, allowed: string[]): boolean => {
+  return Array.from(element.attributes).every((attribute) => allowed.includes(attribute.name));
+};
+
+const isInlineOnly = (element: Element): boolean => {
+  return Array.from(element.children).every(
+    (child) => INLINE_TAGS.has(child.tagName.toLowerCase()) && isInlineOnly(child)
+  );
+};
+
+interface InlineOptions {
+  inTable?: boolean;
+  rawBreaks?: boolean;
+}
+
+const inlineToMarkdown = (node: Node, options: InlineOptions = {}): string => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return escapeMarkdownText(node.textContent || '', options.inTable);
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return '';
+  }
+
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+  const children = () => inlineChildren(element, options);
+
+  if (tag === 'br' && !options.rawBreaks) return '\n';
+  if ((tag === 'strong' || tag === 'b') && element.attributes.length === 0) return `**${children()}**`;
+  if ((tag === 'em' || tag === 'i') && element.attributes.length === 0) return `*${children()}*`;
+  if (tag === 'code' && element.attributes.length === 0 && !element.textContent?.includes('`')) {
+    return `\`${element.textContent}\``;
+  }
+  if (tag === 'a' && hasOnlyAttributes(element, ['href']) && element.getAttribute('href') && !/[\s)]/.test(element.getAttribute('href')!)) {
+    return `[${children()}](${element.getAttribute('href')})`;
+  }
+  if (tag === 'img' && hasOnlyAttributes(element, ['src', 'alt']) && element.getAttribute('src') && !/[\s)]/.test(element.getAttribute('src')!)) {
+    return `![${escapeMarkdownText(element.getAttribute('alt') || '')}](${element.getAttribute('src')})`;
+  }
+
+  return element.outerHTML;
+};
+
+const inlineChildren = (element: Element, options: InlineOptions = {}): string => {
+  return Array.from(element.childNodes).map((child) => inlineToMarkdown(child, options)).join('');
+};
+
+const inlineLines = (element: Element): string => {
+  return inlineChildren(element)
+    .split('\n')
+    .map(escapeLineStart)
+    .join('\n');
+};
+
+const listToMarkdown = (element: Element): string | null => {
+  const items = Array.from(element.children);
+  const simple = items.every(
+    (item) => item.tagName.toLowerCase() === 'li' && item.attributes.length === 0 && isInlineOnly(item)
+  );
+  if (!simple || items.length === 0) return null;
+
+  const ordered = element.tagName.toLowerCase() === 'ol';
+  return items
+    .map((item, index) => {
+      const text = escapeLineStart(inlineChildren(item, { rawBreaks: true }).trim());
+      return `${ordered ? `${index + 1}.` : '-'} ${text}`;
+    })
+    .join('\n');
+};
+
+const tableToMarkdown = (element: Element): string | null => {
+  const sections = Array.from(element.children);
+  const thead = sections.find((child) => child.tagName.toLowerCase() === 'thead');
+  const tbody = sections.find((child) => child.tagName.toLowerCase() === 'tbody');
+  if (!thead || sections.length !== (tbody ? 2 : 1)) return null;
+
+  const headerRows = Array.from(thead.children);
+  const bodyRows = tbody ? Array.from(tbody.children) : [];
+  if (headerRows.length !== 1) return null;
+
+  const allElements = [element, thead, ...(tbody ? [tbody] : []), ...headerRows, ...bodyRows];
+  const cells = [...headerRows, ...bodyRows].flatMap((row) => Array.from(row.children));
+  const simple =
+    allElements.every((item) => item.attributes.length === 0) &&
+    cells.every((cell) => cell.attributes.length === 0 && isInlineOnly(cell)) &&
+    Array.from(headerRows[0].children).every((cell) => cell.tagName.toLowerCase() === 'th') &&
+    bodyRows.every((row) => Array.from(row.children).every((cell) => cell.tagName.toLowerCase() === 'td'));
+  if (!simple) return null;
+
+  const renderRow = (row: Element) =>
+    `| ${Array.from(row.children).map((cell) => inlineChildren(cell, { inTable: true, rawBreaks: true }).trim()).join(' | ')} |`;
+  const columnCount = headerRows[0].children.length;
+
+  return [
+    renderRow(headerRows[0]),
+    `| ${Array(columnCount).fill('---').join(' | ')} |`,
+    ...bodyRows.map(renderRow),
+  ].join('\n');
+};
+
+const calloutType = (element: Element): CalloutType | null => {
+  if (!hasOnlyAttributes(element, ['class'])) return null;
+  const match = (element.getAttribute('class') || '').match(new RegExp(`^${CALLOUT_CLASS} ${CALLOUT_CLASS}--(\\w+)$`));
+  return match && match[1] in CALLOUT_TYPES ? (match[1] as CalloutType) : null;
+};
+
+const blockToMarkdown = (node: Node): string | null => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = (node.textContent || '').trim();
+    return text ? escapeLineStart(escapeMarkdownText(text)) : null;
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return null;
+  }
+
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+  const plain = element.attributes.length === 0;
+
+  if (/^h[1-4]$/.test(tag) && plain && isInlineOnly(element) && tag !== 'h1') {
+    const text = inlineChildren(element, { rawBreaks: true }).trim();
+    if (text) return `${'#'.repeat(parseInt(tag[1], 10))} ${text}`;
+  }
+  if (tag === 'p' && plain && isInlineOnly(element) && element.textContent?.trim()) {
+    return inlineLines(element);
+  }
+  if ((tag === 'ul' || tag === 'ol') && plain) {
+    const list = listToMarkdown(element);
+    if (list) return list;
+  }
+  if (tag === 'table') {
+    const table = tableToMarkdown(element);
+    if (table) return table;
+  }
+  if (tag === 'hr' && plain) {
+    return '---';
+  }
+  if (tag === 'blockquote' && plain) {
+    const inner = childrenToMarkdown(element);
+    if (inner) return inner.split('\n').map((line) => (line ? `> ${line}` : '>')).join('\n');
+  }
+  if (tag === 'div') {
+    const type = calloutType(element);
+    const [title, ...rest] = Array.from(element.childNodes).filter(
+      (child) => child.nodeType !== Node.TEXT_NODE || child.textContent?.trim()
+    );
+    if (type && title instanceof Element && title.getAttribute('class') === CALLOUT_TITLE_CLASS) {
+      const inner = rest.map(blockToMarkdown).filter((block) => block !== null).join('\n\n');
+      return `:::${type}\n${inner}\n:::`;
+    }
+  }
+
+  return element.outerHTML;
+};
+
+const childrenToMarkdown = (parent: Element): string => {
+  return Array.from(parent.childNodes)
+    .map(blockToMarkdown)
+    .filter((block): block is string => block !== null)
+    .join('\n\n');
+};
+
+export const htmlToMarkdown = (html: string): string => {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  return childrenToMarkdown(document.body);
+};
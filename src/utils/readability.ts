@@ -0,0 +1,213 @@
+/**
+ * Japanese readability metrics tuned for elderly readers
+ */
+
+import {
+  ReadabilityAnalysis,
+  ReadabilityIssue,
+  ReadabilityIssueType,
+  ReadabilityMetrics,
+  ReadabilitySentence,
+  ReadabilityTarget,
+} from '../types';
+import { JOYO_KANJI } from './joyoKanji';
+
+export const DEFAULT_READABILITY_TARGET: ReadabilityTarget = {
+  min_kanji_ratio: 20,
+  max_kanji_ratio: 30,
+  max_sentence_length: 50,
+  min_joyo_ratio: 98,
+  max_katakana_jargon_density: 5,
+  max_passive_ratio: 30,
+};
+
+export const READABILITY_ISSUE_LABELS: Record<ReadabilityIssueType, string> = {
+  long_sentence: '長文',
+  kanji_dense: '漢字が多い',
+  rare_kanji: '常用外漢字',
+  katakana_jargon: 'カタカナ専門用語',
+  passive_voice: '受け身が多い',
+};
+
+// Everyday loanwords that elderly readers know; longer katakana words are treated as jargon
+const COMMON_KATAKANA = new Set([
+  'アレルギー', 'インフルエンザ', 'ウイルス', 'カルシウム', 'カロリー', 'サプリメント', 'ストレス',
+  'スポーツ', 'タンパク', 'テレビ', 'ドラッグストア', 'バランス', 'ビタミン', 'ページ', 'ホームページ',
+  'マスク', 'メール', 'リハビリ', 'インターネット', 'コレステロール', 'カプセル', 'クリーム',
+]);
+
+const LETTER = /[\p{L}\p{N}]/u;
+const KANJI = /\p{Script=Han}/u;
+const KATAKANA_WORD = /[\p{Script=Katakana}ー・]{4,}/gu;
+// 〜される / 〜られる and their conjugations; potential forms are counted as well
+const PASSIVE = /[あかがさざただなはばぱまらわ]れ(?:る|ます|まし|た|て|ない|ず)|られ(?:る|ます|まし|た|て|ない|ず)/g;
+const SENTENCE = /[^。！？!?\n]+[。！？!?]*/g;
+
+// Issue thresholds within a single sentence
+const DENSE_SENTENCE_MIN_LENGTH = 15;
+const DENSE_SENTENCE_MARGIN = 10;
+const SENTENCE_JARGON_LIMIT = 2;
+const SENTENCE_PASSIVE_LIMIT = 2;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const getSiteReadabilityTarget = (
+  site?: { readability_target?: Partial<ReadabilityTarget> } | null
+): ReadabilityTarget => {
+  return { ...DEFAULT_READABILITY_TARGET, ...(site?.readability_target || {}) };
+};
+
+const countCharacters = (text: string) => {
+  let letters = 0;
+  let kanji = 0;
+  const rareKanji: string[] = [];
+
+  Array.from(text).forEach((char) => {
+    if (!LETTER.test(char)) return;
+    letters++;
+    if (!KANJI.test(char)) return;
+    kanji++;
+    // 々 repeats the previous kanji and is not listed separately
+    if (char !== '々' && !JOYO_KANJI.has(char)) {
+      rareKanji.push(char);
+    }
+  });
+
+  return { letters, kanji, rareKanji };
+};
+
+const findJargon = (text: string): string[] => {
+  return (text.match(KATAKANA_WORD) || []).filter((word) => !COMMON_KATAKANA.has(word));
+};
+
+const countPassive = (text: string) => (text.match(PASSIVE) || []).length;
+
+const analyzeSentence = (text: string, start: number, target: ReadabilityTarget) => {
+  const { letters, kanji, rareKanji } = countCharacters(text);
+  const jargon = findJargon(text);
+  const passive = countPassive(text);
+  const kanjiRatio = letters > 0 ? (kanji * 100) / letters : 0;
+  const issues: ReadabilityIssue[] = [];
+
+  if (letters > target.max_sentence_length) {
+    issues.push({ type: 'long_sentence', detail: `${letters}文字（目安 ${target.max_sentence_length}文字以内）` });
+  }
+  if (letters >= DENSE_SENTENCE_MIN_LENGTH && kanjiRatio > target.max_kanji_ratio + DENSE_SENTENCE_MARGIN) {
+    issues.push({ type: 'kanji_dense', detail: `漢字率 ${round(kanjiRatio)}%` });
+  }
+  if (rareKanji.length > 0) {
+    issues.push({ type: 'rare_kanji', detail: `「${Array.from(new Set(rareKanji)).join('」「')}」` });
+  }
+  if (jargon.length >= SENTENCE_JARGON_LIMIT) {
+    issues.push({ type: 'katakana_jargon', detail: `「${Array.from(new Set(jargon)).join('」「')}」` });
+  }
+  if (passive >= SENTENCE_PASSIVE_LIMIT) {
+    issues.push({ type: 'passive_voice', detail: `受け身表現 ${passive}箇所` });
+  }
+
+  const sentence: ReadabilitySentence = { text, start, end: start + text.length, issues };
+  return { sentence, letters, kanji, rareKanji: rareKanji.length, jargon: jargon.length, passive };
+};
+
+/**
+ * Analyzes plain text. Sentence positions refer to the given text, so callers
+ * rendering HTML content should pass the result of `stripHtml`.
+ */
+export const analyzeReadability = (
+  text: string,
+  target: ReadabilityTarget = DEFAULT_READABILITY_TARGET
+): ReadabilityAnalysis => {
+  const sentences: ReadabilitySentence[] = [];
+  let letters = 0;
+  let kanji = 0;
+  let rareKanji = 0;
+  let jargon = 0;
+  let passiveSentences = 0;
+
+  for (const match of text.matchAll(SENTENCE)) {
+    const raw = match[0];
+    const trimmed = raw.trim();
+    if (!trimmed || !LETTER.test(trimmed)) continue;
+
+    const start = match.index! + raw.indexOf(trimmed);
+    const result = analyzeSentence(trimmed, start, target);
+    sentences.push(result.sentence);
+    letters += result.letters;
+    kanji += result.kanji;
+    rareKanji += result.rareKanji;
+    jargon += result.jargon;
+    if (result.passive > 0) passiveSentences++;
+  }
+
+  const metrics: ReadabilityMetrics = {
+    character_count: letters,
+    sentence_count: sentences.length,
+    kanji_ratio: letters > 0 ? round((kanji * 100) / letters) : 0,
+    average_sentence_length: sentences.length > 0 ? round(letters / sentences.length) : 0,
+    joyo_ratio: kanji > 0 ? round(((kanji - rareKanji) * 100) / kanji) : 100,
+    katakana_jargon_density: letters > 0 ? round((jargon * 1000) / letters) : 0,
+    passive_ratio: sentences.length > 0 ? round((passiveSentences * 100) / sentences.length) : 0,
+  };
+
+  return { metrics, sentences };
+};
+
+export interface ReadabilityMetricResult {
+  key: keyof ReadabilityMetrics;
+  label: string;
+  value: string;
+  target: string;
+  withinTarget: boolean;
+}
+
+/**
+ * Compares the metrics with the site's target band for display.
+ */
+export const evaluateReadability = (
+  metrics: ReadabilityMetrics,
+  target: ReadabilityTarget
+): ReadabilityMetricResult[] => [
+  {
+    key: 'kanji_ratio',
+    label: '漢字率',
+    value: `${metrics.kanji_ratio}%`,
+    target: `${target.min_kanji_ratio}〜${target.max_kanji_ratio}%`,
+    withinTarget: metrics.kanji_ratio >= target.min_kanji_ratio && metrics.kanji_ratio <= target.max_kanji_ratio,
+  },
+  {
+    key: 'average_sentence_length',
+    label: '平均文長',
+    value: `${metrics.average_sentence_length}文字`,
+    target: `${target.max_sentence_length}文字以内`,
+    withinTarget: metrics.average_sentence_length <= target.max_sentence_length,
+  },
+  {
+    key: 'joyo_ratio',
+    label: '常用漢字率',
+    value: `${metrics.joyo_ratio}%`,
+    target: `${target.min_joyo_ratio}%以上`,
+    withinTarget: metrics.joyo_ratio >= target.min_joyo_ratio,
+  },
+  {
+    key: 'katakana_jargon_density',
+    label: 'カタカナ専門用語',
+    value: `${metrics.katakana_jargon_density}語/千字`,
+    target: `${target.max_katakana_jargon_density}語/千字以内`,
+    withinTarget: metrics.katakana_jargon_density <= target.max_katakana_jargon_density,
+  },
+  {
+    key: 'passive_ratio',
+    label: '受け身の文',
+    value: `${metrics.passive_ratio}%`,
+    target: `${target.max_passive_ratio}%以内`,
+    withinTarget: metrics.passive_ratio <= target.max_passive_ratio,
+  },
+];
+
+/**
+ * Share of metrics within the target band, as a 0–100 score.
+ */
+export const getReadabilityScore = (metrics: ReadabilityMetrics, target: ReadabilityTarget): number => {
+  const results = evaluateReadability(metrics, target);
+  return Math.round((results.filter((result) => result.withinTarget).length * 100) / results.length);
+};
@@ -0,0 +1,54 @@
+/**
+ * Post review workflow helpers
+ */
+
+import { PostStatus } from '../types';
+
+export const POST_STATUS_LABELS: Record<PostStatus, string> = {
+  draft: '下書き',
+  in_review: 'レビュー中',
+  changes_requested: '差し戻し',
+  approved: '承認済み',
+  scheduled: '予定投稿',
+  published: '公開済み',
+  failed: '失敗',
+  processing: '処理中',
+};
+
+// Only posts a pharmacist has signed off on may go out to WordPress
+export const canPublishPost = (post: { status: string; content?: string }): boolean => {
+  return post.status === 'approved' && !!post.content;
+};
+
+export const canSchedulePost = (post: { status: string }): boolean => {
+  return post.status === 'approved' || post.status === 'scheduled';
+};
+
+export const canSubmitForReview = (post: { status: string; content?: string }): boolean => {
+  return (post.status === 'draft' || post.status === 'changes_requested') && !!post.content;
+};
+
+/**
+ * Only the pharmacist the review was requested from, or a user with the
+ * reviewer role, may approve or send back a post under review.
+ */
+export const canDecideReview = (
+  post: { status: string; reviewer_id?: string | null },
+  user?: { id: string; role?: string } | null
+): boolean => {
+  if (post.status !== 'in_review' || !user) return false;
+  return post.reviewer_id === user.id || user.role === 'reviewer';
+};
+
+/**
+ * Whether saving an edit withdraws a pharmacist's approval: any change to the
+ * title or body of an approved or scheduled post means the text going out is
+ * no longer the text that was reviewed.
+ */
+export const invalidatesApproval = (
+  post: { status: string; title?: string; content?: string },
+  edit: { title: string; content: string }
+): boolean => {
+  if (post.status !== 'approved' && post.status !== 'scheduled') return false;
+  return edit.title.trim() !== (post.title || '').trim() || edit.content.trim() !== (post.content || '').trim();
+};
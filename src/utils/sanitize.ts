@@ -0,0 +1,178 @@
+/**
+ * HTML sanitization for post content coming from Claude and WordPress
+ *
+ * Allowlist based: only markup that appears in WordPress posts survives.
+ * Unknown elements are unwrapped (their text is kept), dangerous elements are
+ * removed together with their contents, and every URL attribute is checked
+ * against a protocol allowlist.
+ */
+
+export interface SanitizeOptions {
+  allowedIframeHosts?: string[];
+}
+
+export const DEFAULT_IFRAME_HOSTS = [
+  'www.youtube.com',
+  'youtube.com',
+  'www.youtube-nocookie.com',
+  'player.vimeo.com',
+  'www.google.com/maps',
+];
+
+const GLOBAL_ATTRIBUTES = ['class', 'title', 'lang', 'dir'];
+
+// A Map, so that tag names like "constructor" never hit Object.prototype
+const ALLOWED_TAGS = new Map<string, string[]>(Object.entries({
+  h1: [], h2: [], h3: [], h4: [], h5: [], h6: [],
+  p: [], br: [], hr: [], div: [], span: [],
+  strong: [], b: [], em: [], i: [], u: [], s: [], del: [], ins: [],
+  sub: [], sup: [], mark: [], small: [], code: [], pre: [],
+  blockquote: ['cite'],
+  ul: [], ol: ['start', 'reversed', 'type'], li: ['value'],
+  dl: [], dt: [], dd: [],
+  a: ['href', 'target', 'rel'],
+  img: ['src', 'alt', 'width', 'height', 'loading'],
+  figure: [], figcaption: [],
+  table: [], caption: [], colgroup: ['span'], col: ['span'],
+  thead: [], tbody: [], tfoot: [], tr: [],
+  th: ['colspan', 'rowspan', 'scope'], td: ['colspan', 'rowspan'],
+  iframe: ['src', 'width', 'height', 'title', 'allow', 'allowfullscreen', 'loading'],
+}));
+
+// Removed together with everything inside them
+const FORBIDDEN_TAGS = new Set([
+  'script', 'style', 'template', 'noscript', 'object', 'embed', 'applet',
+  'frame', 'frameset', 'svg', 'math', 'form', 'input', 'button', 'textarea',
+  'select', 'option', 'link', 'meta', 'base', 'title', 'head',
+]);
+
+const URL_ATTRIBUTES = new Set(['href', 'src', 'cite']);
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+const ALLOWED_REL = new Set(['nofollow', 'noopener', 'noreferrer', 'sponsored', 'ugc', 'external']);
+
+export const isSafeUrl = (value: string): boolean => {
+  // Browsers ignore control characters and whitespace inside the scheme ("java\tscript:")
+  const normalized = value.replace(/[\u0000- \u007F-\u009F]/g, '');
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/i);
+  if (!scheme) return true;
+  return SAFE_PROTOCOLS.includes(scheme[0].toLowerCase());
+};
+
+const isAllowedIframe = (src: string, hosts: string[]): boolean => {
+  try {
+    const url = new URL(src, 'https://invalid.invalid');
+    if (url.protocol !== 'https:') return false;
+    return hosts.some((host) => {
+      const [hostname, ...path] = host.split('/');
+      const prefix = path.length > 0 ? `/${path.join('/')}` : '';
+      return url.hostname === hostname && url.pathname.startsWith(prefix);
+    });
+  } catch {
+    return false;
+  }
+};
+
+const isExternalLink = (href: string): boolean => {
+  try {
+    return new URL(href, window.location.href).origin !== window.location.origin;
+  } catch {
+    return false;
+  }
+};
+
+const sanitizeLink = (element: Element) => {
+  const href = element.getAttribute('href');
+  const target = element.getAttribute('target');
+  const rel = new Set(
+    (element.getAttribute('rel') || '').toLowerCase().split(/\s+/).filter((token) => ALLOWED_REL.has(token))
+  );
+
+  if (target && target !== '_blank') {
+    element.removeAttribute('target');
+  }
+  // New windows must not get access to window.opener
+  if (target === '_blank' || (href && isExternalLink(href))) {
+    rel.add('noopener');
+    rel.add('noreferrer');
+  }
+
+  if (rel.size > 0) {
+    element.setAttribute('rel', Array.from(rel).join(' '));
+  } else {
+    element.removeAttribute('rel');
+  }
+};
+
+const sanitizeElement = (element: Element, options: Required<SanitizeOptions>) => {
+  const tag = element.tagName.toLowerCase();
+  const allowed = ALLOWED_TAGS.get(tag) || [];
+
+  Array.from(element.attributes).forEach((attribute) => {
+    const name = attribute.name.toLowerCase();
+    if (!GLOBAL_ATTRIBUTES.includes(name) && !allowed.includes(name)) {
+      element.removeAttribute(attribute.name);
+    } else if (URL_ATTRIBUTES.has(name) && !isSafeUrl(attribute.value)) {
+      element.removeAttribute(attribute.name);
+    }
+  });
+
+  if (tag === 'iframe' && !isAllowedIframe(element.getAttribute('src') || '', options.allowedIframeHosts)) {
+    element.remove();
+    return;
+  }
+  if (tag === 'a') {
+    sanitizeLink(element);
+  }
+};
+
+const sanitizeChildren = (parent: Node, options: Required<SanitizeOptions>) => {
+  Array.from(parent.childNodes).forEach((node) => {
+    if (node.nodeType === Node.TEXT_NODE) return;
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      node.parentNode?.removeChild(node);
+      return;
+    }
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+
+    if (FORBIDDEN_TAGS.has(tag)) {
+      element.remove();
+      return;
+    }
+
+    sanitizeChildren(element, options);
+
+    if (!ALLOWED_TAGS.has(tag)) {
+      element.replaceWith(...Array.from(element.childNodes));
+      return;
+    }
+
+    sanitizeElement(element, options);
+  });
+};
+
+/**
+ * Returns a safe copy of `html`. Parsing through DOMParser also repairs
+ * malformed nesting, so the result is always well-formed markup.
+ */
+export const sanitizeHtml = (html: string, options: SanitizeOptions = {}): string => {
+  if (!html) return '';
+
+  const resolved: Required<SanitizeOptions> = {
+    allowedIframeHosts: options.allowedIframeHosts || DEFAULT_IFRAME_HOSTS,
+  };
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  sanitizeChildren(document.body, resolved);
+  return document.body.innerHTML;
+};
+
+/**
+ * Whether sanitizing would change `html` beyond the markup repairs any
+ * parse does, e.g. by dropping inline styles or unknown elements.
+ */
+export const sanitizeChangesHtml = (html: string, options: SanitizeOptions = {}): boolean => {
+  if (!html) return false;
+  const parsed = new DOMParser().parseFromString(html, 'text/html').body.innerHTML;
+  return sanitizeHtml(html, options) !== parsed;
+};
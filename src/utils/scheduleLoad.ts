@@ -0,0 +1,161 @@
+/**
+ * Projected generation/publish load across sites, collision detection and
+ * staggered posting times
+ */
+
+import { Holiday, LoadBucket, LoadJob, ScheduleCollision, StaggerSuggestion } from '../types';
+import { parseCron } from './cron';
+import { getScheduleCronExpression, projectScheduleRuns } from './scheduling';
+import { getScheduleTopicSource } from './topicSources';
+
+export interface SiteSchedules {
+  site: { id: string; name: string };
+  schedules: any[];
+  lookup: (date: string) => Holiday | undefined;
+}
+
+// Later offsets are tried in steps of the collision window up to this far
+const MAX_STAGGER_MINUTES = 180;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Every firing of the active schedules in the range. A firing that publishes
+ * a queued draft only touches WordPress; the others also call Claude.
+ */
+export const buildLoadJobs = (entries: SiteSchedules[], from: Date, to: Date): LoadJob[] =>
+  entries
+    .flatMap(({ site, schedules, lookup }) =>
+      schedules
+        .filter((schedule) => schedule.is_active !== false)
+        .flatMap((schedule) =>
+          projectScheduleRuns(schedule, from, to, lookup)
+            .filter((run) => run.run_at)
+            .map((run) => ({
+              site_id: site.id,
+              site_name: site.name,
+              schedule_id: schedule.id,
+              at: run.run_at!,
+              kind: getScheduleTopicSource(schedule).type === 'draft_queue' ? 'publish' as const : 'generate' as const,
+            }))
+        )
+    )
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+const bucketStart = (date: Date, minutes: number): number => {
+  const size = minutes * 60000;
+  return Math.floor(date.getTime() / size) * size;
+};
+
+/**
+ * Job counts per `minutes`-long bucket from `from` to `to`, empty buckets
+ * included so charts keep a continuous axis.
+ */
+export const bucketLoad = (jobs: LoadJob[], from: Date, to: Date, minutes = 60): LoadBucket[] => {
+  const buckets = new Map<number, LoadBucket>();
+  for (let time = bucketStart(from, minutes); time <= to.getTime(); time += minutes * 60000) {
+    buckets.set(time, { start: new Date(time), generate: 0, publish: 0 });
+  }
+  jobs.forEach((job) => {
+    const bucket = buckets.get(bucketStart(job.at, minutes));
+    if (bucket) bucket[job.kind] += 1;
+  });
+  return Array.from(buckets.values());
+};
+
+const groupByWindow = (jobs: LoadJob[], windowMinutes: number): Map<number, LoadJob[]> => {
+  const windows = new Map<number, LoadJob[]>();
+  jobs.forEach((job) => {
+    const key = bucketStart(job.at, windowMinutes);
+    windows.set(key, [...(windows.get(key) || []), job]);
+  });
+  return windows;
+};
+
+/**
+ * Windows in which more than `threshold` firings start
+ */
+export const findCollisions = (jobs: LoadJob[], windowMinutes: number, threshold: number): ScheduleCollision[] =>
+  Array.from(groupByWindow(jobs, windowMinutes).entries())
+    .filter(([, windowJobs]) => windowJobs.length > threshold)
+    .map(([start, windowJobs]) => ({ start: new Date(start), jobs: windowJobs }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatMinutes = (minutes: number) => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+// Minutes after midnight a preset schedule fires at; null for custom cron
+// expressions and anything else `specific_time` cannot express
+const getScheduleMinutes = (schedule: any): number | null => {
+  if (schedule.frequency === 'custom') return null;
+  const expression = getScheduleCronExpression(schedule);
+  const cron = expression ? parseCron(expression).cron : null;
+  if (!cron || cron.hours.length !== 1 || cron.minutes.length !== 1) return null;
+  return cron.hours[0] * 60 + cron.minutes[0];
+};
+
+/**
+ * Suggests later `specific_time` values for schedules in over-threshold
+ * windows. Schedules are moved greedily, earliest collision first, to the
+ * smallest offset (a multiple of the window) at which none of their runs
+ * lands in a full window. Custom cron schedules are never moved.
+ */
+export const suggestStaggeredTimes = (
+  entries: SiteSchedules[],
+  jobs: LoadJob[],
+  windowMinutes: number,
+  threshold: number
+): StaggerSuggestion[] => {
+  const schedules = new Map(
+    entries.flatMap(({ site, schedules: siteSchedules }) =>
+      siteSchedules.map((schedule) => [schedule.id, { site, schedule }] as const)
+    )
+  );
+  const load = new Map<number, number>();
+  jobs.forEach((job) => {
+    const key = bucketStart(job.at, windowMinutes);
+    load.set(key, (load.get(key) || 0) + 1);
+  });
+
+  const suggestions: StaggerSuggestion[] = [];
+  const moved = new Set<string>();
+
+  findCollisions(jobs, windowMinutes, threshold).forEach((collision) => {
+    const key = collision.start.getTime();
+    // The latest-listed schedules move first so the earlier ones keep their time
+    const scheduleIds = Array.from(new Set(collision.jobs.map((job) => job.schedule_id))).reverse();
+
+    scheduleIds.forEach((scheduleId) => {
+      if ((load.get(key) || 0) <= threshold || moved.has(scheduleId)) return;
+      const entry = schedules.get(scheduleId);
+      const minutes = entry && getScheduleMinutes(entry.schedule);
+      if (!entry || minutes === null || minutes === undefined) return;
+
+      const runs = jobs.filter((job) => job.schedule_id === scheduleId).map((job) => job.at.getTime());
+      for (let offset = windowMinutes; offset <= MAX_STAGGER_MINUTES; offset += windowMinutes) {
+        if (minutes + offset >= MINUTES_PER_DAY) break;
+        const targets = runs.map((time) => bucketStart(new Date(time + offset * 60000), windowMinutes));
+        if (targets.some((target) => (load.get(target) || 0) + 1 > threshold)) continue;
+
+        runs.forEach((time) => {
+          const source = bucketStart(new Date(time), windowMinutes);
+          load.set(source, (load.get(source) || 0) - 1);
+        });
+        targets.forEach((target) => load.set(target, (load.get(target) || 0) + 1));
+        moved.add(scheduleId);
+        suggestions.push({
+          site_id: entry.site.id,
+          site_name: entry.site.name,
+          schedule_id: scheduleId,
+          current_time: formatMinutes(minutes),
+          suggested_time: formatMinutes(minutes + offset),
+          offset_minutes: offset,
+        });
+        return;
+      }
+    });
+  });
+
+  return suggestions;
+};
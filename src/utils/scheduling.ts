@@ -0,0 +1,243 @@
+/**
+ * Projection of posting schedules onto calendar slots
+ */
+
+import { CalendarEvent, CalendarEventKind, Holiday, HolidayMode, ScheduleBlackout, ScheduledRun } from '../types';
+import { getCronRuns, parseCron } from './cron';
+import { applyHolidayRule, getZonedDateKey } from './holidays';
+
+// Preset frequencies expressed as day-of-month / day-of-week cron fields
+export const FREQUENCY_CRON_DAYS: Record<string, string> = {
+  daily: '* * *',
+  weekly_3: '* * 1,3,5',
+  weekly_2: '* * 2,5',
+  weekly_1: '* * 1',
+  monthly_2: '1,15 * *',
+};
+
+export const TIME_SLOT_TIMES: Record<string, string> = {
+  morning: '09:00',
+  afternoon: '14:00',
+  evening: '18:00',
+  night: '22:00',
+};
+
+interface ScheduleLike {
+  frequency: string;
+  time_slot: string;
+  specific_time?: string;
+  cron_expression?: string;
+  timezone?: string;
+  skip_holidays?: boolean;
+  holiday_mode?: HolidayMode;
+  blackouts?: ScheduleBlackout[];
+  paused_until?: string | null;
+  max_monthly_posts?: number;
+  is_active?: boolean;
+}
+
+/**
+ * The cron expression a schedule runs on, or null when it cannot be derived.
+ */
+export const getScheduleCronExpression = (schedule: ScheduleLike): string | null => {
+  if (schedule.frequency === 'custom') {
+    return schedule.cron_expression?.trim() || null;
+  }
+
+  const days = FREQUENCY_CRON_DAYS[schedule.frequency];
+  const time = schedule.time_slot === 'specific' ? schedule.specific_time : TIME_SLOT_TIMES[schedule.time_slot];
+  const match = time?.match(/^(\d{1,2}):(\d{2})$/);
+  if (!days || !match) return null;
+
+  return `${parseInt(match[2], 10)} ${parseInt(match[1], 10)} ${days}`;
+};
+
+export const projectScheduleSlots = (schedule: ScheduleLike, from: Date, to: Date): Date[] => {
+  const expression = getScheduleCronExpression(schedule);
+  if (!expression) return [];
+  const { cron } = parseCron(expression);
+  if (!cron) return [];
+  // The range end bounds the result; the limit only guards against runaway expressions
+  return getCronRuns(cron, new Date(from.getTime() - 60000), {
+    until: to,
+    limit: 1000,
+    timeZone: schedule.timezone,
+  });
+};
+
+export const getBlackoutOn = (schedule: ScheduleLike, date: string): ScheduleBlackout | undefined =>
+  schedule.blackouts?.find((blackout) => blackout.start <= date && date <= blackout.end);
+
+// A paused schedule resumes by itself on its `paused_until` date
+export const isPausedOn = (schedule: ScheduleLike, date: string): boolean =>
+  !!schedule.paused_until && date < schedule.paused_until;
+
+/**
+ * Days left until a paused schedule resumes, or null when it is not paused.
+ */
+export const getDaysUntilResume = (schedule: ScheduleLike, now: Date): number | null => {
+  const today = getZonedDateKey(now, schedule.timezone);
+  if (!isPausedOn(schedule, today)) return null;
+  const toTime = (date: string) => new Date(`${date}T00:00:00Z`).getTime();
+  return Math.round((toTime(schedule.paused_until!) - toTime(today)) / 86400000);
+};
+
+/**
+ * Applies the schedule's holiday handling, then its pause and blackouts, to
+ * raw run times. A run shifted off a holiday is still dropped when it lands
+ * in a blackout. Dates are judged in the schedule's time zone.
+ */
+export const resolveScheduleRuns = (
+  schedule: ScheduleLike,
+  runs: Date[],
+  lookup: (date: string) => Holiday | undefined
+): ScheduledRun[] => {
+  const resolved: ScheduledRun[] = schedule.skip_holidays
+    ? applyHolidayRule(runs, lookup, { mode: schedule.holiday_mode || 'skip', timeZone: schedule.timezone })
+    : runs.map((date) => ({ scheduled_at: date, run_at: date }));
+
+  return resolved.map((run) => {
+    if (!run.run_at) return run;
+    const date = getZonedDateKey(run.run_at, schedule.timezone);
+    if (isPausedOn(schedule, date)) return { ...run, run_at: null, paused: true };
+    const blackout = getBlackoutOn(schedule, date);
+    return blackout ? { ...run, run_at: null, blackout } : run;
+  });
+};
+
+/**
+ * The next `count` runs that will actually post once holidays, blackouts
+ * and pauses are applied.
+ */
+export const getUpcomingRuns = (
+  schedule: ScheduleLike,
+  from: Date,
+  count: number,
+  lookup: (date: string) => Holiday | undefined
+): Date[] => {
+  const expression = getScheduleCronExpression(schedule);
+  const cron = expression ? parseCron(expression).cron : null;
+  if (!cron) return [];
+
+  const result: Date[] = [];
+  let cursor = from;
+  // Fetch in batches so that a long pause or blackout is stepped over
+  for (let batch = 0; batch < 20 && result.length < count; batch++) {
+    const runs = getCronRuns(cron, cursor, { limit: count * 5, timeZone: schedule.timezone });
+    if (runs.length === 0) break;
+    resolveScheduleRuns(schedule, runs, lookup).forEach(({ run_at }) => run_at && result.push(run_at));
+    cursor = runs[runs.length - 1];
+  }
+  return result.sort((a, b) => a.getTime() - b.getTime()).slice(0, count);
+};
+
+export const projectScheduleRuns = (
+  schedule: ScheduleLike,
+  from: Date,
+  to: Date,
+  lookup: (date: string) => Holiday | undefined
+): ScheduledRun[] => resolveScheduleRuns(schedule, projectScheduleSlots(schedule, from, to), lookup);
+
+/**
+ * Posts the active schedules will still make in the range, and how many
+ * slots their blackouts and pauses take away.
+ */
+export const countScheduledRuns = (
+  schedules: ScheduleLike[],
+  from: Date,
+  to: Date,
+  lookup: (date: string) => Holiday | undefined
+): { planned: number; suspended: number } => {
+  const runs = schedules
+    .filter((schedule) => schedule.is_active !== false)
+    .flatMap((schedule) => projectScheduleRuns(schedule, from, to, lookup));
+  return {
+    planned: runs.filter((run) => run.run_at).length,
+    suspended: runs.filter((run) => run.paused || run.blackout).length,
+  };
+};
+
+/**
+ * The tightest `max_monthly_posts` among a site's active schedules, or null
+ * when no active schedule limits the site.
+ */
+export const getMonthlyPostLimit = (schedules: ScheduleLike[]): number | null => {
+  const limits = schedules
+    .filter((schedule) => schedule.is_active !== false && schedule.max_monthly_posts)
+    .map((schedule) => schedule.max_monthly_posts!);
+  return limits.length > 0 ? Math.min(...limits) : null;
+};
+
+const POST_EVENT_KINDS: Record<string, CalendarEventKind> = {
+  scheduled: 'scheduled',
+  published: 'published',
+  failed: 'failed',
+};
+
+// Published posts sit on their publish date, the others on their scheduled date
+const getPostDate = (post: any): Date | null => {
+  const value = post.status === 'published' ? post.published_at : post.scheduled_at;
+  return value ? new Date(value) : null;
+};
+
+/**
+ * Posts that count against the monthly limit: scheduled or published in the
+ * same calendar month as `date`.
+ */
+export const countPostsInMonth = (posts: any[], date: Date, excludeId?: string): number =>
+  posts.filter((post) => {
+    if (post.id === excludeId || (post.status !== 'scheduled' && post.status !== 'published')) return false;
+    const postDate = getPostDate(post);
+    return !!postDate && postDate.getFullYear() === date.getFullYear() && postDate.getMonth() === date.getMonth();
+  }).length;
+
+const getSlotTitle = ({ run_at, holiday, blackout, paused }: ScheduledRun): string => {
+  if (paused) return '一時停止中';
+  if (blackout) return blackout.reason ? `休止期間（${blackout.reason}）` : '休止期間';
+  if (!holiday) return '投稿枠';
+  return run_at ? `投稿枠（${holiday.name}から振替）` : `${holiday.name}のため休止`;
+};
+
+/**
+ * Calendar entries for one site: its scheduled, published and failed posts
+ * plus the slots its active schedules will fire on in the range. Slots that
+ * fall on a holiday are shown as skipped or on the day they shift to.
+ */
+export const buildCalendarEvents = (
+  site: { id: string; name: string },
+  posts: any[],
+  schedules: (ScheduleLike & { id: string })[],
+  from: Date,
+  to: Date,
+  lookup: (date: string) => Holiday | undefined
+): CalendarEvent[] => {
+  const inRange = (date: Date) => date >= from && date <= to;
+  const events: CalendarEvent[] = [];
+
+  posts.forEach((post) => {
+    const kind = POST_EVENT_KINDS[post.status];
+    const date = getPostDate(post);
+    if (!kind || !date || !inRange(date)) return;
+    events.push({ id: `post-${post.id}`, kind, site_id: site.id, site_name: site.name, date, title: post.title, post });
+  });
+
+  schedules
+    .filter((schedule) => schedule.is_active !== false)
+    .forEach((schedule) => {
+      projectScheduleRuns(schedule, from, to, lookup).forEach((run) => {
+        const { scheduled_at, run_at, holiday } = run;
+        if (run_at && !inRange(run_at)) return;
+        events.push({
+          id: `slot-${schedule.id}-${scheduled_at.getTime()}`,
+          kind: run_at ? 'slot' : 'skipped',
+          site_id: site.id,
+          site_name: site.name,
+          date: run_at || scheduled_at,
+          title: getSlotTitle(run),
+          holiday,
+        });
+      });
+    });
+
+  return events.sort((a, b) => a.date.getTime() - b.date.getTime());
+};
@@ -0,0 +1,109 @@
+/**
+ * Seasonal health topic calendar and coverage matching
+ */
+
+import { SeasonalTopic } from '../types';
+
+const SNOW_COUNTRY = ['北海道', '青森県', '岩手県', '秋田県', '山形県', '新潟県'];
+
+const seed = (month: number, entries: [string, string[], string[]?][]): SeasonalTopic[] =>
+  entries.map(([topic, keywords, regions = []], index) => ({
+    id: `default-${month}-${index + 1}`,
+    month,
+    topic,
+    keywords,
+    regions,
+  }));
+
+export const DEFAULT_SEASONAL_TOPICS: SeasonalTopic[] = [
+  ...seed(1, [
+    ['インフルエンザの流行と受診の目安', ['インフルエンザ', '発熱']],
+    ['冬の乾燥肌・かゆみ対策', ['乾燥肌', '保湿剤']],
+    ['ノロウイルスなど感染性胃腸炎の予防', ['ノロウイルス', '胃腸炎']],
+  ]),
+  ...seed(2, [
+    ['花粉症の初期療法と市販薬の選び方', ['花粉症', '抗ヒスタミン薬']],
+    ['受験期の体調管理と風邪予防', ['受験', '風邪予防']],
+    ['雪道の転倒予防と湿布の使い方', ['転倒', '湿布'], SNOW_COUNTRY],
+  ]),
+  ...seed(3, [
+    ['花粉症の目薬・点鼻薬の正しい使い方', ['花粉症', '目薬', '点鼻薬']],
+    ['新生活のストレスと睡眠の悩み', ['ストレス', '不眠']],
+  ]),
+  ...seed(4, [
+    ['健康診断の結果の見方と生活習慣の見直し', ['健康診断', '生活習慣病']],
+    ['春の紫外線対策と日焼け止めの選び方', ['紫外線', '日焼け止め']],
+  ]),
+  ...seed(5, [
+    ['五月病と自律神経の整え方', ['五月病', '自律神経']],
+    ['シラカバ花粉症と口腔アレルギー', ['シラカバ', '花粉症'], ['北海道']],
+    ['梅雨入り前のカビ・食中毒対策', ['カビ', '食中毒'], ['沖縄県']],
+  ]),
+  ...seed(6, [
+    ['梅雨時期の食中毒予防', ['食中毒', '梅雨']],
+    ['梅雨の頭痛・気象病との付き合い方', ['頭痛', '気象病']],
+  ]),
+  ...seed(7, [
+    ['熱中症の予防と経口補水液の使い方', ['熱中症', '経口補水液']],
+    ['子どもの夏風邪（手足口病・ヘルパンギーナ）', ['夏風邪', '手足口病']],
+  ]),
+  ...seed(8, [
+    ['夏バテ対策と漢方薬', ['夏バテ', '漢方薬']],
+    ['旅行・帰省時の常備薬チェックリスト', ['常備薬', '旅行']],
+  ]),
+  ...seed(9, [
+    ['秋の花粉症（ブタクサ・ヨモギ）', ['花粉症', 'ブタクサ']],
+    ['防災に備えるお薬手帳と備蓄薬', ['防災', 'お薬手帳']],
+    ['台風シーズンの気圧変化と体調管理', ['台風', '気圧'], ['沖縄県', '鹿児島県', '宮崎県', '高知県']],
+  ]),
+  ...seed(10, [
+    ['インフルエンザ予防接種の時期と注意点', ['インフルエンザ', '予防接種']],
+    ['季節の変わり目の喘息・咳対策', ['喘息', '咳']],
+  ]),
+  ...seed(11, [
+    ['冬の感染症に備える手洗い・うがい', ['感染症', '手洗い']],
+    ['乾燥によるのどの痛みとのど飴・トローチ', ['のどの痛み', 'トローチ']],
+  ]),
+  ...seed(12, [
+    ['年末年始の薬局休業と常備薬の準備', ['年末年始', '常備薬']],
+    ['忘年会シーズンの胃もたれ・二日酔い対策', ['胃もたれ', '二日酔い']],
+    ['凍結路面とヒートショックの予防', ['ヒートショック', '凍結'], SNOW_COUNTRY],
+  ]),
+];
+
+/**
+ * Whether a topic applies to a site region. Site regions are free text
+ * (e.g. "東京都渋谷区"), so a topic region matches when either string
+ * contains the other.
+ */
+export const matchesRegion = (topic: SeasonalTopic, region?: string): boolean => {
+  if (topic.regions.length === 0 || !region) return true;
+  return topic.regions.some((item) => region.includes(item) || item.includes(region));
+};
+
+export const getSeasonalTopicsForMonth = (
+  topics: SeasonalTopic[],
+  month: number,
+  region?: string
+): SeasonalTopic[] => topics.filter((topic) => topic.month === month && matchesRegion(topic, region));
+
+const normalizeText = (text: string) =>
+  text.toLowerCase().replace(/[\s　・、。,.!?！？「」『』（）()【】]/g, '');
+
+/**
+ * Finds an existing post that already covers a seasonal topic: either the
+ * title contains the topic itself or every topic keyword.
+ */
+export const findCoveringPost = <T extends { title: string }>(
+  topic: SeasonalTopic,
+  posts: T[]
+): T | undefined => {
+  const normalizedTopic = normalizeText(topic.topic);
+  const keywords = topic.keywords.map(normalizeText).filter(Boolean);
+
+  return posts.find((post) => {
+    const title = normalizeText(post.title || '');
+    if (title.includes(normalizedTopic)) return true;
+    return keywords.length > 0 && keywords.every((keyword) => title.includes(keyword));
+  });
+};
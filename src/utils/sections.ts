@@ -0,0 +1,79 @@
+/**
+ * Splitting article HTML into heading sections for partial rewrites
+ */
+
+import { ArticleSection, SectionRewriteAction } from '../types';
+
+export const SECTION_REWRITE_ACTION_LABELS: Record<SectionRewriteAction, string> = {
+  regenerate: '再生成',
+  shorten: '短くする',
+  expand: '詳しくする',
+  tone: 'トーンを変更',
+};
+
+const HEADING_TAG = /<h([23])\b[^>]*>([\s\S]*?)<\/h\1>/gi;
+
+const headingText = (html: string): string =>
+  html
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .trim();
+
+/**
+ * Splits article HTML at its h2/h3 headings. A section runs from its heading
+ * to the next heading of the same or a higher level, so an h2 section
+ * includes its h3 subsections. Text before the first heading becomes an
+ * untitled lead section (level 0).
+ */
+export const splitArticleSections = (html: string): ArticleSection[] => {
+  const headings = Array.from(html.matchAll(HEADING_TAG)).map((match) => ({
+    level: parseInt(match[1], 10),
+    heading: headingText(match[2]),
+    start: match.index || 0,
+  }));
+
+  const sections: ArticleSection[] = [];
+  const leadEnd = headings.length > 0 ? headings[0].start : html.length;
+  if (html.slice(0, leadEnd).trim()) {
+    sections.push({ heading: '', level: 0, start: 0, end: leadEnd, html: html.slice(0, leadEnd) });
+  }
+
+  headings.forEach((heading, index) => {
+    const next = headings.slice(index + 1).find((candidate) => candidate.level <= heading.level);
+    const end = next ? next.start : html.length;
+    sections.push({ ...heading, end, html: html.slice(heading.start, end) });
+  });
+
+  return sections;
+};
+
+/**
+ * Swaps a section's HTML for a replacement. Returns null when the article has
+ * changed since the section was taken, so a stale proposal is never applied.
+ */
+export const replaceArticleSection = (
+  html: string,
+  section: ArticleSection,
+  replacement: string
+): string | null => {
+  if (html.slice(section.start, section.end) !== section.html) return null;
+
+  // Keep the blank line that separated the section from what follows
+  const trailing = section.html.match(/\s*$/)?.[0] || '';
+  return html.slice(0, section.start) + replacement.trim() + trailing + html.slice(section.end);
+};
+
+/**
+ * Display title for a Claude request: the section heading for section
+ * rewrites, otherwise the article topic.
+ */
+export const getClaudeRequestTopic = (requestData: any): string | undefined => {
+  if (requestData?.section_rewrite) {
+    return `「${requestData.section_rewrite.heading || '導入文'}」の書き換え`;
+  }
+  return requestData?.article_config?.topic;
+};
@@ -0,0 +1,262 @@
+/**
+ * On-page SEO analysis for Japanese posts
+ */
+
+import { SeoAnalysis, SeoCheck, SeoCheckStatus } from '../types';
+
+export interface SeoInput {
+  title: string;
+  content: string;
+  metaDescription?: string;
+  keyword?: string;
+  siteUrl?: string;
+}
+
+// Recommended ranges in full-width characters, as shown in Japanese search results
+export const SEO_TITLE_RANGE = { min: 25, max: 32 };
+export const SEO_META_DESCRIPTION_RANGE = { min: 80, max: 120 };
+export const SEO_KEYWORD_DENSITY_RANGE = { min: 1, max: 4 };
+
+const STATUS_POINTS: Record<SeoCheckStatus, number> = { pass: 1, warn: 0.5, fail: 0 };
+
+/**
+ * Display width where full-width characters count as 1 and half-width
+ * characters (ASCII, half-width kana) count as 0.5.
+ */
+export const getFullWidthLength = (text: string): number => {
+  return Array.from(text).reduce((width, char) => {
+    const code = char.codePointAt(0)!;
+    const halfWidth = code <= 0x7e || (code >= 0xff61 && code <= 0xff9f);
+    return width + (halfWidth ? 0.5 : 1);
+  }, 0);
+};
+
+const SCRIPT_RUNS = /[\p{Script=Han}々〆ヶ]+|[\p{Script=Katakana}ー]+|\p{Script=Hiragana}+|[\p{L}\p{N}]+/gu;
+
+// Intl.Segmenter is newer than the ES2020 lib this project compiles against
+interface WordSegmenter {
+  segment(text: string): Iterable<{ segment: string; isWordLike?: boolean }>;
+}
+
+type WordSegmenterConstructor = new (locale: string, options: { granularity: 'word' }) => WordSegmenter;
+
+/**
+ * Splits Japanese text into words. Uses Intl.Segmenter where available and
+ * falls back to splitting on script changes (kanji / katakana / hiragana).
+ */
+export const tokenizeJapanese = (text: string): string[] => {
+  const Segmenter = (Intl as unknown as { Segmenter?: WordSegmenterConstructor }).Segmenter;
+  if (Segmenter) {
+    return Array.from(new Segmenter('ja', { granularity: 'word' }).segment(text))
+      .filter((segment) => segment.isWordLike)
+      .map((segment) => segment.segment);
+  }
+  return text.match(SCRIPT_RUNS) || [];
+};
+
+const countOccurrences = (text: string, keyword: string): number => {
+  if (!keyword) return 0;
+  return text.toLowerCase().split(keyword.toLowerCase()).length - 1;
+};
+
+const includesKeyword = (text: string, keyword: string) => countOccurrences(text, keyword) > 0;
+
+const rangeStatus = (value: number, range: { min: number; max: number }, tolerance: number): SeoCheckStatus => {
+  if (value >= range.min && value <= range.max) return 'pass';
+  if (value >= range.min - tolerance && value <= range.max + tolerance) return 'warn';
+  return 'fail';
+};
+
+const formatLength = (length: number) => `${Math.round(length * 10) / 10}文字`;
+
+const parseUrl = (value: string): URL | null => {
+  try {
+    // The base only resolves protocol-relative "//host" links
+    return new URL(value, 'https://example.invalid');
+  } catch {
+    return null;
+  }
+};
+
+const ABSOLUTE_URL = /^([a-z][a-z0-9+.-]*:|\/\/)/i;
+
+/**
+ * Whether a link leads to a page on the site or elsewhere. Only web pages
+ * count: same-page anchors and mailto:, tel: or other schemes return null.
+ */
+const classifyLink = (href: string, siteUrl?: string): 'internal' | 'external' | null => {
+  const value = href.trim();
+  if (!value || value.startsWith('#')) return null;
+  if (!ABSOLUTE_URL.test(value)) return 'internal';
+  const url = parseUrl(value);
+  if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) return null;
+  return siteUrl && url.hostname === parseUrl(siteUrl)?.hostname ? 'internal' : 'external';
+};
+
+const checkTitle = (title: string): SeoCheck => {
+  const length = getFullWidthLength(title.trim());
+  const status = length === 0 ? 'fail' : rangeStatus(length, SEO_TITLE_RANGE, 8);
+  return {
+    id: 'title_length',
+    label: 'タイトルの長さ',
+    status,
+    message: `${formatLength(length)}（推奨 ${SEO_TITLE_RANGE.min}〜${SEO_TITLE_RANGE.max}文字）`,
+  };
+};
+
+const checkMetaDescription = (metaDescription: string): SeoCheck => {
+  const length = getFullWidthLength(metaDescription.trim());
+  return {
+    id: 'meta_description_length',
+    label: 'メタディスクリプションの長さ',
+    status: length === 0 ? 'fail' : rangeStatus(length, SEO_META_DESCRIPTION_RANGE, 30),
+    message: length === 0
+      ? 'メタディスクリプションが未設定です'
+      : `${formatLength(length)}（推奨 ${SEO_META_DESCRIPTION_RANGE.min}〜${SEO_META_DESCRIPTION_RANGE.max}文字）`,
+  };
+};
+
+const checkKeywordPlacement = (
+  id: string,
+  label: string,
+  text: string,
+  keyword: string,
+  missingStatus: SeoCheckStatus
+): SeoCheck => {
+  if (!keyword) {
+    return { id, label, status: 'fail', message: 'フォーカスキーワードが未設定です' };
+  }
+  const found = includesKeyword(text, keyword);
+  return {
+    id,
+    label,
+    status: found ? 'pass' : missingStatus,
+    message: found ? `「${keyword}」を含んでいます` : `「${keyword}」が含まれていません`,
+  };
+};
+
+const checkKeywordDensity = (text: string, keyword: string): SeoCheck => {
+  const id = 'keyword_density';
+  const label = 'キーワード出現率';
+  if (!keyword) {
+    return { id, label, status: 'fail', message: 'フォーカスキーワードが未設定です' };
+  }
+
+  const totalTokens = tokenizeJapanese(text).length;
+  const keywordTokens = Math.max(tokenizeJapanese(keyword).length, 1);
+  const occurrences = countOccurrences(text, keyword);
+  const density = totalTokens > 0 ? (occurrences * keywordTokens * 100) / totalTokens : 0;
+  const rounded = Math.round(density * 10) / 10;
+
+  let status: SeoCheckStatus = rangeStatus(density, SEO_KEYWORD_DENSITY_RANGE, 1);
+  if (occurrences === 0) status = 'fail';
+
+  return {
+    id,
+    label,
+    status,
+    message: `${occurrences}回 / ${totalTokens}語（${rounded}%、推奨 ${SEO_KEYWORD_DENSITY_RANGE.min}〜${SEO_KEYWORD_DENSITY_RANGE.max}%）`,
+  };
+};
+
+const checkHeadingHierarchy = (headings: Element[]): SeoCheck => {
+  const id = 'heading_hierarchy';
+  const label = '見出し構造';
+  const levels = headings.map((heading) => parseInt(heading.tagName[1], 10));
+
+  if (levels.length === 0) {
+    return { id, label, status: 'fail', message: '見出し（h2）がありません' };
+  }
+  if (levels.includes(1)) {
+    return { id, label, status: 'fail', message: '本文に h1 が含まれています（h1 は記事タイトルに使われます）' };
+  }
+  if (levels[0] !== 2) {
+    return { id, label, status: 'warn', message: `最初の見出しが h${levels[0]} です（h2 から始めてください）` };
+  }
+  const skipped = levels.findIndex((level, index) => index > 0 && level > levels[index - 1] + 1);
+  if (skipped !== -1) {
+    return {
+      id,
+      label,
+      status: 'warn',
+      message: `h${levels[skipped - 1]} の直後に h${levels[skipped]} があります（階層を飛ばさないでください）`,
+    };
+  }
+  return { id, label, status: 'pass', message: `見出し ${levels.length}個（h2: ${levels.filter((level) => level === 2).length}個）` };
+};
+
+const checkLinks = (links: Element[], siteUrl?: string): SeoCheck[] => {
+  const kinds = links.map((link) => classifyLink(link.getAttribute('href') || '', siteUrl));
+  const internal = kinds.filter((kind) => kind === 'internal').length;
+  const external = kinds.filter((kind) => kind === 'external').length;
+
+  return [
+    {
+      id: 'internal_links',
+      label: '内部リンク',
+      status: internal > 0 ? 'pass' : 'warn',
+      message: internal > 0 ? `${internal}件` : '関連記事への内部リンクがありません',
+    },
+    {
+      id: 'external_links',
+      label: '外部リンク',
+      status: external > 0 ? 'pass' : 'warn',
+      message: external > 0 ? `${external}件` : '公的機関など信頼できる情報源へのリンクがありません',
+    },
+  ];
+};
+
+const checkImageAlt = (images: Element[]): SeoCheck => {
+  const id = 'image_alt';
+  const label = '画像の代替テキスト';
+  if (images.length === 0) {
+    return { id, label, status: 'warn', message: '画像がありません' };
+  }
+  const missing = images.filter((image) => !(image.getAttribute('alt') || '').trim()).length;
+  return {
+    id,
+    label,
+    status: missing === 0 ? 'pass' : 'fail',
+    message: missing === 0 ? `${images.length}枚すべてに設定済み` : `${images.length}枚中${missing}枚で未設定`,
+  };
+};
+
+export const analyzeSeo = ({ title, content, metaDescription = '', keyword = '', siteUrl }: SeoInput): SeoAnalysis => {
+  const document = new DOMParser().parseFromString(content || '', 'text/html');
+  const body = document.body;
+  const focusKeyword = keyword.trim();
+
+  const headings = Array.from(body.querySelectorAll('h1, h2, h3, h4, h5, h6'));
+  const firstParagraph = body.querySelector('p')?.textContent || '';
+  const bodyText = body.textContent || '';
+
+  const checks: SeoCheck[] = [
+    checkTitle(title),
+    checkMetaDescription(metaDescription),
+    checkKeywordPlacement('keyword_in_title', 'タイトルのキーワード', title, focusKeyword, 'fail'),
+    checkKeywordPlacement(
+      'keyword_in_headings',
+      '見出しのキーワード',
+      headings.map((heading) => heading.textContent || '').join('\n'),
+      focusKeyword,
+      'warn'
+    ),
+    checkKeywordPlacement('keyword_in_first_paragraph', '導入文のキーワード', firstParagraph, focusKeyword, 'warn'),
+    checkKeywordDensity(bodyText, focusKeyword),
+    checkHeadingHierarchy(headings),
+    ...checkLinks(Array.from(body.querySelectorAll('a[href]')), siteUrl),
+    checkImageAlt(Array.from(body.querySelectorAll('img'))),
+  ];
+
+  const points = checks.reduce((sum, check) => sum + STATUS_POINTS[check.status], 0);
+  return {
+    score: Math.round((points / checks.length) * 100),
+    checks,
+  };
+};
+
+export const getSeoScoreVariant = (score: number) => {
+  if (score >= 80) return 'success' as const;
+  if (score >= 50) return 'warning' as const;
+  return 'error' as const;
+};
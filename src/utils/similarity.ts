@@ -0,0 +1,155 @@
+/**
+ * Near-duplicate detection for Japanese articles using character shingles
+ *
+ * Japanese has no word boundaries, so titles are compared as character
+ * bigrams and bodies as character trigrams after width/kana folding.
+ */
+
+import { DuplicateCluster, SimilarPost } from '../types';
+import { stripHtml } from './formatters';
+import { normalizeKeywordText } from './keywords';
+
+export const SIMILARITY_WARNING_THRESHOLD = 0.4;
+export const DUPLICATE_CLUSTER_THRESHOLD = 0.5;
+
+// Bodies are truncated so that very long posts do not dominate the report time
+const MAX_CONTENT_LENGTH = 6000;
+
+const TITLE_WEIGHT = 0.4;
+
+interface SimilarityInput {
+  title: string;
+  content?: string;
+}
+
+interface Fingerprint {
+  title: Set<string>;
+  content: Set<string>;
+}
+
+const cleanText = (text: string): string =>
+  normalizeKeywordText(text).replace(/[\p{P}\p{S}]/gu, '');
+
+export const createShingles = (text: string, size: number): Set<string> => {
+  const chars = Array.from(cleanText(text));
+  const shingles = new Set<string>();
+  if (chars.length > 0 && chars.length < size) {
+    shingles.add(chars.join(''));
+  }
+  for (let i = 0; i + size <= chars.length; i++) {
+    shingles.add(chars.slice(i, i + size).join(''));
+  }
+  return shingles;
+};
+
+const intersectionSize = (a: Set<string>, b: Set<string>): number => {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let count = 0;
+  small.forEach((item) => {
+    if (large.has(item)) count++;
+  });
+  return count;
+};
+
+export const jaccardSimilarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  const shared = intersectionSize(a, b);
+  return shared / (a.size + b.size - shared);
+};
+
+// Short topics ("花粉症対策") should match longer titles that contain them, so
+// Jaccard is averaged with the overlap coefficient for titles
+const titleSimilarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  const shared = intersectionSize(a, b);
+  const jaccard = shared / (a.size + b.size - shared);
+  const overlap = shared / Math.min(a.size, b.size);
+  return (jaccard + overlap) / 2;
+};
+
+const createFingerprint = ({ title, content }: SimilarityInput, withContent = true): Fingerprint => ({
+  title: createShingles(title || '', 2),
+  content: withContent
+    ? createShingles(stripHtml(content || '').slice(0, MAX_CONTENT_LENGTH), 3)
+    : new Set<string>(),
+});
+
+const compareFingerprints = (a: Fingerprint, b: Fingerprint) => {
+  const titleScore = titleSimilarity(a.title, b.title);
+  if (a.content.size === 0 || b.content.size === 0) {
+    return { score: titleScore, title_score: titleScore, content_score: null };
+  }
+  const contentScore = jaccardSimilarity(a.content, b.content);
+  return {
+    // A near-identical body is a duplicate whatever the title says
+    score: Math.max(contentScore, TITLE_WEIGHT * titleScore + (1 - TITLE_WEIGHT) * contentScore),
+    title_score: titleScore,
+    content_score: contentScore,
+  };
+};
+
+/**
+ * Existing posts most similar to a topic or draft, highest score first.
+ */
+export const findSimilarPosts = (
+  input: SimilarityInput,
+  posts: any[],
+  { limit = 5, threshold = SIMILARITY_WARNING_THRESHOLD }: { limit?: number; threshold?: number } = {}
+): SimilarPost[] => {
+  if (!input.title.trim() && !input.content?.trim()) return [];
+  // A bare topic is only compared with titles, which keeps typing responsive
+  const withContent = !!input.content?.trim();
+  const fingerprint = createFingerprint(input, withContent);
+
+  return posts
+    .map((post) => ({ post, ...compareFingerprints(fingerprint, createFingerprint(post, withContent)) }))
+    .filter((result) => result.score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+/**
+ * Groups posts whose pairwise similarity reaches the threshold. Clusters are
+ * connected components, so A~B and B~C put all three in one cluster.
+ */
+export const findDuplicateClusters = (
+  posts: any[],
+  threshold: number = DUPLICATE_CLUSTER_THRESHOLD
+): DuplicateCluster[] => {
+  const fingerprints = posts.map((post) => createFingerprint(post));
+  const parent = posts.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const pairs: { a: number; b: number; score: number }[] = [];
+  for (let a = 0; a < posts.length; a++) {
+    for (let b = a + 1; b < posts.length; b++) {
+      const { score } = compareFingerprints(fingerprints[a], fingerprints[b]);
+      if (score >= threshold) {
+        pairs.push({ a, b, score });
+        parent[find(a)] = find(b);
+      }
+    }
+  }
+
+  const clusters = new Map<number, DuplicateCluster>();
+  pairs.forEach(({ a, b, score }) => {
+    const root = find(a);
+    const cluster = clusters.get(root) || { posts: [], pairs: [], max_score: 0 };
+    [a, b].forEach((index) => {
+      if (!cluster.posts.includes(posts[index])) cluster.posts.push(posts[index]);
+    });
+    cluster.pairs.push({ a: posts[a].id, b: posts[b].id, score });
+    cluster.max_score = Math.max(cluster.max_score, score);
+    clusters.set(root, cluster);
+  });
+
+  return Array.from(clusters.values()).sort((x, y) => y.max_score - x.max_score);
+};
+
+export const formatSimilarity = (score: number): string => `${Math.round(score * 100)}%`;
@@ -0,0 +1,77 @@
+/**
+ * Prompt templates and Claude generation request building
+ */
+
+import { ArticleTone, BrandVoice, PromptTemplate, PromptTemplateFields } from '../types';
+import { getSiteBrandVoice, normalizeBrandVoice } from './brandVoice';
+
+export const ARTICLE_TONE_LABELS: Record<ArticleTone, string> = {
+  professional: '専門的で信頼性のある',
+  friendly: '親しみやすく読みやすい',
+  neutral: '中立的で情報提供的な',
+};
+
+export const DEFAULT_TEMPLATE_FIELDS: PromptTemplateFields = {
+  structure: '導入→基本知識→詳細説明→地域情報→まとめ',
+  tone: 'friendly',
+  target_length: 2000,
+  keywords: [],
+  exclude_keywords: [],
+  seo_focus: true,
+  extra_instructions: '',
+};
+
+export interface ArticleRequestConfig extends PromptTemplateFields {
+  topic: string;
+}
+
+type SiteContext = {
+  region: string;
+  pharmacy_name: string;
+  pharmacy_features?: string;
+  brand_voice?: BrandVoice | null;
+};
+
+/**
+ * The `site_info` part of a Claude request, shared by article generation and
+ * section rewrites so both write for the same pharmacy. The brand voice is
+ * only included once the site has saved one; otherwise the server keeps its
+ * own default wording.
+ */
+export const buildSiteInfo = (site: SiteContext) => ({
+  region: site.region,
+  pharmacy_name: site.pharmacy_name,
+  pharmacy_features: site.pharmacy_features || '',
+  ...(site.brand_voice ? { brand_voice: normalizeBrandVoice(getSiteBrandVoice(site)) } : {}),
+});
+
+/**
+ * Builds the `request_data` payload for `generateArticle`. The template id
+ * and version are recorded so each Claude request can be traced back to the
+ * exact template it was generated from. A saved brand voice profile is
+ * merged into `site_info` so every generation for the site speaks with it.
+ */
+export const buildArticleRequest = (
+  site: SiteContext,
+  config: ArticleRequestConfig,
+  template?: PromptTemplate | null
+) => ({
+  site_info: buildSiteInfo(site),
+  article_config: {
+    topic: config.topic,
+    tone: config.tone,
+    target_length: config.target_length,
+    keywords: config.keywords.filter((keyword) => keyword.trim()),
+    exclude_keywords: config.exclude_keywords.filter((keyword) => keyword.trim()),
+  },
+  template: {
+    structure: config.structure,
+    seo_focus: config.seo_focus,
+    ...(config.extra_instructions.trim() && { extra_instructions: config.extra_instructions.trim() }),
+    ...(template && {
+      template_id: template.id,
+      template_version: template.version,
+      template_name: template.name,
+    }),
+  },
+});
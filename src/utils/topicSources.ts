@@ -0,0 +1,226 @@
+/**
+ * What each schedule firing posts: a rotating topic list, a template, the
+ * seasonal calendar or a queue of approved drafts
+ */
+
+import { PlannedTopic, PromptTemplate, ScheduleTopicSource, ScheduleTopicSourceType, SeasonalTopic } from '../types';
+import { toWallClock } from './cron';
+import { getSeasonalTopicsForMonth } from './seasonal';
+
+export const TOPIC_SOURCE_LABELS: Record<ScheduleTopicSourceType, string> = {
+  rotation: 'トピックを順番に使う',
+  template: 'テンプレートから生成',
+  seasonal: '季節トピックカレンダー',
+  draft_queue: '承認済みの下書きを公開',
+};
+
+export const DEFAULT_TOPIC_SOURCE: ScheduleTopicSource = {
+  type: 'rotation',
+  template_id: null,
+  topics: [],
+  next_index: 0,
+  queue: [],
+  skipped_ids: [],
+  used_ids: [],
+};
+
+export interface TopicSourceContext {
+  drafts: { id: string; title: string; created_at: string }[];
+  seasonalTopics: SeasonalTopic[];
+  templates: PromptTemplate[];
+  region?: string;
+}
+
+export const getScheduleTopicSource = (
+  schedule?: { topic_source?: Partial<ScheduleTopicSource> | null } | null
+): ScheduleTopicSource => {
+  return { ...DEFAULT_TOPIC_SOURCE, ...(schedule?.topic_source || {}) };
+};
+
+// The rotation as saved: trimmed, without blank lines
+export const cleanRotationTopics = (topics: string[]): string[] =>
+  topics.map((topic) => topic.trim()).filter(Boolean);
+
+/**
+ * Replaces the rotation's topic list with the edited lines while keeping the
+ * next firing on the same topic. `next_index` counts the cleaned topics, the
+ * list that is saved, so blank lines kept while editing do not shift it.
+ * Edits that keep the topic count are taken as in-place edits; otherwise the
+ * topic is looked up again, and the rotation restarts only when it was removed.
+ */
+export const updateRotationTopics = (source: ScheduleTopicSource, lines: string[]): ScheduleTopicSource => {
+  const previous = cleanRotationTopics(source.topics);
+  const topics = cleanRotationTopics(lines);
+  if (topics.length === previous.length || previous.length === 0) {
+    return { ...source, topics: lines };
+  }
+  const index = topics.indexOf(previous[source.next_index % previous.length]);
+  return { ...source, topics: lines, next_index: Math.max(index, 0) };
+};
+
+// `items` starting from the one the next firing uses
+const rotate = <T>(items: T[], nextIndex: number): T[] => {
+  if (items.length === 0) return [];
+  const start = nextIndex % items.length;
+  return [...items.slice(start), ...items.slice(0, start)];
+};
+
+const getRotation = (source: ScheduleTopicSource): string[] => rotate(source.topics, source.next_index);
+
+/**
+ * Approved drafts in publishing order: the saved queue first, then drafts
+ * approved since it was saved, oldest first. Posts that are no longer
+ * approved drop out.
+ */
+export const getDraftQueue = (source: ScheduleTopicSource, drafts: TopicSourceContext['drafts']) => {
+  const queued = source.queue
+    .map((id) => drafts.find((draft) => draft.id === id))
+    .filter((draft): draft is TopicSourceContext['drafts'][number] => !!draft);
+  const rest = drafts
+    .filter((draft) => !source.queue.includes(draft.id))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  return [...queued, ...rest];
+};
+
+/**
+ * Pairs upcoming run times with what each firing will post. Runs beyond the
+ * end of a draft queue, or without any topic to use, are left out. Seasonal
+ * months are judged in `timeZone`, the schedule's zone.
+ */
+export const planScheduleTopics = (
+  source: ScheduleTopicSource,
+  runs: Date[],
+  context: TopicSourceContext,
+  timeZone?: string
+): PlannedTopic[] => {
+  const template = context.templates.find((item) => item.id === source.template_id);
+
+  switch (source.type) {
+    case 'rotation': {
+      const rotation = getRotation(source);
+      if (rotation.length === 0) return [];
+      return runs.map((run_at, index) => ({
+        key: `rotation-${index}`,
+        run_at,
+        action: 'generate' as const,
+        topic: rotation[index % rotation.length],
+        keywords: template?.keywords || [],
+      }));
+    }
+
+    case 'template': {
+      // Each firing takes the template's next keyword as its topic
+      if (!template) return [];
+      const keywords = rotate(template.keywords, source.next_index);
+      if (keywords.length === 0) return [];
+      return runs.map((run_at, index) => ({
+        key: `template-${index}`,
+        run_at,
+        action: 'generate' as const,
+        topic: keywords[index % keywords.length],
+        keywords: template.keywords,
+      }));
+    }
+
+    case 'seasonal': {
+      // Topics never used come first, then the one used longest ago, the same
+      // pick the server makes when a firing consumes a topic
+      const used = [...source.used_ids];
+      return runs.flatMap((run_at) => {
+        const month = toWallClock(run_at, timeZone).getUTCMonth() + 1;
+        const topics = getSeasonalTopicsForMonth(context.seasonalTopics, month, context.region)
+          .filter((topic) => !source.skipped_ids.includes(topic.id));
+        if (topics.length === 0) return [];
+        const topic = topics.reduce((best, candidate) =>
+          used.lastIndexOf(candidate.id) < used.lastIndexOf(best.id) ? candidate : best
+        );
+        used.push(topic.id);
+        return [{
+          key: `${topic.id}-${run_at.getTime()}`,
+          run_at,
+          action: 'generate' as const,
+          topic: topic.topic,
+          keywords: topic.keywords,
+          seasonal_topic_id: topic.id,
+        }];
+      });
+    }
+
+    case 'draft_queue':
+      return getDraftQueue(source, context.drafts)
+        .slice(0, runs.length)
+        .map((draft, index) => ({
+          key: draft.id,
+          run_at: runs[index],
+          action: 'publish' as const,
+          topic: draft.title,
+          keywords: [],
+          post_id: draft.id,
+        }));
+  }
+};
+
+/**
+ * Whether planned topics of this source can be reordered; seasonal topics
+ * follow the calendar and can only be skipped.
+ */
+export const canReorderTopics = (source: ScheduleTopicSource): boolean =>
+  source.type === 'rotation' || source.type === 'draft_queue';
+
+const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  const result = [...items];
+  const [item] = result.splice(from, 1);
+  result.splice(to, 0, item);
+  return result;
+};
+
+/**
+ * Moves the planned item at `index` one place earlier or later. Returns the
+ * source to save; the rotation restarts from its new first topic.
+ */
+export const moveTopicSourceItem = (
+  source: ScheduleTopicSource,
+  context: TopicSourceContext,
+  index: number,
+  offset: -1 | 1
+): ScheduleTopicSource => {
+  if (source.type === 'rotation') {
+    const rotation = getRotation(source);
+    const target = (index + offset + rotation.length) % rotation.length;
+    return { ...source, topics: moveItem(rotation, index % rotation.length, target), next_index: 0 };
+  }
+  if (source.type === 'draft_queue') {
+    const queue = getDraftQueue(source, context.drafts).map((draft) => draft.id);
+    const target = Math.min(Math.max(index + offset, 0), queue.length - 1);
+    return { ...source, queue: moveItem(queue, index, target) };
+  }
+  return source;
+};
+
+/**
+ * Skips a planned item: rotation topics and drafts go to the back of the
+ * line, seasonal topics are left out until the skip is cleared.
+ */
+export const skipTopicSourceItem = (
+  source: ScheduleTopicSource,
+  context: TopicSourceContext,
+  item: PlannedTopic,
+  index: number
+): ScheduleTopicSource => {
+  switch (source.type) {
+    case 'rotation': {
+      const rotation = getRotation(source);
+      return { ...source, topics: moveItem(rotation, index % rotation.length, rotation.length - 1), next_index: 0 };
+    }
+    case 'draft_queue': {
+      const queue = getDraftQueue(source, context.drafts).map((draft) => draft.id);
+      return { ...source, queue: moveItem(queue, index, queue.length - 1) };
+    }
+    case 'seasonal':
+      return item.seasonal_topic_id
+        ? { ...source, skipped_ids: [...source.skipped_ids, item.seasonal_topic_id] }
+        : source;
+    default:
+      return source;
+  }
+};
@@ -0,0 +1,58 @@
+/**
+ * Quality metrics for comparing generated article variants
+ */
+
+import { ArticleVariantMetrics, ComplianceRule, ReadabilityTarget } from '../types';
+import { checkHtmlCompliance } from './compliance';
+import { stripHtml } from './formatters';
+import { analyzeReadability, getReadabilityScore } from './readability';
+import { analyzeSeo } from './seo';
+
+export interface ArticleVariantInput {
+  title: string;
+  content: string;
+  metaDescription?: string;
+  keyword?: string;
+}
+
+export interface ArticleVariantContext {
+  complianceRules: ComplianceRule[];
+  readabilityTarget: ReadabilityTarget;
+  siteUrl?: string;
+}
+
+export const measureArticleVariant = (
+  article: ArticleVariantInput,
+  { complianceRules, readabilityTarget, siteUrl }: ArticleVariantContext
+): ArticleVariantMetrics => {
+  const readability = analyzeReadability(stripHtml(article.content), readabilityTarget);
+
+  return {
+    seo_score: analyzeSeo({ ...article, siteUrl }).score,
+    readability_score: getReadabilityScore(readability.metrics, readabilityTarget),
+    character_count: readability.metrics.character_count,
+    compliance_hits: checkHtmlCompliance(article.content, complianceRules).length,
+  };
+};
+
+/**
+ * Index of the best value per metric, for highlighting in the comparison.
+ * Higher is better except for compliance hits; length is not ranked.
+ */
+export const getBestVariantIndexes = (
+  metrics: ArticleVariantMetrics[]
+): Partial<Record<keyof ArticleVariantMetrics, number>> => {
+  if (metrics.length < 2) return {};
+
+  const best = (key: keyof ArticleVariantMetrics, lowerIsBetter = false) =>
+    metrics.reduce((bestIndex, item, index) => {
+      const current = metrics[bestIndex][key];
+      return (lowerIsBetter ? item[key] < current : item[key] > current) ? index : bestIndex;
+    }, 0);
+
+  return {
+    seo_score: best('seo_score'),
+    readability_score: best('readability_score'),
+    compliance_hits: best('compliance_hits', true),
+  };
+};